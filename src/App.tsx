@@ -1,8 +1,23 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import type { ChangeEvent, ComponentProps } from 'react';
+import type { HMRUpdateFailure } from './types';
 import panelRegistry from './core/registry/panel-registry';
+import componentStore from './core/registry/component-store';
 import ChatInterface from './components/chat/ChatInterface';
 import PanelContainer from './components/panels/PanelContainer';
+import PanelEditor from './components/panels/PanelEditor';
+import PanelHistory from './components/panels/PanelHistory';
+import PanelExportDialog from './components/panels/PanelExportDialog';
+import PanelImportReview from './components/panels/PanelImportReview';
+import NetworkSettingsDialog from './components/panels/NetworkSettingsDialog';
+import ChannelInspector from './components/panels/ChannelInspector';
+import { parseBundle, reviewBundle, type PanelImportReview as ImportReview } from './core/bundles/panel-bundle';
 import { useDynamicPanels } from './hooks/useDynamicPanel';
+import { resolvePanelTrust } from './core/sandbox/sandbox-protocol';
+import useWorkspaceStore, { selectSettings, selectStats } from './core/workspace/workspace-store';
+
+/** Choices for the memory budget in the header */
+const MEMORY_BUDGETS = [1, 2, 4, 8, 16, 32].map(mb => mb * 1024 * 1024);
 
 /**
  * Main UI Madness Application Component
@@ -11,9 +26,19 @@ import { useDynamicPanels } from './hooks/useDynamicPanel';
  */
 function App() {
   const { panels, createPanel, removePanel, clearAllPanels } = useDynamicPanels();
-  const [showChat, setShowChat] = useState(true);
+  const { showChat, memoryBudget } = useWorkspaceStore(selectSettings);
+  const setShowChat = useWorkspaceStore(state => state.setShowChat);
+  const setMemoryBudget = useWorkspaceStore(state => state.setMemoryBudget);
+  const registryStats = useWorkspaceStore(selectStats);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Omit<ComponentProps<typeof PanelEditor>, 'onClose'> | null>(null);
+  const [historyPanelId, setHistoryPanelId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<{ initialSelection?: string[] } | null>(null);
+  const [importReviews, setImportReviews] = useState<ImportReview[] | null>(null);
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false);
+  const [showChannels, setShowChannels] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const createTestComponent = async () => {
     setIsLoading(true);
@@ -67,11 +92,36 @@ function App() {
     }
   };
 
-  const registryStats = panelRegistry.getStats();
-
   const handlePanelEdit = (panelId: string) => {
-    // TODO: Implement panel editing functionality
-    console.log('Edit panel:', panelId);
+    const panel = panelRegistry.getPanel(panelId);
+    if (panel) {
+      // Hot updates (e.g. files saved on disk) commit without touching the definition
+      setEditing({ panelId, source: componentStore.getSource(panelId) ?? panel.files ?? panel.jsxCode });
+    }
+  };
+
+  // Failed updates open with their own source, so the fix starts from the edit that broke
+  const handleOpenFailure = (failure: HMRUpdateFailure) => {
+    setEditing({
+      panelId: failure.panelId,
+      source: failure.failedSource,
+      initialFile: failure.filePath,
+      initialLocation: failure.location
+    });
+  };
+
+  // Bundles are validated before the review opens; nothing runs until the user confirms
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      setImportReviews(await reviewBundle(parseBundle(await file.text())));
+    } catch (err) {
+      setError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed');
+    }
   };
 
   return (
@@ -93,7 +143,19 @@ function App() {
               <div className="flex items-center space-x-4">
                 <div className="text-sm text-gray-500">
                   <span className="font-medium">Panels:</span> {panels.length} |{' '}
-                  <span className="font-medium">Memory:</span> {Math.round(registryStats.memoryUsage / 1024)}KB
+                  <span className="font-medium">Memory:</span> {Math.round(registryStats.memoryUsage / 1024)}KB of{' '}
+                  <select
+                    value={memoryBudget}
+                    onChange={(event) => setMemoryBudget(Number(event.target.value))}
+                    className="bg-transparent"
+                    title="Idle panels are unloaded above this budget"
+                  >
+                    {MEMORY_BUDGETS.map(bytes => (
+                      <option key={bytes} value={bytes}>{bytes / (1024 * 1024)}MB</option>
+                    ))}
+                  </select>
+                  {registryStats.unloadedPanels > 0 && ` (${registryStats.unloadedPanels} unloaded)`} |{' '}
+                  <span className="font-medium">Cache hits:</span> {Math.round(registryStats.cacheHitRate * 100)}%
                 </div>
                 <button
                   onClick={createTestComponent}
@@ -102,6 +164,40 @@ function App() {
                 >
                   {isLoading ? 'Creating...' : 'Create Test Component'}
                 </button>
+                <button
+                  onClick={() => setExporting({})}
+                  disabled={panels.length === 0}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Import
+                </button>
+                <button
+                  onClick={() => setShowNetworkSettings(true)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  title="Origins panels may request"
+                >
+                  Network
+                </button>
+                <button
+                  onClick={() => setShowChannels(true)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  title="Messages between panels"
+                >
+                  Channels
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
                 <button
                   onClick={clearAllPanels}
                   className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
@@ -186,25 +282,26 @@ function App() {
           {/* Dynamic Panels Grid */}
           {panels.length > 0 && (
             <div className="p-6 grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-              {panels.map(({ id, component }) => {
-                const panelData = panelRegistry.getPanel(id);
-                return (
-                  <PanelContainer
-                    key={id}
-                    id={id}
-                    component={component}
-                    title={panelData?.name}
-                    metadata={{
-                      creator: panelData?.metadata.creator,
-                      description: panelData?.metadata.description,
-                      tags: panelData?.metadata.tags,
-                      createdAt: panelData?.metadata.createdAt
-                    }}
-                    onRemove={() => removePanel(id)}
-                    onEdit={() => handlePanelEdit(id)}
-                  />
-                );
-              })}
+              {panels.map(({ id, component, name, metadata }) => (
+                <PanelContainer
+                  key={id}
+                  id={id}
+                  component={component}
+                  title={name}
+                  trust={resolvePanelTrust(metadata)}
+                  metadata={{
+                    creator: metadata.creator,
+                    description: metadata.description,
+                    tags: metadata.tags,
+                    createdAt: metadata.createdAt
+                  }}
+                  onRemove={() => removePanel(id)}
+                  onEdit={() => handlePanelEdit(id)}
+                  onShowHistory={() => setHistoryPanelId(id)}
+                  onExport={() => setExporting({ initialSelection: [id] })}
+                  onOpenInEditor={handleOpenFailure}
+                />
+              ))}
             </div>
           )}
         </main>
@@ -216,6 +313,34 @@ function App() {
           <ChatInterface />
         </div>
       )}
+
+      {/* Panel Editor */}
+      {editing && (
+        <PanelEditor {...editing} onClose={() => setEditing(null)} />
+      )}
+
+      {/* Revision History */}
+      {historyPanelId && (
+        <PanelHistory panelId={historyPanelId} onClose={() => setHistoryPanelId(null)} />
+      )}
+
+      {/* Bundle Export and Import */}
+      {exporting && (
+        <PanelExportDialog {...exporting} onClose={() => setExporting(null)} />
+      )}
+      {importReviews && (
+        <PanelImportReview reviews={importReviews} onClose={() => setImportReviews(null)} />
+      )}
+
+      {/* Network Allowlist */}
+      {showNetworkSettings && (
+        <NetworkSettingsDialog onClose={() => setShowNetworkSettings(false)} />
+      )}
+
+      {/* Channel Traffic */}
+      {showChannels && (
+        <ChannelInspector onClose={() => setShowChannels(false)} />
+      )}
     </div>
   );
 }
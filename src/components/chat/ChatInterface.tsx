@@ -1,8 +1,25 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../../types';
+import { useShallow } from 'zustand/react/shallow';
+import type { ChatMessage, GenerationStreamOptions, PanelTrust, RepairStage } from '../../types';
 import aiComponentGenerator from '../../core/ai/component-generator';
+import { DraftPreview } from '../../core/ai/draft-preview';
+import panelRegistry from '../../core/registry/panel-registry';
+import { resolvePanelTrust } from '../../core/sandbox/sandbox-protocol';
+import useWorkspaceStore, {
+  selectActiveThread,
+  selectIsGenerating,
+  selectRunningJobs,
+  selectThreads
+} from '../../core/workspace/workspace-store';
 import ChatMessageComponent from './ChatMessage';
 import ChatInput from './ChatInput';
+import GenerationProgress from './GenerationProgress';
+
+const REPAIR_STAGE_LABELS: Record<RepairStage, string> = {
+  validation: 'The generated code failed validation',
+  compile: 'The generated code failed to compile',
+  render: 'The generated component failed its render check'
+};
 
 /**
  * Chat Interface for AI-powered component generation
@@ -11,22 +28,112 @@ import ChatInput from './ChatInput';
  * they want to create, with real-time generation and feedback.
  */
 const ChatInterface: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const thread = useWorkspaceStore(selectActiveThread);
+  const threads = useWorkspaceStore(useShallow(selectThreads));
+  const runningJobs = useWorkspaceStore(useShallow(selectRunningJobs));
+  const isGenerating = useWorkspaceStore(selectIsGenerating);
+  const {
+    addMessage, clearThread, createThread, selectThread, startJob, updateJob, finishJob, failJob, cancelJob
+  } = useWorkspaceStore(
+    useShallow(state => ({
+      addMessage: state.addMessage,
+      clearThread: state.clearThread,
+      createThread: state.createThread,
+      selectThread: state.selectThread,
+      startJob: state.startJob,
+      updateJob: state.updateJob,
+      finishJob: state.finishJob,
+      failJob: state.failJob,
+      cancelJob: state.cancelJob
+    }))
+  );
   const [error, setError] = useState<string | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const messages = thread.messages;
+
+  // Cancel generations still streaming when the chat goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  /**
+   * Streams a job's tokens into the store, compiles drafts from them and
+   * reports repair rounds in the thread. Drafts run where the panel will.
+   *
+   * @returns Stream options for the generator and a function to call once it settles
+   */
+  const streamJob = (
+    jobId: string,
+    threadId: string,
+    trust: PanelTrust
+  ): { stream: GenerationStreamOptions; settle: () => void } => {
+    const controller = new AbortController();
+    controllersRef.current.set(jobId, controller);
+
+    const preview = new DraftPreview(jobId, draft => updateJob(jobId, { preview: draft }), trust);
+
+    return {
+      stream: {
+        signal: controller.signal,
+        onToken: (_token, text) => {
+          updateJob(jobId, { output: text });
+          preview.update(text);
+        },
+        onRepair: ({ round, maxRounds, stage, error }) => {
+          updateJob(jobId, { output: '' });
+          addMessage({
+            id: `repair-${Date.now()}-${round}`,
+            type: 'assistant',
+            content: `🔧 ${REPAIR_STAGE_LABELS[stage]}: ${error}\n\nAsking the model for a fix (round ${round} of ${maxRounds})...`,
+            timestamp: new Date()
+          }, threadId);
+        }
+      },
+      settle: () => {
+        preview.dispose();
+        controllersRef.current.delete(jobId);
+      }
+    };
+  };
+
+  const cancelGeneration = (jobId: string) => {
+    controllersRef.current.get(jobId)?.abort();
+  };
+
+  /**
+   * Records a cancelled job; other failures are left to the caller.
+   *
+   * @returns True if the job was cancelled
+   */
+  const handleCancelled = (jobId: string, threadId: string): boolean => {
+    if (!controllersRef.current.get(jobId)?.signal.aborted) return false;
+
+    cancelJob(jobId);
+    addMessage({
+      id: `cancelled-${Date.now()}`,
+      type: 'assistant',
+      content: '⏹️ Generation cancelled.',
+      timestamp: new Date()
+    }, threadId);
+    return true;
+  };
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, runningJobs.length]);
 
-  // Add welcome message on mount
+  // Greet in every new thread; persisted threads keep their history
   useEffect(() => {
+    // Reason: read the store, not the render; StrictMode runs this effect twice
+    if (useWorkspaceStore.getState().threads[thread.id]?.messages.length) return;
+
     const welcomeMessage: ChatMessage = {
-      id: 'welcome',
+      id: `welcome-${Date.now()}`,
       type: 'assistant',
       content: `👋 Welcome to UI Madness! I'm powered by Qwen2.5-Coder (1.5B parameters) and can help you create React components.
 
@@ -40,13 +147,14 @@ Keep requests simple and clear for best results!`,
       timestamp: new Date()
     };
 
-    setMessages([welcomeMessage]);
-  }, []);
+    addMessage(welcomeMessage, thread.id);
+  }, [thread.id, messages.length, addMessage]);
 
   const handleSendMessage = async (content: string) => {
     if (!content.trim() || isGenerating) return;
 
     setError(null);
+    const threadId = thread.id;
     
     // Add user message
     const userMessage: ChatMessage = {
@@ -56,21 +164,13 @@ Keep requests simple and clear for best results!`,
       timestamp: new Date()
     };
     
-    setMessages(prev => [...prev, userMessage]);
-    setIsGenerating(true);
+    addMessage(userMessage, threadId);
+    const jobId = startJob({ kind: 'generate', prompt: content.trim(), threadId });
+    const { stream, settle } = streamJob(jobId, threadId, resolvePanelTrust({ creator: 'ai' }));
 
     try {
       // Detect panel type from user input
       const panelType = detectPanelType(content);
-      
-      // Add "thinking" message
-      const thinkingMessage: ChatMessage = {
-        id: `thinking-${Date.now()}`,
-        type: 'system',
-        content: 'Generating component...',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, thinkingMessage]);
 
       // Generate component using AI
       const result = await aiComponentGenerator.generateComponent({
@@ -83,15 +183,18 @@ Keep requests simple and clear for best results!`,
             .slice(-3)
             .map(m => m.content)
         }
-      });
+      }, stream);
 
-      // Remove thinking message and add success message
-      setMessages(prev => prev.filter(m => m.id !== thinkingMessage.id));
+      finishJob(jobId, result.panelId);
       
       const aiMessage: ChatMessage = {
         id: `ai-${Date.now()}`,
         type: 'assistant',
         content: `✅ Created "${result.panelId}"! The component has been generated and is ready to use.${
+          result.metadata.repairRounds
+            ? ` It took ${result.metadata.repairRounds} repair round${result.metadata.repairRounds === 1 ? '' : 's'}.`
+            : ''
+        }${
           result.metadata.warnings?.length 
             ? `\n\n⚠️ Note: ${result.metadata.warnings.join(', ')}` 
             : ''
@@ -104,22 +207,20 @@ Keep requests simple and clear for best results!`,
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, aiMessage]);
+      addMessage(aiMessage, threadId);
 
       // Trigger panel creation in the main app
-      window.dispatchEvent(new CustomEvent('create-panel', {
-        detail: { 
-          panelId: result.panelId, 
-          component: result.component,
-          metadata: result.metadata 
-        }
-      }));
+      panelRegistry.events.emit('create-panel', {
+        panelId: result.panelId, 
+        component: result.component,
+        metadata: result.metadata 
+      });
 
     } catch (err) {
-      // Remove thinking message
-      setMessages(prev => prev.filter(m => m.id.startsWith('thinking-')));
-      
+      if (handleCancelled(jobId, threadId)) return;
+
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
+      failJob(jobId, errorMessage);
       setError(errorMessage);
       
       const errorResponse: ChatMessage = {
@@ -137,31 +238,24 @@ Would you like to try again with a different description?`,
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, errorResponse]);
+      addMessage(errorResponse, threadId);
     } finally {
-      setIsGenerating(false);
+      settle();
     }
   };
 
   const handleRegeneratePanel = async (panelId: string) => {
     if (isGenerating) return;
 
-    setIsGenerating(true);
     setError(null);
+    const threadId = thread.id;
+    const jobId = startJob({ kind: 'regenerate', panelId, threadId });
+    const metadata = panelRegistry.getPanel(panelId)?.metadata;
+    const { stream, settle } = streamJob(jobId, threadId, resolvePanelTrust(metadata ?? { creator: 'ai' }));
 
     try {
-      const thinkingMessage: ChatMessage = {
-        id: `regen-thinking-${Date.now()}`,
-        type: 'system',
-        content: 'Regenerating component...',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, thinkingMessage]);
-
-      const result = await aiComponentGenerator.regenerateComponent(panelId);
-      
-      // Remove thinking message
-      setMessages(prev => prev.filter(m => m.id !== thinkingMessage.id));
+      const result = await aiComponentGenerator.regenerateComponent(panelId, undefined, stream);
+      finishJob(jobId);
 
       const successMessage: ChatMessage = {
         id: `regen-${Date.now()}`,
@@ -170,46 +264,38 @@ Would you like to try again with a different description?`,
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, successMessage]);
+      addMessage(successMessage, threadId);
 
       // Update the panel
-      window.dispatchEvent(new CustomEvent('create-panel', {
-        detail: { 
-          panelId: result.panelId, 
-          component: result.component 
-        }
-      }));
+      panelRegistry.events.emit('create-panel', {
+        panelId: result.panelId, 
+        component: result.component 
+      });
 
     } catch (err) {
-      setMessages(prev => prev.filter(m => m.id.startsWith('regen-thinking-')));
-      
+      if (handleCancelled(jobId, threadId)) return;
+
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      failJob(jobId, message);
+
       const errorMessage: ChatMessage = {
         id: `regen-error-${Date.now()}`,
         type: 'assistant',
-        content: `❌ Failed to regenerate component: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        content: `❌ Failed to regenerate component: ${message}`,
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      addMessage(errorMessage, threadId);
     } finally {
-      setIsGenerating(false);
+      settle();
     }
   };
 
   const clearChat = () => {
-    setMessages([]);
     setError(null);
-    
-    // Re-add welcome message
-    setTimeout(() => {
-      const welcomeMessage: ChatMessage = {
-        id: 'welcome-new',
-        type: 'assistant',
-        content: 'Chat cleared! I\'m ready to help you create components. What would you like to build?',
-        timestamp: new Date()
-      };
-      setMessages([welcomeMessage]);
-    }, 100);
+
+    // The welcome effect greets the emptied thread again
+    clearThread(thread.id);
   };
 
   return (
@@ -236,6 +322,23 @@ Would you like to try again with a different description?`,
             </button>
           </div>
         </div>
+        <div className="mt-2 flex items-center space-x-2">
+          <select
+            value={thread.id}
+            onChange={(event) => selectThread(event.target.value)}
+            className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+          >
+            {threads.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => createThread()}
+            className="text-xs text-gray-500 hover:text-gray-700 px-2 py-1 rounded hover:bg-gray-100"
+          >
+            New chat
+          </button>
+        </div>
       </div>
 
       {/* Error Display */}
@@ -277,12 +380,9 @@ Would you like to try again with a different description?`,
           />
         ))}
         
-        {isGenerating && (
-          <div className="flex items-center space-x-2 text-gray-500">
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-            <span className="text-sm">AI is thinking...</span>
-          </div>
-        )}
+        {runningJobs.map(job => (
+          <GenerationProgress key={job.id} job={job} onCancel={() => cancelGeneration(job.id)} />
+        ))}
         
         <div ref={messagesEndRef} />
       </div>
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GenerationDraft, GenerationJob } from '../../types';
+import ErrorBoundary, { ErrorFallbackProps } from '../ui/ErrorBoundary';
+import SandboxFrame from '../panels/SandboxFrame';
+
+interface GenerationProgressProps {
+  job: GenerationJob;
+  onCancel: () => void;
+}
+
+/** Draft code is usually incomplete; its render errors are expected */
+const DraftError: React.FC<{ message: string }> = ({ message }) => (
+  <p className="text-xs text-gray-500 italic">Draft doesn't render yet: {message}</p>
+);
+
+const DraftErrorFallback: React.FC<ErrorFallbackProps> = ({ error }) => <DraftError message={error.message} />;
+
+/**
+ * Renders a draft where the panel will run: isolated drafts in a sandbox
+ * frame without the panel SDK, trusted ones in the app.
+ */
+const DraftView: React.FC<{ draft: GenerationDraft }> = ({ draft }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  // A new draft starts without the error of the previous one
+  useEffect(() => setError(null), [draft]);
+
+  if (draft.trust === 'trusted') {
+    const Preview = draft.component;
+    return (
+      <ErrorBoundary fallback={DraftErrorFallback}>
+        <Preview />
+      </ErrorBoundary>
+    );
+  }
+
+  return (
+    <>
+      <SandboxFrame
+        panelId={draft.draftId}
+        modules={draft.modules}
+        title="Sandboxed draft preview"
+        sdk={false}
+        onError={setError}
+      />
+      {error && <DraftError message={error} />}
+    </>
+  );
+};
+
+/**
+ * Generation Progress Component
+ *
+ * Shows a running generation in the chat: the tokens streamed so far and a
+ * draft preview compiled from them, with a button to cancel.
+ */
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ job, onCancel }) => {
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest tokens in view
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [job.output]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="text-sm">
+            {job.kind === 'regenerate' ? `Regenerating ${job.panelId}...` : 'Generating component...'}
+          </span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-xs px-2 py-1 text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+          title="Stop this generation"
+        >
+          ⏹️ Cancel
+        </button>
+      </div>
+
+      {job.output ? (
+        <pre
+          ref={outputRef}
+          className="text-xs font-mono bg-gray-900 text-gray-100 rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap"
+        >
+          {job.output}
+        </pre>
+      ) : (
+        <p className="text-xs text-gray-400">Waiting for the model...</p>
+      )}
+
+      {job.preview && (
+        <div className="border border-dashed border-blue-300 rounded p-2 bg-white">
+          <div className="text-xs text-blue-600 mb-2">Draft preview</div>
+          <DraftView draft={job.preview} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgress;
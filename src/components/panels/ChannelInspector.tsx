@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import channelBus from '../../core/channels/channel-bus';
+import panelRegistry from '../../core/registry/panel-registry';
+
+interface ChannelInspectorProps {
+  onClose: () => void;
+}
+
+/** Characters of a payload shown before it is cut off */
+const PAYLOAD_PREVIEW_LENGTH = 120;
+
+const panelName = (panelId: string) => panelRegistry.getPanel(panelId)?.name ?? panelId;
+
+const preview = (value: string) =>
+  value.length > PAYLOAD_PREVIEW_LENGTH ? `${value.slice(0, PAYLOAD_PREVIEW_LENGTH)}…` : value;
+
+/**
+ * Channel Inspector Component
+ *
+ * Shows the inter-panel message bus: each channel with its retained value
+ * and subscribers, and the recent traffic including blocked publishes.
+ */
+const ChannelInspector: React.FC<ChannelInspectorProps> = ({ onClose }) => {
+  const [snapshot, setSnapshot] = useState(() => ({ channels: channelBus.getChannels(), traffic: channelBus.getTraffic() }));
+
+  useEffect(() => {
+    const refresh = () => setSnapshot({ channels: channelBus.getChannels(), traffic: channelBus.getTraffic() });
+    refresh();
+    return channelBus.subscribeTraffic(refresh);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-2xl mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">Panel channels</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto text-xs">
+          <h3 className="px-4 pt-3 pb-1 font-medium text-gray-700">Channels</h3>
+          {snapshot.channels.length === 0 && (
+            <p className="px-4 pb-2 text-gray-500">No channel has been used yet.</p>
+          )}
+          <ul className="divide-y">
+            {snapshot.channels.map(({ channel, retained, subscribers }) => (
+              <li key={channel} className="px-4 py-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-gray-900">{channel}</span>
+                  <span className="text-gray-500">
+                    {subscribers.length} {subscribers.length === 1 ? 'subscriber' : 'subscribers'}
+                    {subscribers.length > 0 && `: ${subscribers.map(panelName).join(', ')}`}
+                  </span>
+                </div>
+                {retained && (
+                  <div className="mt-1 flex items-start justify-between">
+                    <code className="text-gray-700 break-all">
+                      {preview(JSON.stringify(retained.payload))}
+                      <span className="text-gray-500"> from {panelName(retained.sender)}</span>
+                    </code>
+                    <button
+                      onClick={() => channelBus.clearRetained(channel)}
+                      className="ml-2 text-red-600 hover:text-red-800 whitespace-nowrap"
+                      title="Panels subscribing later start without a value"
+                    >
+                      Clear value
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <h3 className="px-4 pt-3 pb-1 font-medium text-gray-700 border-t">Recent traffic</h3>
+          {snapshot.traffic.length === 0 && (
+            <p className="px-4 pb-3 text-gray-500">No messages yet.</p>
+          )}
+          <ul className="divide-y font-mono">
+            {snapshot.traffic.map(entry => (
+              <li key={entry.id} className="px-4 py-1 flex space-x-2">
+                <span className="text-gray-500">{new Date(entry.sentAt).toLocaleTimeString()}</span>
+                <span className={entry.outcome === 'blocked' ? 'text-orange-700' : 'text-gray-900'}>{entry.channel}</span>
+                <span className="text-gray-600">
+                  {panelName(entry.sender)} → {entry.outcome === 'blocked' ? 'blocked' : `${entry.recipients.length} panel(s)`}
+                </span>
+                <span className="flex-1 truncate text-gray-700" title={entry.detail}>{preview(entry.detail)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelInspector;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { normalizeOrigin, PANEL_FETCH_METHODS } from '../../core/network/fetch-broker';
+import useWorkspaceStore from '../../core/workspace/workspace-store';
+
+interface NetworkSettingsDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Network Settings Dialog Component
+ *
+ * Edits the workspace's origin allowlist: the only origins panels can reach
+ * with `usePanelFetch`.
+ */
+const NetworkSettingsDialog: React.FC<NetworkSettingsDialogProps> = ({ onClose }) => {
+  const allowedOrigins = useWorkspaceStore(state => state.settings.allowedOrigins);
+  const setAllowedOrigins = useWorkspaceStore(state => state.setAllowedOrigins);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const origin = normalizeOrigin(draft);
+    if (!origin) {
+      setError('Enter an http:// or https:// origin, e.g. https://api.example.com');
+      return;
+    }
+
+    setError(null);
+    setDraft('');
+    if (!allowedOrigins.includes(origin)) {
+      setAllowedOrigins([...allowedOrigins, origin]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-md mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">Panel network access</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="px-4 py-2 border-b text-xs text-gray-600">
+          Panels can only request these origins, using {PANEL_FETCH_METHODS.join(', ')} and without
+          cookies or redirects. Every request is listed in the panel's info section.
+        </p>
+
+        <ul className="flex-1 overflow-auto divide-y">
+          {allowedOrigins.length === 0 && (
+            <li className="px-4 py-3 text-sm text-gray-500">No origins allowed - panels cannot reach the network.</li>
+          )}
+          {allowedOrigins.map(origin => (
+            <li key={origin} className="px-4 py-2 flex items-center justify-between">
+              <span className="font-mono text-sm text-gray-900 truncate">{origin}</span>
+              <button
+                onClick={() => setAllowedOrigins(allowedOrigins.filter(allowed => allowed !== origin))}
+                className="ml-2 text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="mx-4 mb-2 p-2 bg-red-50 border border-red-200 text-xs text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <form
+          className="px-4 py-3 border-t flex space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleAdd();
+          }}
+        >
+          <input
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            placeholder="https://api.example.com"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Allow
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkSettingsDialog;
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { PanelChannelAccess } from '../../types';
+import panelRegistry from '../../core/registry/panel-registry';
+import { resolvePanelTrust } from '../../core/sandbox/sandbox-protocol';
+import useWorkspaceStore, { selectPanel } from '../../core/workspace/workspace-store';
+
+interface PanelChannelInfoProps {
+  id: string;
+}
+
+type ChannelDirection = 'publish' | 'subscribe';
+
+const ALLOWED_KEYS: Record<ChannelDirection, 'allowedPublish' | 'allowedSubscribe'> = {
+  publish: 'allowedPublish',
+  subscribe: 'allowedSubscribe'
+};
+
+/**
+ * Panel Channel Info Component
+ *
+ * Lists the message channels a panel publishes and subscribes to, with a
+ * checkbox per direction to allow it. Isolated panels start without access;
+ * trusted ones may use every channel. Changes apply immediately.
+ */
+const PanelChannelInfo: React.FC<PanelChannelInfoProps> = ({ id }) => {
+  const metadata = useWorkspaceStore(state => selectPanel(id)(state)?.metadata);
+  const access = metadata?.channels;
+  const trusted = !!metadata && resolvePanelTrust(metadata) === 'trusted';
+
+  if (!access || (access.publishes.length === 0 && access.subscribes.length === 0)) {
+    return (
+      <div>
+        <span className="font-medium">Channels:</span> none used
+      </div>
+    );
+  }
+
+  const toggle = (channel: string, direction: ChannelDirection, allowed: boolean) => {
+    const key = ALLOWED_KEYS[direction];
+    const others = (access[key] ?? []).filter(name => name !== channel);
+    const next: PanelChannelAccess = { ...access, [key]: allowed ? [...others, channel].sort() : others };
+    panelRegistry.updatePanelMetadata(id, { channels: next });
+  };
+
+  const channels = [...new Set([...access.publishes, ...access.subscribes])].sort();
+
+  const renderToggle = (channel: string, direction: ChannelDirection, used: string[]) => {
+    if (!used.includes(channel)) {
+      return <span className="w-16" />;
+    }
+    return (
+      <label
+        className="w-16 flex items-center space-x-1 cursor-pointer"
+        title={trusted ? 'Panels running in the app may use every channel' : undefined}
+      >
+        <input
+          type="checkbox"
+          checked={trusted || !!access[ALLOWED_KEYS[direction]]?.includes(channel)}
+          disabled={trusted}
+          onChange={(event) => toggle(channel, direction, event.target.checked)}
+        />
+        <span>{direction === 'publish' ? 'send' : 'receive'}</span>
+      </label>
+    );
+  };
+
+  return (
+    <div>
+      <span className="font-medium">Channels:</span>
+      <ul className="mt-1 space-y-0.5">
+        {channels.map(channel => (
+          <li key={channel} className="flex items-center space-x-2">
+            <span className="font-mono flex-1 truncate">{channel}</span>
+            {renderToggle(channel, 'publish', access.publishes)}
+            {renderToggle(channel, 'subscribe', access.subscribes)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PanelChannelInfo;
@@ -1,13 +1,33 @@
-import React, { useState, Suspense } from 'react';
+import React, { useState, useEffect, useRef, Profiler, Suspense } from 'react';
 import type { ComponentType } from 'react';
+import type { HMRUpdateFailure, MappedPanelError, PanelTrust } from '../../types';
+import hmrManager from '../../core/hmr/hmr-manager';
+import panelRegistry from '../../core/registry/panel-registry';
 import ErrorBoundary from '../ui/ErrorBoundary';
+import type { ErrorFallbackProps } from '../ui/ErrorBoundary';
+import SourceExcerpt from '../ui/SourceExcerpt';
+import HMRErrorOverlay from '../ui/HMRErrorOverlay';
+import SandboxedPanel from './SandboxedPanel';
+import PanelStorageInfo from './PanelStorageInfo';
+import PanelNetworkLog from './PanelNetworkLog';
+import PanelChannelInfo from './PanelChannelInfo';
+import { PanelContext } from '../../core/sdk/panel-context';
 
 interface PanelContainerProps {
   id: string;
-  component: ComponentType;
+  /** Null while the panel's modules are unloaded; they are reloaded once it is visible */
+  component: ComponentType | null;
   title?: string;
+  /** Whether the panel renders in the app or in a sandboxed iframe */
+  trust?: PanelTrust;
   onRemove?: () => void;
   onEdit?: () => void;
+  /** Shows the panel's revision history */
+  onShowHistory?: () => void;
+  /** Exports the panel as a bundle */
+  onExport?: () => void;
+  /** Opens the source of a failed hot update for fixing */
+  onOpenInEditor?: (failure: HMRUpdateFailure) => void;
   metadata?: {
     creator?: string;
     description?: string;
@@ -16,6 +36,23 @@ interface PanelContainerProps {
   };
 }
 
+/**
+ * Renders a panel's component and reports its instances and renders to the
+ * panel lifecycle, which decides when idle panels are unloaded. The panel's
+ * ID is provided to the panel SDK hooks it uses.
+ */
+const TrackedPanel: React.FC<{ id: string; component: ComponentType }> = ({ id, component: Component }) => {
+  useEffect(() => panelRegistry.lifecycle.mount(id), [id]);
+
+  return (
+    <PanelContext.Provider value={id}>
+      <Profiler id={id} onRender={() => panelRegistry.lifecycle.markRendered(id)}>
+        <Component />
+      </Profiler>
+    </PanelContext.Provider>
+  );
+};
+
 /**
  * Panel Container Component
  * 
@@ -26,12 +63,79 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
   id,
   component: Component,
   title,
+  trust = 'trusted',
   onRemove,
   onEdit,
+  onShowHistory,
+  onExport,
+  onOpenInEditor,
   metadata
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showMetadata, setShowMetadata] = useState(false);
+  // Errors from sandboxed panels cannot be mapped to the source
+  const [runtimeError, setRuntimeError] = useState<{ message: string; mapped?: MappedPanelError } | null>(null);
+  const [hmrFailure, setHmrFailure] = useState<HMRUpdateFailure | null>(null);
+  const [isOnScreen, setIsOnScreen] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isVisible = isExpanded && isOnScreen;
+
+  // Collapsed and off-screen panels may be unloaded when memory runs short
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(([entry]) => setIsOnScreen(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    panelRegistry.lifecycle.setVisible(id, isVisible);
+  }, [id, isVisible]);
+
+  // Unloaded panels are recompiled as soon as they are shown again
+  useEffect(() => {
+    if (!Component && isVisible) {
+      panelRegistry.lifecycle.ensureLoaded(id).catch(error => {
+        console.error(`Failed to reload panel ${id}:`, error);
+      });
+    }
+  }, [id, Component, isVisible]);
+
+  // Surface uncaught errors from this panel's event handlers and effects
+  useEffect(() => {
+    return panelRegistry.events.subscribe('panel-runtime-error', (event) => {
+      const { panelId, error, mapped } = event.payload;
+      if (panelId === id) {
+        setRuntimeError({ message: error, mapped });
+      }
+    });
+  }, [id]);
+
+  // Show failed hot updates over the last good version; a later successful
+  // update clears them
+  useEffect(() => {
+    return panelRegistry.events.subscribe(['panel-hmr-error', 'panel-hmr-update'], (event) => {
+      if (event.payload.panelId !== id) return;
+
+      if (event.type === 'panel-hmr-error') {
+        setHmrFailure(event.payload.failure);
+      } else {
+        setHmrFailure(null);
+      }
+    });
+  }, [id]);
+
+  const handleRevert = async () => {
+    await hmrManager.revertToLastGood(id);
+    setHmrFailure(null);
+  };
+
+  const handleTrustChange = (nextTrust: PanelTrust) => {
+    setRuntimeError(null);
+    panelRegistry.updatePanelMetadata(id, { trust: nextTrust });
+  };
 
   const formatTimestamp = (date?: Date) => {
     if (!date) return 'Unknown';
@@ -60,7 +164,7 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
     </div>
   );
 
-  const ErrorFallback = ({ error, resetError }: { error: Error; resetError: () => void }) => (
+  const ErrorFallback = ({ error, resetError, mappedError }: ErrorFallbackProps) => (
     <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
       <div className="flex items-start">
         <div className="flex-shrink-0">
@@ -73,12 +177,24 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
           <p className="mt-1 text-sm text-red-700">
             This panel failed to render properly.
           </p>
+          {mappedError?.sourceContent && (
+            <div className="mt-2">
+              <p className="text-xs text-red-700 mb-1">
+                {error.message} at line {mappedError.location.line}, column {mappedError.location.column}
+              </p>
+              <SourceExcerpt
+                source={mappedError.sourceContent}
+                location={mappedError.location}
+                fileName={mappedError.sourceName}
+              />
+            </div>
+          )}
           <details className="mt-2">
             <summary className="text-xs text-red-600 cursor-pointer hover:text-red-800">
               Error Details
             </summary>
             <pre className="mt-2 p-2 bg-red-100 text-xs text-red-800 rounded overflow-auto">
-              {error.message}
+              {mappedError?.stack ?? error.message}
             </pre>
           </details>
           <div className="mt-3">
@@ -95,7 +211,7 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
   );
 
   return (
-    <div className="panel-container animate-fade-in">
+    <div ref={containerRef} className="panel-container animate-fade-in">
       {/* Panel Header */}
       <div className="panel-header">
         <div className="flex items-center justify-between">
@@ -104,6 +220,14 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
             <h3 className="text-sm font-medium text-gray-900 truncate">
               {title || `Panel ${id.split('-').pop()}`}
             </h3>
+            {trust === 'isolated' && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-50 text-green-700"
+                title="Runs in a sandboxed frame without access to the app"
+              >
+                sandboxed
+              </span>
+            )}
             {metadata?.tags && metadata.tags.length > 0 && (
               <div className="flex space-x-1">
                 {metadata.tags.slice(0, 2).map(tag => (
@@ -163,6 +287,32 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
               </button>
             )}
 
+            {/* History Button */}
+            {onShowHistory && (
+              <button
+                onClick={onShowHistory}
+                className="p-1 text-gray-400 hover:text-blue-600 rounded"
+                title="Revision History"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                </svg>
+              </button>
+            )}
+
+            {/* Export Button */}
+            {onExport && (
+              <button
+                onClick={onExport}
+                className="p-1 text-gray-400 hover:text-blue-600 rounded"
+                title="Export Panel"
+              >
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </button>
+            )}
+
             {/* Remove Button */}
             {onRemove && (
               <button
@@ -193,19 +343,84 @@ const PanelContainer: React.FC<PanelContainerProps> = ({
                   <span className="font-medium">Description:</span> {metadata.description}
                 </div>
               )}
+              <div className="col-span-2">
+                <label className="font-medium" htmlFor={`${id}-trust`}>Runs in:</label>{' '}
+                <select
+                  id={`${id}-trust`}
+                  value={trust}
+                  onChange={(event) => handleTrustChange(event.target.value as PanelTrust)}
+                  className="ml-1 text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                >
+                  <option value="isolated">Sandboxed frame (no access to the app)</option>
+                  <option value="trusted">The app (full access)</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                <PanelStorageInfo id={id} />
+              </div>
+              <div className="col-span-2">
+                <PanelNetworkLog id={id} />
+              </div>
+              <div className="col-span-2">
+                <PanelChannelInfo id={id} />
+              </div>
             </div>
           </div>
         )}
       </div>
 
+      {/* Runtime Error Notice */}
+      {runtimeError && (
+        <div className="px-4 pt-3">
+          <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-xs">
+            <div className="flex items-start justify-between mb-2">
+              <span className="text-orange-800">
+                <strong>Runtime error:</strong> {runtimeError.message}
+                {runtimeError.mapped &&
+                  ` at line ${runtimeError.mapped.location.line}, column ${runtimeError.mapped.location.column}`}
+              </span>
+              <button
+                onClick={() => setRuntimeError(null)}
+                className="ml-2 text-orange-500 hover:text-orange-700"
+                title="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+            {runtimeError.mapped?.sourceContent && (
+              <SourceExcerpt
+                source={runtimeError.mapped.sourceContent}
+                location={runtimeError.mapped.location}
+                fileName={runtimeError.mapped.sourceName}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Panel Content */}
       {isExpanded && (
-        <div className="p-4">
+        <div className="relative p-4">
           <ErrorBoundary fallback={ErrorFallback}>
             <Suspense fallback={<LoadingFallback />}>
-              <Component />
+              {!Component ? (
+                <LoadingFallback />
+              ) : trust === 'isolated' ? (
+                <SandboxedPanel id={id} component={Component} onError={(message) => setRuntimeError({ message })} />
+              ) : (
+                <TrackedPanel id={id} component={Component} />
+              )}
             </Suspense>
           </ErrorBoundary>
+
+          {hmrFailure && (
+            <HMRErrorOverlay
+              failure={hmrFailure}
+              onDismiss={() => setHmrFailure(null)}
+              onRevert={handleRevert}
+              onOpenInEditor={onOpenInEditor && (() => onOpenInEditor(hmrFailure))}
+            />
+          )}
         </div>
       )}
     </div>
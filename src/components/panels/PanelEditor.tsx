@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PanelFileTree, SourceLocation } from '../../types';
+import panelRegistry from '../../core/registry/panel-registry';
+
+interface PanelEditorProps {
+  panelId: string;
+  /** Source to edit: the panel's source, or the file tree of a multi-file panel */
+  source: string | PanelFileTree;
+  /** File to open first, for multi-file panels */
+  initialFile?: string;
+  /** Location to place the cursor at, e.g. where an update failed */
+  initialLocation?: SourceLocation;
+  onClose: () => void;
+}
+
+/**
+ * Panel Editor Component
+ *
+ * Modal editor for a panel's source. Applying recompiles the panel through the
+ * registry; a compatible edit keeps the mounted panel's state.
+ */
+const PanelEditor: React.FC<PanelEditorProps> = ({
+  panelId,
+  source,
+  initialFile,
+  initialLocation,
+  onClose
+}) => {
+  const openedFile = typeof source === 'string' ? panelId : initialFile ?? source.entry;
+  const [files, setFiles] = useState<Record<string, string>>(
+    typeof source === 'string' ? { [panelId]: source } : { ...source.files }
+  );
+  const [activeFile, setActiveFile] = useState(openedFile);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Place the cursor at the reported location of the file it was opened for
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    if (!initialLocation || activeFile !== openedFile) return;
+
+    const lines = textarea.value.split('\n');
+    const lineIndex = Math.min(initialLocation.line, lines.length) - 1;
+    const offset = lines.slice(0, lineIndex).reduce((sum, line) => sum + line.length + 1, 0) +
+      initialLocation.column - 1;
+
+    textarea.setSelectionRange(offset, offset);
+    textarea.scrollTop = Math.max(0, (lineIndex / lines.length) * textarea.scrollHeight - textarea.clientHeight / 2);
+  }, [activeFile, openedFile, initialLocation]);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      if (typeof source === 'string') {
+        await panelRegistry.updatePanel(panelId, files[panelId]);
+      } else {
+        await panelRegistry.updatePanelFiles(panelId, { entry: source.entry, files });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-3xl mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">
+            Edit panel <span className="font-mono">{panelId}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {typeof source !== 'string' && (
+          <div className="px-4 pt-2 flex space-x-1 border-b">
+            {Object.keys(files).map(path => (
+              <button
+                key={path}
+                onClick={() => setActiveFile(path)}
+                className={`px-3 py-1 text-xs font-mono rounded-t ${
+                  path === activeFile ? 'bg-gray-900 text-gray-100' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {path}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="p-4 flex-1 min-h-0">
+          <textarea
+            ref={textareaRef}
+            value={files[activeFile] ?? ''}
+            onChange={(event) => setFiles(current => ({ ...current, [activeFile]: event.target.value }))}
+            spellCheck={false}
+            className="code-editor w-full h-96 p-3 text-xs resize-none focus:outline-none"
+          />
+          {error && (
+            <pre className="mt-2 p-2 bg-red-50 border border-red-200 text-xs text-red-700 rounded overflow-auto max-h-32">
+              {error}
+            </pre>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isApplying ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanelEditor;
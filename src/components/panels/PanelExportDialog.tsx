@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import panelRegistry from '../../core/registry/panel-registry';
+import { exportPanels } from '../../core/bundles/panel-bundle';
+
+interface PanelExportDialogProps {
+  /** Panels selected when the dialog opens; all panels when omitted */
+  initialSelection?: string[];
+  onClose: () => void;
+}
+
+/**
+ * Panel Export Dialog Component
+ *
+ * Lets the user pick panels and downloads them, with their revision history,
+ * as a bundle file.
+ */
+const PanelExportDialog: React.FC<PanelExportDialogProps> = ({ initialSelection, onClose }) => {
+  const panelIds = panelRegistry.listPanels();
+  const [selected, setSelected] = useState<Set<string>>(new Set(initialSelection ?? panelIds));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const ids = panelIds.filter(id => selected.has(id));
+      const bundle = await exportPanels(ids);
+      const fileName = ids.length === 1
+        ? `${ids[0]}.panels.json`
+        : `workspace-${bundle.exportedAt.slice(0, 10)}.panels.json`;
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-md mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">Export panels</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b flex justify-between text-xs">
+          <span className="text-gray-600">{selected.size} of {panelIds.length} selected</span>
+          <button
+            onClick={() => setSelected(new Set(selected.size === panelIds.length ? [] : panelIds))}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            {selected.size === panelIds.length ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-auto divide-y">
+          {panelIds.map(id => (
+            <li key={id} className="px-4 py-2">
+              <label className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(id)}
+                  onChange={() => toggle(id)}
+                />
+                <span className="text-gray-900">{panelRegistry.getPanel(id)?.name}</span>
+                <span className="font-mono text-xs text-gray-500 truncate">{id}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="mx-4 mb-2 p-2 bg-red-50 border border-red-200 text-xs text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="px-4 py-3 border-t flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selected.size === 0}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanelExportDialog;
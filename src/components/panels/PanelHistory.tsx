@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import type { FileDiff, PanelRevision, RevisionKind } from '../../types';
+import revisionHistory from '../../core/history/revision-history';
+
+interface PanelHistoryProps {
+  panelId: string;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+  creation: 'Created',
+  generation: 'Generated',
+  improvement: 'Improved',
+  regeneration: 'Regenerated',
+  edit: 'Edited',
+  rollback: 'Rolled back',
+  import: 'Imported'
+};
+
+/**
+ * Panel History Component
+ *
+ * Modal listing a panel's revisions, with a line diff between any two of
+ * them and one-click rollback to an earlier revision.
+ */
+const PanelHistory: React.FC<PanelHistoryProps> = ({ panelId, onClose }) => {
+  const [revisions, setRevisions] = useState<PanelRevision[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<FileDiff[]>([]);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the revisions and follow new ones while open
+  useEffect(() => {
+    const show = (loaded: PanelRevision[]) => {
+      setRevisions(loaded);
+      const latest = loaded[loaded.length - 1]?.number ?? null;
+      setTo(latest);
+      setFrom(latest !== null && loaded.length > 1 ? loaded[loaded.length - 2].number : latest);
+    };
+
+    revisionHistory.list(panelId).then(show);
+    return revisionHistory.subscribe((updatedPanelId, updated) => {
+      if (updatedPanelId === panelId) {
+        show(updated);
+      }
+    });
+  }, [panelId]);
+
+  useEffect(() => {
+    if (from === null || to === null) {
+      setDiff([]);
+      return;
+    }
+
+    revisionHistory.diff(panelId, from, to)
+      .then(setDiff)
+      .catch(err => setError(err instanceof Error ? err.message : 'Diff failed'));
+  }, [panelId, from, to]);
+
+  const handleRollback = async (number: number) => {
+    setRollingBack(number);
+    setError(null);
+
+    try {
+      await revisionHistory.rollback(panelId, number);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rollback failed');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const latest = revisions[revisions.length - 1];
+  const changedFiles = diff.filter(file => file.status !== 'unchanged');
+
+  const revisionSelect = (value: number | null, onChange: (number: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className="text-xs border border-gray-300 rounded px-2 py-1"
+    >
+      {revisions.map(revision => (
+        <option key={revision.number} value={revision.number}>
+          #{revision.number} {KIND_LABELS[revision.kind]}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-5xl mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">
+            History of <span className="font-mono">{panelId}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list, newest first */}
+          <ul className="w-72 flex-shrink-0 border-r overflow-auto divide-y">
+            {[...revisions].reverse().map(revision => (
+              <li
+                key={revision.number}
+                onClick={() => setTo(revision.number)}
+                className={`px-3 py-2 text-xs cursor-pointer ${
+                  revision.number === to ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">
+                    #{revision.number} {KIND_LABELS[revision.kind]}
+                    {revision.restoredFrom !== undefined && ` #${revision.restoredFrom}`}
+                  </span>
+                  {revision !== latest && (
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleRollback(revision.number);
+                      }}
+                      disabled={rollingBack !== null}
+                      className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {rollingBack === revision.number ? 'Rolling back...' : 'Roll back'}
+                    </button>
+                  )}
+                </div>
+                <div className="mt-1 text-gray-500">
+                  {revision.author === 'ai' ? `AI${revision.model ? ` (${revision.model})` : ''}` : 'User'}
+                  {' · '}
+                  {new Date(revision.timestamp).toLocaleString()}
+                </div>
+                {revision.prompt && (
+                  <div className="mt-1 text-gray-600 truncate" title={revision.prompt}>
+                    {revision.prompt}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff between the selected revisions */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-2 border-b flex items-center space-x-2 text-xs text-gray-600">
+              <span>Compare</span>
+              {revisionSelect(from, setFrom)}
+              <span>with</span>
+              {revisionSelect(to, setTo)}
+            </div>
+
+            {error && (
+              <div className="mx-4 mt-2 p-2 bg-red-50 border border-red-200 text-xs text-red-700 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto p-4 space-y-4">
+              {changedFiles.length === 0 && (
+                <p className="text-xs text-gray-500">No differences.</p>
+              )}
+              {changedFiles.map(file => (
+                <div key={file.path} className="border rounded">
+                  <div className="px-3 py-1 bg-gray-50 border-b text-xs font-mono text-gray-700">
+                    {file.path} <span className="text-gray-400">({file.status})</span>
+                  </div>
+                  <pre className="text-xs font-mono overflow-auto">
+                    {file.lines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={
+                          line.type === 'added'
+                            ? 'bg-green-50 text-green-800'
+                            : line.type === 'removed'
+                              ? 'bg-red-50 text-red-800'
+                              : 'text-gray-600'
+                        }
+                      >
+                        <span className="inline-block w-10 pr-2 text-right text-gray-400 select-none">
+                          {line.oldLine ?? ''}
+                        </span>
+                        <span className="inline-block w-10 pr-2 text-right text-gray-400 select-none">
+                          {line.newLine ?? ''}
+                        </span>
+                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanelHistory;
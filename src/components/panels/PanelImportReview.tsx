@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  importBundle,
+  type CollisionResolution,
+  type PanelImportResult,
+  type PanelImportReview as Review
+} from '../../core/bundles/panel-bundle';
+
+interface PanelImportReviewProps {
+  /** Validation results of the bundle's panels */
+  reviews: Review[];
+  onClose: () => void;
+}
+
+/**
+ * Panel Import Review Component
+ *
+ * Shows the validation errors and warnings of every panel in a bundle before
+ * anything is compiled, and lets the user decide how to handle panels whose
+ * ID is already in use.
+ */
+const PanelImportReview: React.FC<PanelImportReviewProps> = ({ reviews, onClose }) => {
+  const [resolutions, setResolutions] = useState<CollisionResolution[]>(reviews.map(() => 'rename'));
+  const [targetIds, setTargetIds] = useState<string[]>(reviews.map(review => review.suggestedId));
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<PanelImportResult | null>(null);
+
+  const importable = reviews.filter((review, index) =>
+    review.validation.isValid && !(review.collides && resolutions[index] === 'skip')
+  ).length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      setResult(await importBundle(reviews.map((review, index) => ({
+        review,
+        resolution: resolutions[index],
+        targetId: targetIds[index]
+      }))));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const update = <T,>(values: T[], index: number, value: T): T[] =>
+    values.map((current, i) => (i === index ? value : current));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 animate-fade-in">
+      <div className="w-full max-w-2xl mx-4 bg-white rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">
+            Review import ({reviews.length} panels)
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-auto divide-y">
+          {reviews.map((review, index) => {
+            const { panel, validation } = review;
+            return (
+              <li key={`${panel.id}-${index}`} className="px-4 py-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <span className="font-medium text-gray-900">{panel.name}</span>
+                    <span className="ml-2 font-mono text-xs text-gray-500">{panel.id}</span>
+                  </div>
+                  <span className={`text-xs font-medium ${validation.isValid ? 'text-green-600' : 'text-red-600'}`}>
+                    {validation.isValid ? 'Valid' : 'Will not be imported'}
+                  </span>
+                </div>
+
+                {validation.errors.length > 0 && (
+                  <ul className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 space-y-1">
+                    {validation.errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                )}
+                {validation.warnings.length > 0 && (
+                  <ul className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800 space-y-1">
+                    {validation.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                  </ul>
+                )}
+                {review.rejectedRevisions.length > 0 && (
+                  <p className="mt-2 text-xs text-yellow-800">
+                    Revisions {review.rejectedRevisions.map(number => `#${number}`).join(', ')} fail
+                    validation and are left out of the history.
+                  </p>
+                )}
+
+                {review.collides && validation.isValid && (
+                  <div className="mt-2 flex items-center space-x-2 text-xs">
+                    <span className="text-gray-600">ID already in use:</span>
+                    <select
+                      value={resolutions[index]}
+                      onChange={(event) => setResolutions(update(resolutions, index, event.target.value as CollisionResolution))}
+                      className="border border-gray-300 rounded px-2 py-1"
+                    >
+                      <option value="rename">Import as</option>
+                      <option value="replace">Replace existing</option>
+                      <option value="skip">Skip</option>
+                    </select>
+                    {resolutions[index] === 'rename' && (
+                      <input
+                        value={targetIds[index]}
+                        onChange={(event) => setTargetIds(update(targetIds, index, event.target.value))}
+                        className="flex-1 font-mono border border-gray-300 rounded px-2 py-1"
+                      />
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {result && (
+          <div className="mx-4 my-2 p-2 bg-gray-50 border rounded text-xs text-gray-700">
+            Imported {result.imported.length}, skipped {result.skipped.length}
+            {result.failed.length > 0 && (
+              <ul className="mt-1 text-red-700">
+                {result.failed.map(failure => <li key={failure.id}>{failure.id}: {failure.error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="px-4 py-3 border-t flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              onClick={handleImport}
+              disabled={isImporting || importable === 0}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isImporting ? 'Importing...' : `Import ${importable} panels`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanelImportReview;
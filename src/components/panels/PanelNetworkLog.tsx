@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import fetchBroker from '../../core/network/fetch-broker';
+import type { PanelRequestLogEntry } from '../../core/network/fetch-broker';
+
+interface PanelNetworkLogProps {
+  id: string;
+}
+
+/** Requests listed before the rest are collapsed */
+const VISIBLE_REQUESTS = 5;
+
+const OUTCOME_STYLES: Record<PanelRequestLogEntry['outcome'], string> = {
+  ok: 'text-green-700',
+  blocked: 'text-orange-700',
+  failed: 'text-red-700'
+};
+
+/**
+ * Panel Network Log Component
+ *
+ * Lists the requests a panel made through the fetch broker, newest first,
+ * including the ones the broker blocked.
+ */
+const PanelNetworkLog: React.FC<PanelNetworkLogProps> = ({ id }) => {
+  const [entries, setEntries] = useState<PanelRequestLogEntry[]>(() => fetchBroker.getLog(id));
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    setEntries(fetchBroker.getLog(id));
+    return fetchBroker.subscribe(id, () => setEntries(fetchBroker.getLog(id)));
+  }, [id]);
+
+  if (entries.length === 0) {
+    return (
+      <div>
+        <span className="font-medium">Network:</span> no requests
+      </div>
+    );
+  }
+
+  const visible = showAll ? entries : entries.slice(0, VISIBLE_REQUESTS);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Network: {entries.length} recent {entries.length === 1 ? 'request' : 'requests'}</span>
+        {entries.length > VISIBLE_REQUESTS && (
+          <button onClick={() => setShowAll(!showAll)} className="text-blue-600 hover:text-blue-800">
+            {showAll ? 'Show fewer' : 'Show all'}
+          </button>
+        )}
+      </div>
+      <ul className="mt-1 space-y-0.5 font-mono">
+        {visible.map(entry => (
+          <li key={entry.id} className="flex space-x-2" title={entry.error ?? `${entry.durationMs}ms`}>
+            <span className={OUTCOME_STYLES[entry.outcome]}>
+              {entry.outcome === 'ok' ? entry.status : entry.outcome}
+            </span>
+            <span>{entry.method}</span>
+            <span className="truncate flex-1">{entry.url}</span>
+            <span className="text-gray-500">{new Date(entry.startedAt).toLocaleTimeString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PanelNetworkLog;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import panelDataStore, { formatBytes } from '../../core/storage/panel-data-store';
+import type { PanelStorageUsage } from '../../core/storage/panel-data-store';
+
+interface PanelStorageInfoProps {
+  id: string;
+}
+
+/**
+ * Panel Storage Info Component
+ *
+ * Shows how much of its storage quota a panel uses, with actions to download
+ * the stored data as JSON or clear it. Updates as the panel writes.
+ */
+const PanelStorageInfo: React.FC<PanelStorageInfoProps> = ({ id }) => {
+  const [usage, setUsage] = useState<PanelStorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = () => {
+      panelDataStore.getUsage(id).then(next => {
+        if (active) setUsage(next);
+      });
+    };
+
+    refresh();
+    const unsubscribe = panelDataStore.subscribe(id, refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [id]);
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const data = await panelDataStore.exportPanel(id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${id}.data.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete everything this panel stored? This cannot be undone.')) return;
+
+    setError(null);
+    try {
+      await panelDataStore.clearPanel(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Clearing failed');
+    }
+  };
+
+  if (!usage) return null;
+
+  const percent = Math.min(100, Math.round((usage.bytes / usage.quotaBytes) * 100));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <span>
+          <span className="font-medium">Storage:</span>{' '}
+          {usage.keys === 0
+            ? 'nothing stored'
+            : `${formatBytes(usage.bytes)} of ${formatBytes(usage.quotaBytes)} (${usage.keys} ${usage.keys === 1 ? 'key' : 'keys'})`}
+        </span>
+        <span className="space-x-2">
+          <button
+            onClick={handleExport}
+            disabled={usage.keys === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Export data
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={usage.keys === 0}
+            className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+          >
+            Clear data
+          </button>
+        </span>
+      </div>
+      {usage.keys > 0 && (
+        <div className="mt-1 h-1 bg-gray-200 rounded">
+          <div
+            className={`h-1 rounded ${percent >= 90 ? 'bg-red-500' : 'bg-blue-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PanelStorageInfo;
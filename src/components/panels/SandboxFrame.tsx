@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import sandboxHost from '../../core/sandbox/sandbox-host';
+import type { SandboxConnection } from '../../core/sandbox/sandbox-host';
+import type { SandboxModule, SandboxProps } from '../../core/sandbox/sandbox-protocol';
+
+interface SandboxFrameProps {
+  /** Panel the frame renders; SDK calls from the frame act on it */
+  panelId: string;
+  /** Linked modules of the version to render; a new array is sent to the frame */
+  modules: SandboxModule[] | null;
+  props?: SandboxProps;
+  title: string;
+  /** Whether SDK calls from the frame are answered */
+  sdk?: boolean;
+  /** Called when the panel rendered a new version or new props */
+  onRendered?: () => void;
+  /** Called when the panel fails to load or throws inside the frame */
+  onError?: (message: string) => void;
+  /** Called once the frame is connected; the returned function runs on disconnect */
+  onConnect?: (connection: SandboxConnection) => () => void;
+}
+
+/** Height of the frame until the panel reports its size */
+const INITIAL_HEIGHT = 128;
+
+const EMPTY_PROPS: SandboxProps = {};
+
+/**
+ * Sandbox Frame Component
+ *
+ * An iframe sandboxed to scripts only, rendering linked panel modules in its
+ * own React root and realm, with no access to the app's window, document or
+ * storage. The frame follows the app's theme and is sized to its content.
+ */
+const SandboxFrame: React.FC<SandboxFrameProps> = ({
+  panelId,
+  modules,
+  props = EMPTY_PROPS,
+  title,
+  sdk = true,
+  onRendered,
+  onError,
+  onConnect
+}) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const connectionRef = useRef<SandboxConnection | null>(null);
+  const [ready, setReady] = useState(false);
+  const [height, setHeight] = useState(INITIAL_HEIGHT);
+  const [srcDoc, setSrcDoc] = useState<string>();
+
+  // Reason: the latest callbacks and props are read from the frame listener
+  // without reconnecting the frame each render
+  const latest = useRef({ props, onRendered, onError, onConnect });
+  latest.current = { props, onRendered, onError, onConnect };
+
+  useEffect(() => {
+    let active = true;
+    sandboxHost.getDocument().then(document => {
+      if (active) setSrcDoc(document);
+    }, error => latest.current.onError?.(`Cannot build the sandbox: ${error instanceof Error ? error.message : String(error)}`));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+
+    const connection = sandboxHost.connect(frame, panelId, (message) => {
+      switch (message.type) {
+        case 'ready':
+          connection.post({ type: 'theme', theme: sandboxHost.getTheme() });
+          setReady(true);
+          break;
+        case 'rendered':
+          latest.current.onRendered?.();
+          break;
+        case 'resize':
+          setHeight(message.height);
+          break;
+        case 'error':
+          latest.current.onError?.(message.message);
+          break;
+      }
+    }, { sdk });
+    connectionRef.current = connection;
+
+    // The app's color scheme follows the system; so do the frames
+    const colorScheme = typeof matchMedia === 'function' ? matchMedia('(prefers-color-scheme: dark)') : null;
+    const updateTheme = () => connection.post({ type: 'theme', theme: sandboxHost.getTheme() });
+    colorScheme?.addEventListener('change', updateTheme);
+
+    const disconnect = latest.current.onConnect?.(connection);
+
+    return () => {
+      colorScheme?.removeEventListener('change', updateTheme);
+      disconnect?.();
+      connection.dispose();
+      connectionRef.current = null;
+      setReady(false);
+    };
+  }, [panelId, sdk]);
+
+  // Send each new version of the panel
+  useEffect(() => {
+    if (ready && modules) {
+      connectionRef.current?.post({ type: 'render', panelId, modules, props: latest.current.props });
+    }
+  }, [panelId, modules, ready]);
+
+  useEffect(() => {
+    if (ready) {
+      connectionRef.current?.post({ type: 'props', props });
+    }
+  }, [props, ready]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={title}
+      sandbox="allow-scripts"
+      srcDoc={srcDoc}
+      className="w-full border-0 block"
+      style={{ height }}
+    />
+  );
+};
+
+export default SandboxFrame;
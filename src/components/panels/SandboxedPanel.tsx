@@ -0,0 +1,73 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { ComponentType } from 'react';
+import panelRegistry from '../../core/registry/panel-registry';
+import componentStore from '../../core/registry/component-store';
+import sandboxHost from '../../core/sandbox/sandbox-host';
+import panelDataStore from '../../core/storage/panel-data-store';
+import type { SandboxConnection } from '../../core/sandbox/sandbox-host';
+import type { SandboxModule, SandboxProps } from '../../core/sandbox/sandbox-protocol';
+import SandboxFrame from './SandboxFrame';
+
+interface SandboxedPanelProps {
+  id: string;
+  /** Current version of the panel; a new one is sent to the frame */
+  component: ComponentType;
+  props?: SandboxProps;
+  /** Called when the panel fails to load or throws inside the frame */
+  onError?: (message: string) => void;
+}
+
+/**
+ * Sandboxed Panel Component
+ *
+ * Renders an isolated panel in a sandbox frame: the panel gets its own React
+ * root and realm, with no access to the app's window, document, storage or
+ * registry. Renders are reported to the panel lifecycle like panels in the
+ * app do, and storage changes made in the app reach the panel's hooks.
+ */
+const SandboxedPanel: React.FC<SandboxedPanelProps> = ({ id, component, props, onError }) => {
+  // Reason: read from callbacks that must not change identity each render
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => panelRegistry.lifecycle.mount(id), [id]);
+
+  // Link each new version once; linking fails for imports the sandbox lacks
+  const linked = useMemo((): { modules: SandboxModule[] | null; error?: string } => {
+    const entry = componentStore.get(id);
+    if (!entry) return { modules: null };
+
+    try {
+      return { modules: sandboxHost.linkModules(entry, panelRegistry.getPanel(id)?.files) };
+    } catch (error) {
+      return { modules: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [id, component]);
+
+  useEffect(() => {
+    if (linked.error) {
+      onErrorRef.current?.(linked.error);
+    }
+  }, [linked]);
+
+  const handleRendered = useCallback(() => panelRegistry.lifecycle.markRendered(id), [id]);
+
+  // Storage hooks in the frame reread values changed or cleared in the app
+  const handleConnect = useCallback((connection: SandboxConnection) => panelDataStore.subscribe(id, key => {
+    connection.post({ type: 'sdk-event', event: 'storage-changed', payload: { key } });
+  }), [id]);
+
+  return (
+    <SandboxFrame
+      panelId={id}
+      modules={linked.modules}
+      props={props}
+      title={`Sandboxed panel ${id}`}
+      onRendered={handleRendered}
+      onError={onError}
+      onConnect={handleConnect}
+    />
+  );
+};
+
+export default SandboxedPanel;
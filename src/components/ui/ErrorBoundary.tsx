@@ -1,8 +1,18 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import type { MappedPanelError } from '../../types';
+import sourceMapIndex from '../../core/compiler/source-map';
+import SourceExcerpt from './SourceExcerpt';
+
+export interface ErrorFallbackProps {
+  error: Error;
+  resetError: () => void;
+  /** The error translated to panel source, when thrown by panel code */
+  mappedError: MappedPanelError | null;
+}
 
 interface ErrorBoundaryProps {
   children: ReactNode;
-  fallback?: React.ComponentType<{ error: Error; resetError: () => void }>;
+  fallback?: React.ComponentType<ErrorFallbackProps>;
   onError?: (error: Error, errorInfo: ErrorInfo) => void;
 }
 
@@ -10,6 +20,7 @@ interface ErrorBoundaryState {
   hasError: boolean;
   error: Error | null;
   errorInfo: ErrorInfo | null;
+  mappedError: MappedPanelError | null;
 }
 
 /**
@@ -24,7 +35,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     this.state = { 
       hasError: false, 
       error: null,
-      errorInfo: null 
+      errorInfo: null,
+      mappedError: null
     };
   }
 
@@ -32,7 +44,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     // Update state so the next render will show the fallback UI
     return { 
       hasError: true, 
-      error 
+      error,
+      mappedError: sourceMapIndex.mapError(error)
     };
   }
 
@@ -59,7 +72,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
       this.setState({ 
         hasError: false, 
         error: null,
-        errorInfo: null 
+        errorInfo: null,
+        mappedError: null
       });
     }
   }
@@ -68,7 +82,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     this.setState({ 
       hasError: false, 
       error: null,
-      errorInfo: null 
+      errorInfo: null,
+      mappedError: null
     });
   };
 
@@ -81,6 +96,7 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
           <FallbackComponent 
             error={this.state.error!} 
             resetError={this.resetError}
+            mappedError={this.state.mappedError}
           />
         );
       }
@@ -109,11 +125,23 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
                 <div className="mb-2">
                   <strong>Error:</strong> {this.state.error.message}
                 </div>
+                {this.state.mappedError?.sourceContent && (
+                  <div className="mb-2">
+                    <strong>Source:</strong>
+                    <div className="mt-1">
+                      <SourceExcerpt
+                        source={this.state.mappedError.sourceContent}
+                        location={this.state.mappedError.location}
+                        fileName={this.state.mappedError.sourceName}
+                      />
+                    </div>
+                  </div>
+                )}
                 {this.state.error.stack && (
                   <div className="mb-2">
                     <strong>Stack Trace:</strong>
                     <pre className="mt-1 overflow-auto max-h-32 text-xs">
-                      {this.state.error.stack}
+                      {this.state.mappedError?.stack ?? this.state.error.stack}
                     </pre>
                   </div>
                 )}
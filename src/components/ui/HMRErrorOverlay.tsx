@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { HMRUpdateFailure } from '../../types';
+import SourceExcerpt from './SourceExcerpt';
+
+interface HMRErrorOverlayProps {
+  failure: HMRUpdateFailure;
+  onDismiss: () => void;
+  onRevert: () => Promise<void>;
+  onOpenInEditor?: () => void;
+}
+
+/**
+ * HMR Error Overlay Component
+ *
+ * Covers a panel whose hot update failed with the compile or load error and
+ * a source excerpt. The panel's last good version keeps rendering underneath.
+ */
+const HMRErrorOverlay: React.FC<HMRErrorOverlayProps> = ({
+  failure,
+  onDismiss,
+  onRevert,
+  onOpenInEditor
+}) => {
+  const [isReverting, setIsReverting] = useState(false);
+  const [summary, ...details] = failure.message.split('\n');
+
+  const handleRevert = async () => {
+    setIsReverting(true);
+    try {
+      await onRevert();
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-start justify-center p-3 bg-gray-900/40 overflow-auto animate-fade-in">
+      <div className="w-full max-w-2xl bg-white border border-red-300 rounded-lg shadow-lg">
+        <div className="px-4 py-2 border-b border-red-200 bg-red-50 rounded-t-lg flex items-center justify-between">
+          <h3 className="text-sm font-medium text-red-800">
+            {failure.phase === 'compile' ? 'Compile error' : 'Load error'} in {failure.panelId}
+            {failure.filePath && <span className="font-mono"> · {failure.filePath}</span>}
+          </h3>
+          <button
+            onClick={onDismiss}
+            className="ml-2 text-red-500 hover:text-red-700"
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs">
+          <p className="text-red-700 break-words">
+            {summary}
+            {failure.location && ` (line ${failure.location.line}, column ${failure.location.column})`}
+          </p>
+
+          {failure.excerptSource && failure.location && (
+            <SourceExcerpt
+              source={failure.excerptSource}
+              location={failure.location}
+              fileName={failure.filePath}
+            />
+          )}
+
+          {details.some(line => line.trim()) && !failure.excerptSource && (
+            <pre className="p-2 bg-red-100 text-red-800 rounded overflow-auto">
+              {details.join('\n').trim()}
+            </pre>
+          )}
+
+          <p className="text-gray-500">
+            {failure.lastGoodVersion !== undefined
+              ? `Still showing the last good version (v${failure.lastGoodVersion}).`
+              : 'The panel has no working version yet.'}
+          </p>
+
+          <div className="flex space-x-2">
+            {onOpenInEditor && (
+              <button
+                onClick={onOpenInEditor}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+              >
+                Open in Editor
+              </button>
+            )}
+            {failure.lastGoodVersion !== undefined && (
+              <button
+                onClick={handleRevert}
+                disabled={isReverting}
+                className="px-3 py-1 bg-red-100 text-red-800 rounded hover:bg-red-200 disabled:opacity-50 transition-colors"
+              >
+                {isReverting ? 'Reverting...' : 'Revert to Last Good'}
+              </button>
+            )}
+            <button
+              onClick={onDismiss}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HMRErrorOverlay;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { SourceLocation } from '../../types';
+
+interface SourceExcerptProps {
+  source: string;
+  location: SourceLocation;
+  fileName?: string;
+  contextLines?: number;
+}
+
+/**
+ * Source Excerpt Component
+ *
+ * Shows the lines around a source location with the offending line
+ * highlighted and a caret under the reported column.
+ */
+const SourceExcerpt: React.FC<SourceExcerptProps> = ({
+  source,
+  location,
+  fileName,
+  contextLines = 2
+}) => {
+  const lines = source.split('\n');
+  const firstLine = Math.max(1, location.line - contextLines);
+  const lastLine = Math.min(lines.length, location.line + contextLines);
+  const gutterWidth = String(lastLine).length;
+
+  return (
+    <div className="code-editor text-xs overflow-auto">
+      {fileName && (
+        <div className="px-3 py-1 border-b border-gray-700 text-gray-400">
+          {fileName}:{location.line}:{location.column}
+        </div>
+      )}
+      <pre className="p-3">
+        {lines.slice(firstLine - 1, lastLine).map((line, index) => {
+          const lineNumber = firstLine + index;
+          const isErrorLine = lineNumber === location.line;
+          const gutter = `${isErrorLine ? '>' : ' '} ${String(lineNumber).padStart(gutterWidth)} | `;
+
+          return (
+            <div key={lineNumber} className={isErrorLine ? 'bg-red-900/60 text-red-100' : 'text-gray-300'}>
+              <span className="text-gray-500 select-none">{gutter}</span>
+              {line}
+              {isErrorLine && (
+                <div>
+                  <span className="select-none">{' '.repeat(gutter.length + location.column - 1)}</span>
+                  <span className="text-red-400">^</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </pre>
+    </div>
+  );
+};
+
+export default SourceExcerpt;
@@ -1,4 +1,15 @@
-import type { SecurityValidationResult } from '../../types';
+import type { PanelFileTree, SecurityValidationResult, SecurityViolation } from '../../types';
+import securityAnalyzer from './security-analyzer';
+import moduleResolver from '../compiler/module-resolver';
+import { isRelativeSpecifier, resolvePanelImport } from '../compiler/panel-files';
+
+/** Where a module sits within its panel, for multi-file validation. */
+interface ModuleContext {
+  /** Whether the module is the panel's entry, which must export a component */
+  isEntry: boolean;
+  path?: string;
+  files?: Record<string, string>;
+}
 
 /**
  * Advanced Code Validator for AI-generated components
@@ -7,58 +18,9 @@ import type { SecurityValidationResult } from '../../types';
  * for dynamically generated React components.
  */
 export class CodeValidator {
-  private allowedImports: Set<string>;
-  private forbiddenPatterns: RegExp[];
   private requiredPatterns: RegExp[];
 
   constructor() {
-    this.allowedImports = new Set([
-      'react',
-      'react-dom',
-      'react/jsx-runtime',
-      'react-error-boundary'
-    ]);
-
-    this.forbiddenPatterns = [
-      /eval\s*\(/gi,
-      /Function\s*\(/gi,
-      /document\.write/gi,
-      /innerHTML\s*=/gi,
-      /outerHTML\s*=/gi,
-      /window\.parent/gi,
-      /window\.top/gi,
-      /window\.frames/gi,
-      /parent\./gi,
-      /top\./gi,
-      /\.contentWindow/gi,
-      /postMessage/gi,
-      /fetch\s*\(/gi,
-      /XMLHttpRequest/gi,
-      /localStorage/gi,
-      /sessionStorage/gi,
-      /document\.cookie/gi,
-      /<script[\s\S]*?>/gi,
-      /<iframe[\s\S]*?>/gi,
-      /<object[\s\S]*?>/gi,
-      /<embed[\s\S]*?>/gi,
-      /<link[\s\S]*?>/gi,
-      /<meta[\s\S]*?>/gi,
-      /javascript:/gi,
-      /data:text\/html/gi,
-      /vbscript:/gi,
-      /on\w+\s*=/gi, // Event handlers in HTML
-      /setInterval/gi,
-      /setTimeout.*eval/gi,
-      /new\s+Function/gi,
-      /import\s*\(/gi, // Dynamic imports
-      /require\s*\(/gi,
-      /global\./gi,
-      /process\./gi,
-      /Buffer\./gi,
-      /__dirname/gi,
-      /__filename/gi
-    ];
-
     this.requiredPatterns = [
       /import\s+React/,
       /export\s+default/
@@ -72,21 +34,65 @@ export class CodeValidator {
    * @returns Validation result with sanitized code or errors
    */
   async validateJSX(code: string): Promise<SecurityValidationResult> {
+    return this.validateModule(code, { isEntry: true });
+  }
+
+  /**
+   * Validates every file of a multi-file panel. Relative imports must resolve
+   * to files of the panel; only the entry must export a component.
+   * 
+   * @param tree - Panel source files and entry module
+   * @returns Combined result, with messages prefixed by file path
+   */
+  async validatePanelFiles(tree: PanelFileTree): Promise<SecurityValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const violations: SecurityViolation[] = [];
+    const sanitizedFiles: PanelFileTree = { entry: tree.entry, files: { ...tree.files } };
+
+    if (!(tree.entry in tree.files)) {
+      errors.push(`Entry file ${tree.entry} is not part of the panel`);
+    }
+
+    for (const [path, code] of Object.entries(tree.files)) {
+      const result = await this.validateModule(code, { isEntry: path === tree.entry, path, files: tree.files });
+
+      errors.push(...result.errors.map(error => `${path}: ${error}`));
+      warnings.push(...result.warnings.map(warning => `${path}: ${warning}`));
+      violations.push(...(result.violations ?? []).map(violation => ({ ...violation, file: path })));
+
+      if (result.sanitizedCode) {
+        sanitizedFiles.files[path] = result.sanitizedCode;
+      }
+    }
+
+    return errors.length > 0
+      ? { isValid: false, errors, warnings, violations }
+      : { isValid: true, errors, warnings, violations, sanitizedFiles };
+  }
+
+  /**
+   * Validates a single module, either a whole panel or one file of a panel.
+   */
+  private async validateModule(code: string, context: ModuleContext): Promise<SecurityValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let violations: SecurityViolation[] = [];
 
     try {
       // 1. Basic structure validation
-      this.validateBasicStructure(code, errors);
+      this.validateBasicStructure(code, errors, context.isEntry);
 
-      // 2. Security pattern checking
-      this.checkForbiddenPatterns(code, errors);
+      // 2. AST-based security analysis
+      violations = this.runSecurityAnalysis(code, errors, warnings);
 
       // 3. Import validation
-      this.validateImports(code, errors, warnings);
+      this.validateImports(code, errors, context);
 
-      // 4. Component structure validation
-      this.validateComponentStructure(code, errors, warnings);
+      // 4. Component structure validation (helper files need not define one)
+      if (context.isEntry) {
+        this.validateComponentStructure(code, errors, warnings);
+      }
 
       // 5. React-specific validation
       this.validateReactPatterns(code, warnings);
@@ -98,24 +104,27 @@ export class CodeValidator {
         return {
           isValid: false,
           errors,
-          warnings
+          warnings,
+          violations
         };
       }
 
       // 7. Apply safety transformations
-      const sanitizedCode = this.sanitizeCode(code);
+      const sanitizedCode = context.isEntry ? this.sanitizeCode(code) : code;
 
       return {
         isValid: true,
         errors: [],
         warnings,
-        sanitizedCode
+        sanitizedCode,
+        violations
       };
     } catch (error) {
       return {
         isValid: false,
         errors: [`Validation error: ${error}`],
-        warnings
+        warnings,
+        violations
       };
     }
   }
@@ -123,7 +132,7 @@ export class CodeValidator {
   /**
    * Validates basic code structure.
    */
-  private validateBasicStructure(code: string, errors: string[]): void {
+  private validateBasicStructure(code: string, errors: string[], requireComponent: boolean): void {
     // Check minimum length
     if (code.trim().length < 20) {
       errors.push('Code is too short to be a valid component');
@@ -135,7 +144,7 @@ export class CodeValidator {
     }
 
     // Check for required patterns
-    for (const pattern of this.requiredPatterns) {
+    for (const pattern of requireComponent ? this.requiredPatterns : []) {
       if (!pattern.test(code)) {
         errors.push(`Missing required pattern: ${pattern.source}`);
       }
@@ -164,35 +173,48 @@ export class CodeValidator {
   }
 
   /**
-   * Checks for forbidden security patterns.
+   * Runs the AST security analyzer and records its violations.
+   *
+   * @returns The violations found, each with its source location
    */
-  private checkForbiddenPatterns(code: string, errors: string[]): void {
-    for (const pattern of this.forbiddenPatterns) {
-      if (pattern.test(code)) {
-        errors.push(`Forbidden pattern detected: ${pattern.source}`);
+  private runSecurityAnalysis(code: string, errors: string[], warnings: string[]): SecurityViolation[] {
+    const { violations } = securityAnalyzer.analyze(code);
+
+    for (const violation of violations) {
+      const message = `${violation.message} (line ${violation.loc.line}, column ${violation.loc.column})`;
+      if (violation.severity === 'error') {
+        errors.push(message);
+      } else {
+        warnings.push(message);
       }
     }
+
+    return violations;
   }
 
   /**
    * Validates import statements.
    */
-  private validateImports(code: string, errors: string[], warnings: string[]): void {
+  private validateImports(code: string, errors: string[], context: ModuleContext): void {
     const importRegex = /import\s+.*?\s+from\s+['"]([^'"]+)['"];?/g;
     let match;
 
     while ((match = importRegex.exec(code)) !== null) {
       const importPath = match[1];
+
+      // Relative imports must point at another file of the same panel
+      if (isRelativeSpecifier(importPath)) {
+        const resolved = context.files && resolvePanelImport(context.path ?? '', importPath, context.files);
+        if (!resolved) {
+          errors.push(`Unresolvable relative import: ${importPath} - no such panel file`);
+        }
+        continue;
+      }
       
       // Check if import is allowed
       if (!this.isImportAllowed(importPath)) {
         errors.push(`Unauthorized import: ${importPath}`);
       }
-
-      // Warn about relative imports
-      if (importPath.startsWith('./') || importPath.startsWith('../')) {
-        warnings.push(`Relative import detected: ${importPath}`);
-      }
     }
   }
 
@@ -201,7 +223,8 @@ export class CodeValidator {
    */
   private validateComponentStructure(code: string, errors: string[], warnings: string[]): void {
     // Check for function component or arrow function
-    const hasFunctionComponent = /(?:function\s+\w+|const\s+\w+\s*=\s*\([^)]*\)\s*=>)/.test(code);
+    // Reason: allow TSX declarations like `const Card: React.FC<Props> = (props): JSX.Element =>`
+    const hasFunctionComponent = /(?:function\s+\w+|const\s+\w+\s*(?::[^=]+)?=\s*\([^)]*\)\s*(?::[^=]+)?=>)/.test(code);
     const hasClassComponent = /class\s+\w+\s+extends\s+(?:React\.)?Component/.test(code);
 
     if (!hasFunctionComponent && !hasClassComponent) {
@@ -219,7 +242,7 @@ export class CodeValidator {
     }
 
     // Check for proper component naming (PascalCase)
-    const componentNameMatch = code.match(/(?:function\s+(\w+)|const\s+(\w+)\s*=|export\s+default\s+(\w+))/);
+    const componentNameMatch = code.match(/(?:function\s+(\w+)|const\s+(\w+)\s*[:=]|export\s+default\s+(\w+))/);
     if (componentNameMatch) {
       const componentName = componentNameMatch[1] || componentNameMatch[2] || componentNameMatch[3];
       if (componentName && !/^[A-Z][a-zA-Z0-9]*$/.test(componentName)) {
@@ -281,7 +304,9 @@ export class CodeValidator {
     let complexity = 1;
     
     for (const keyword of complexityKeywords) {
-      const regex = new RegExp(`\\b${keyword}\\b`, 'g');
+      // Reason: operators must be escaped, and word boundaries only apply to keywords
+      const escaped = keyword.replace(/[|?]/g, '\\$&');
+      const regex = new RegExp(/^\w+$/.test(keyword) ? `\\b${escaped}\\b` : escaped, 'g');
       complexity += (code.match(regex) || []).length;
     }
 
@@ -290,22 +315,18 @@ export class CodeValidator {
     }
   }
 
+  /**
+   * The imports panel code may use - exactly the modules the resolver can serve.
+   */
+  get allowedImports(): ReadonlySet<string> {
+    return new Set(moduleResolver.getAllowedSpecifiers());
+  }
+
   /**
    * Checks if an import is allowed.
    */
   private isImportAllowed(importPath: string): boolean {
-    // Allow exact matches
-    if (this.allowedImports.has(importPath)) {
-      return true;
-    }
-
-    // Allow React sub-imports
-    if (importPath.startsWith('react/')) {
-      return true;
-    }
-
-    // Deny everything else
-    return false;
+    return this.allowedImports.has(importPath);
   }
 
   /**
@@ -317,9 +338,12 @@ export class CodeValidator {
     // Wrap in error boundary
     sanitized = this.wrapWithErrorBoundary(sanitized);
 
-    // Add safety imports if missing
+    // Add safety imports if missing; a second React import would not compile
     if (!sanitized.includes("import { ErrorBoundary }")) {
-      sanitized = `import React from 'react';\nimport { ErrorBoundary } from 'react-error-boundary';\n\n${sanitized}`;
+      sanitized = `import { ErrorBoundary } from 'react-error-boundary';\n\n${sanitized}`;
+    }
+    if (!/import\s+React\b/.test(sanitized)) {
+      sanitized = `import React from 'react';\n${sanitized}`;
     }
 
     return sanitized;
@@ -364,39 +388,18 @@ export default SafeComponent;`
   }
 
   /**
-   * Performs additional AST-based validation (if needed).
+   * Performs AST-based validation: the code must parse and be free of
+   * security errors.
    */
   async validateAST(code: string): Promise<boolean> {
     try {
-      // This would use a proper AST parser like @babel/parser
-      // For now, we'll do basic validation
-      return this.validateBasicSyntax(code);
+      const { parsed, violations } = securityAnalyzer.analyze(code);
+      return parsed && !violations.some(violation => violation.severity === 'error');
     } catch (error) {
       console.error('[CodeValidator] AST validation failed:', error);
       return false;
     }
   }
-
-  /**
-   * Basic syntax validation.
-   */
-  private validateBasicSyntax(code: string): boolean {
-    try {
-      // Try to parse with Babel if available
-      if (window.Babel) {
-        window.Babel.transform(code, {
-          presets: ['react'],
-          code: false // Only parse, don't generate code
-        });
-        return true;
-      }
-      
-      // Fallback to basic checks
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
 }
 
 // Create and export default instance
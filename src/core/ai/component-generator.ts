@@ -1,16 +1,21 @@
 import type { ComponentType } from 'react';
-import type { ComponentGenerationRequest } from '../../types';
+import type { ComponentGenerationRequest, GenerationStreamOptions, RepairStage } from '../../types';
 import ollamaClient from './ollama-client';
-import codeValidator from './code-validator';
+import repairLoop from './repair-loop';
 import panelRegistry from '../registry/panel-registry';
+import panelEvents from '../registry/panel-events';
+import revisionHistory from '../history/revision-history';
+import type { RevisionLabel } from '../history/revision-history';
+import { resolvePanelTrust } from '../sandbox/sandbox-protocol';
 
 /**
  * AI Component Generator
  * 
  * Orchestrates the complete pipeline for generating React components from natural language:
  * 1. Natural language processing via Ollama
- * 2. Code validation and security checks
- * 3. Component compilation and registration
+ * 2. Code validation, compilation and a first render, with failures sent
+ *    back to the model for repair
+ * 3. Component registration
  * 4. Error handling and fallback mechanisms
  */
 interface ComponentGenerationAttempt {
@@ -21,32 +26,67 @@ interface ComponentGenerationAttempt {
   error?: string;
   success: boolean;
   warnings?: string[];
+  /** Check the code failed, for rounds sent back to the model for repair */
+  stage?: RepairStage;
+  /** Repair round the failed code was sent back in */
+  repairRound?: number;
+  /** Repair rounds a successful generation took */
+  repairRounds?: number;
 }
 
 export class AIComponentGenerator {
   private ollama: typeof ollamaClient;
-  private validator: typeof codeValidator;
+  private repairs: typeof repairLoop;
   private generationHistory: Map<string, ComponentGenerationAttempt[]> = new Map();
 
   constructor() {
     this.ollama = ollamaClient;
-    this.validator = codeValidator;
+    this.repairs = repairLoop;
   }
 
   /**
    * Generates a React component from a natural language prompt.
    * 
    * @param request - Component generation request
+   * @param stream - Token callback, cancellation signal and idle timeout
    * @returns Promise resolving to the generated component and panel ID
    */
-  async generateComponent(request: ComponentGenerationRequest): Promise<{
+  async generateComponent(request: ComponentGenerationRequest, stream: GenerationStreamOptions = {}): Promise<{
     component: ComponentType;
     panelId: string;
     jsxCode: string;
     metadata: any;
   }> {
-    const panelId = this.generatePanelId(request.prompt);
-    
+    return this.generateIntoPanel(request, this.generatePanelId(request.prompt), {
+      kind: 'generation',
+      author: 'ai',
+      prompt: request.prompt
+    }, stream);
+  }
+
+  /**
+   * Generates code for a request and commits it to a panel: new panels are
+   * registered, existing ones are updated in place as a new revision.
+   * 
+   * @param request - Component generation request
+   * @param panelId - Panel to create or revise
+   * @param revision - How the resulting revision is labeled
+   * @param stream - Token callback, cancellation signal and idle timeout
+   * @returns Promise resolving to the generated component and panel ID
+   */
+  private async generateIntoPanel(
+    request: ComponentGenerationRequest,
+    panelId: string,
+    revision: RevisionLabel,
+    stream: GenerationStreamOptions
+  ): Promise<{
+    component: ComponentType;
+    panelId: string;
+    jsxCode: string;
+    metadata: any;
+  }> {
+    const existingPanel = panelRegistry.getPanel(panelId);
+
     try {
       // Check if Ollama is available
       if (!this.ollama.isServiceAvailable()) {
@@ -56,28 +96,41 @@ export class AIComponentGenerator {
       console.log(`[AIComponentGenerator] Starting generation for panel: ${panelId}`);
 
       // Generate JSX code using Ollama
-      const jsxCode = await this.ollama.generateComponent(request);
-      
-      // Validate and sanitize the generated code
-      const validationResult = await this.validator.validateJSX(jsxCode);
+      const jsxCode = await this.ollama.generateComponent(request, stream);
       
-      if (!validationResult.isValid) {
-        throw new Error(`Code validation failed: ${validationResult.errors.join(', ')}`);
-      }
-
-      const finalCode = validationResult.sanitizedCode || jsxCode;
-
-      // Register the component
-      const component = await panelRegistry.registerPanelFromJSX(
+      // Validate, compile and verify the first render before anything is
+      // registered, asking the model to fix failures; new panels are AI-created
+      const { finalCode, warnings, verification, repairRounds } = await this.repairs.run(
+        request,
         panelId,
-        finalCode,
-        {
-          creator: 'ai',
-          description: request.prompt,
-          tags: this.extractTags(request.prompt),
-          panelType: request.panelType
-        }
+        jsxCode,
+        resolvePanelTrust(existingPanel?.metadata ?? { creator: 'ai' }),
+        stream,
+        (round, failingCode) => this.recordGenerationAttempt(panelId, {
+          prompt: request.prompt,
+          generatedCode: failingCode,
+          success: false,
+          timestamp: new Date(),
+          error: round.error,
+          stage: round.stage,
+          repairRound: round.round
+        })
       );
+      revisionHistory.label(panelId, finalCode, { ...revision, model: this.ollama.getCurrentModel() });
+
+      // Register the component, or revise the existing panel through HMR
+      const component = existingPanel
+        ? await panelRegistry.updatePanel(panelId, finalCode)
+        : await panelRegistry.registerPanelFromJSX(
+            panelId,
+            finalCode,
+            {
+              creator: 'ai',
+              description: request.prompt,
+              tags: this.extractTags(request.prompt),
+              panelType: request.panelType
+            }
+          );
 
       // Record generation attempt
       this.recordGenerationAttempt(panelId, {
@@ -86,7 +139,8 @@ export class AIComponentGenerator {
         finalCode,
         success: true,
         timestamp: new Date(),
-        warnings: validationResult.warnings
+        warnings,
+        repairRounds
       });
 
       // Emit success event
@@ -101,7 +155,9 @@ export class AIComponentGenerator {
         metadata: {
           prompt: request.prompt,
           panelType: request.panelType,
-          warnings: validationResult.warnings,
+          warnings,
+          repairRounds,
+          verification,
           model: this.ollama.getCurrentModel()
         }
       };
@@ -118,6 +174,13 @@ export class AIComponentGenerator {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
+      // Reason: a fallback would replace a working panel with an error card;
+      // a failed revision leaves the current one in place instead. Cancelled
+      // generations leave nothing behind either
+      if (existingPanel || stream.signal?.aborted) {
+        throw error;
+      }
+
       // Try fallback strategies
       return this.handleGenerationFailure(request, panelId, error as Error);
     }
@@ -128,30 +191,32 @@ export class AIComponentGenerator {
    * 
    * @param panelId - Existing panel ID to regenerate
    * @param newPrompt - Optional new prompt (uses original if not provided)
+   * @param stream - Token callback, cancellation signal and idle timeout
    * @returns Promise resolving to regenerated component
    */
-  async regenerateComponent(panelId: string, newPrompt?: string): Promise<{
+  async regenerateComponent(panelId: string, newPrompt?: string, stream: GenerationStreamOptions = {}): Promise<{
     component: ComponentType;
     panelId: string;
     jsxCode: string;
   }> {
     const history = this.generationHistory.get(panelId);
     const lastAttempt = history?.[history.length - 1];
-    
-    if (!lastAttempt) {
+    const existingPanel = panelRegistry.getPanel(panelId);
+
+    // Generation attempts are kept for this session only; the panel's
+    // description survives reloads
+    const prompt = newPrompt || lastAttempt?.prompt || existingPanel?.metadata.description;
+    if (!existingPanel || !prompt) {
       throw new Error(`No generation history found for panel: ${panelId}`);
     }
-
-    const prompt = newPrompt || lastAttempt.prompt;
-    const existingPanel = panelRegistry.getPanel(panelId);
     
     const request: ComponentGenerationRequest = {
       prompt,
-      panelType: existingPanel?.metadata.panelType,
-      context: { regeneration: true, previousAttempts: history.length }
+      panelType: existingPanel.metadata.panelType,
+      context: { regeneration: true, previousAttempts: history?.length ?? 0 }
     };
 
-    return this.generateComponent(request);
+    return this.generateIntoPanel(request, panelId, { kind: 'regeneration', author: 'ai', prompt }, stream);
   }
 
   /**
@@ -159,9 +224,10 @@ export class AIComponentGenerator {
    * 
    * @param panelId - Panel ID to improve
    * @param feedback - User feedback for improvement
+   * @param stream - Token callback, cancellation signal and idle timeout
    * @returns Promise resolving to improved component
    */
-  async improveComponent(panelId: string, feedback: string): Promise<{
+  async improveComponent(panelId: string, feedback: string, stream: GenerationStreamOptions = {}): Promise<{
     component: ComponentType;
     panelId: string;
     jsxCode: string;
@@ -192,7 +258,7 @@ Please provide an improved version that addresses the feedback while maintaining
       }
     };
 
-    return this.generateComponent(request);
+    return this.generateIntoPanel(request, panelId, { kind: 'improvement', author: 'ai', prompt: feedback }, stream);
   }
 
   /**
@@ -337,9 +403,7 @@ Please provide an improved version that addresses the feedback while maintaining
    * Emits a generation event for other parts of the system.
    */
   private emitGenerationEvent(panelId: string, jsxCode: string, component: ComponentType): void {
-    window.dispatchEvent(new CustomEvent('ai-component-generated', {
-      detail: { panelId, jsxCode, component }
-    }));
+    panelEvents.emit('ai-component-generated', { panelId, jsxCode, component });
   }
 
   /**
@@ -384,7 +448,9 @@ Please provide an improved version that addresses the feedback while maintaining
   }
 
   /**
-   * Creates a fallback component that displays the error.
+   * Creates a fallback component that displays the error. The prompt and
+   * error are embedded as string literals, since error messages carry code
+   * frames full of braces and angle brackets.
    */
   private createFallbackComponent(prompt: string, errorMessage: string): string {
     return `
@@ -404,8 +470,8 @@ const FallbackComponent = () => {
             Component Generation Failed
           </h3>
           <div className="mt-2 text-sm text-yellow-700">
-            <p><strong>Request:</strong> ${prompt}</p>
-            <p className="mt-1"><strong>Error:</strong> ${errorMessage}</p>
+            <p><strong>Request:</strong> {${JSON.stringify(prompt)}}</p>
+            <p className="mt-1 whitespace-pre-wrap"><strong>Error:</strong> {${JSON.stringify(errorMessage)}}</p>
           </div>
           <div className="mt-4">
             <button 
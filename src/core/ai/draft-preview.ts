@@ -0,0 +1,148 @@
+import type { CompilationResult, GenerationDraft, PanelTrust } from '../../types';
+import workerCompiler, { WorkerCompiler } from '../compiler/worker-compiler';
+import reactRefreshHost from '../hmr/refresh-runtime';
+import sandboxHost from '../sandbox/sandbox-host';
+import codeValidator from './code-validator';
+
+/**
+ * Draft Preview
+ *
+ * Compiles the partial output of a streaming generation whenever it parses,
+ * so a draft of the component can be shown while tokens arrive. Drafts pass
+ * the same security validation as final code before they run. They are
+ * compiled outside the component store: a draft never becomes a panel
+ * revision, is never synced to disk and never replaces a mounted panel.
+ * Drafts of panels that will be isolated are not run here but linked for a
+ * sandbox frame. Only the newest text is compiled; text streamed during a
+ * compile is picked up once it finishes.
+ */
+export class DraftPreview {
+  private latest: string = '';
+  private attempted: string = '';
+  private running: boolean = false;
+  private disposed: boolean = false;
+  private current: CompilationResult | null = null;
+  private draftId: string;
+
+  /**
+   * @param jobId - Generation the drafts belong to
+   * @param onPreview - Called with each newly compiled draft
+   * @param trust - Where the panel will run, and so where its drafts run
+   * @param compiler - Compiler for the drafts
+   */
+  constructor(
+    jobId: string,
+    private onPreview: (draft: GenerationDraft) => void,
+    private trust: PanelTrust,
+    private compiler: WorkerCompiler = workerCompiler
+  ) {
+    this.draftId = `draft-${jobId}`;
+  }
+
+  /**
+   * Offers the text streamed so far for a draft.
+   *
+   * @param text - Model output so far
+   */
+  update(text: string): void {
+    if (this.disposed) return;
+
+    this.latest = extractPartialCode(text);
+    if (!this.running) {
+      void this.run();
+    }
+  }
+
+  /**
+   * Stops compiling drafts and releases the modules of the last one.
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.current) {
+      this.compiler.releaseModules(this.current);
+      this.current = null;
+    }
+    reactRefreshHost.dispose(this.draftId);
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+    try {
+      while (!this.disposed && this.latest !== this.attempted) {
+        this.attempted = this.latest;
+        await this.compile(this.attempted);
+      }
+    } catch (error) {
+      console.warn('[DraftPreview] Draft compilation failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async compile(code: string): Promise<void> {
+    // Reason: without a default export there is nothing to render yet, and
+    // most partial output fails to parse; both are skipped before validating
+    if (!code.includes('export default') || !(await this.compiler.validateSyntax(code))) {
+      return;
+    }
+
+    const validation = await codeValidator.validateJSX(code);
+    if (!validation.isValid || this.disposed) {
+      return;
+    }
+
+    const result = await this.compiler.compileComponent(validation.sanitizedCode || code, this.draftId);
+    if (!result.success || !result.moduleUrl) {
+      return;
+    }
+
+    const draft = await this.load(result);
+    if (this.disposed || !draft) {
+      this.compiler.releaseModules(result);
+      return;
+    }
+
+    if (this.current) {
+      this.compiler.releaseModules(this.current);
+    }
+    this.current = result;
+    this.onPreview(draft);
+  }
+
+  /**
+   * Loads a compiled draft where the panel will run: trusted drafts are
+   * imported, isolated ones only linked for the frame they render in.
+   */
+  private async load(result: CompilationResult): Promise<GenerationDraft | null> {
+    try {
+      if (this.trust === 'isolated') {
+        return {
+          trust: 'isolated',
+          draftId: this.draftId,
+          modules: sandboxHost.linkModules({ compiledCode: result.code || '' })
+        };
+      }
+
+      await reactRefreshHost.whenReady();
+      const component = (await import(/* @vite-ignore */ result.moduleUrl!)).default;
+      return typeof component === 'function' ? { trust: 'trusted', component } : null;
+    } catch {
+      // Partial code may throw while evaluating; the next draft may not
+      return null;
+    }
+  }
+}
+
+/**
+ * Extracts the code from partial model output; a code fence may not be
+ * closed yet.
+ */
+function extractPartialCode(text: string): string {
+  const fenced = text.match(/```(?:jsx?|typescript|tsx?)?\n?([\s\S]*?)(?:```|$)/);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const start = text.indexOf('import React');
+  return start >= 0 ? text.slice(start).trim() : '';
+}
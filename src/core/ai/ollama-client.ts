@@ -1,4 +1,21 @@
-import type { OllamaGenerationOptions, ComponentGenerationRequest } from '../../types';
+import type {
+  OllamaGenerationOptions,
+  ComponentGenerationRequest,
+  GenerationStreamOptions,
+  RepairRound,
+  RepairStage
+} from '../../types';
+import { formatBytes, PANEL_STORAGE_QUOTA_BYTES } from '../storage/panel-data-store';
+
+/** A stalled stream fails after this long; a slow one keeps going */
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+
+/** How a failed check is described to the model in a repair prompt */
+const REPAIR_STAGE_DESCRIPTIONS: Record<RepairStage, string> = {
+  validation: 'was rejected by the security validator',
+  compile: 'failed to compile',
+  render: 'failed when rendered (it threw, logged errors, rendered too slowly or kept re-rendering)'
+};
 
 /**
  * Ollama Client for AI-powered component generation
@@ -44,32 +61,67 @@ export class OllamaClient {
    * Generates a React component from a natural language prompt.
    * 
    * @param request - Component generation request
+   * @param stream - Token callback, cancellation signal and idle timeout
    * @returns Promise resolving to generated JSX code
    */
-  async generateComponent(request: ComponentGenerationRequest): Promise<string> {
+  async generateComponent(request: ComponentGenerationRequest, stream: GenerationStreamOptions = {}): Promise<string> {
+    const systemPrompt = this.buildSystemPrompt(request.panelType || 'general');
+    return this.generateCode(`${systemPrompt}\n\nUser Request: ${request.prompt}`, stream);
+  }
+
+  /**
+   * Asks the model to fix a generated component that failed a check.
+   * 
+   * @param request - Component generation request the code was generated for
+   * @param failingCode - Code that failed
+   * @param failure - Check that failed and its error
+   * @param stream - Token callback, cancellation signal and idle timeout
+   * @returns Promise resolving to the corrected JSX code
+   */
+  async repairComponent(
+    request: ComponentGenerationRequest,
+    failingCode: string,
+    failure: Pick<RepairRound, 'stage' | 'error'>,
+    stream: GenerationStreamOptions = {}
+  ): Promise<string> {
+    const systemPrompt = this.buildSystemPrompt(request.panelType || 'general');
+    const repairPrompt = `${systemPrompt}
+
+User Request: ${request.prompt}
+
+This component was written for the request but ${REPAIR_STAGE_DESCRIPTIONS[failure.stage]}:
+${failure.error}
+
+\`\`\`jsx
+${failingCode}
+\`\`\`
+
+Fix the error and return the complete corrected component in one code block.`;
+
+    return this.generateCode(repairPrompt, stream);
+  }
+
+  /**
+   * Generates component code for a prompt and extracts it from the response.
+   */
+  private async generateCode(prompt: string, stream: GenerationStreamOptions): Promise<string> {
     if (!this.isAvailable) {
       throw new Error('Ollama service is not available. Please ensure Ollama is running on localhost:11434');
     }
 
-    const systemPrompt = this.buildSystemPrompt(request.panelType || 'general');
-    const fullPrompt = `${systemPrompt}\n\nUser Request: ${request.prompt}`;
-
     try {
       const options: OllamaGenerationOptions = {
         model: this.defaultModel,
-        prompt: fullPrompt,
+        prompt,
         temperature: 0.2, // Slightly higher temperature for 1B model creativity
         topP: 0.95,
         maxTokens: 4096 // Increased for more detailed components
       };
 
-      const generatedCode = await this.callOllamaAPI(options);
-      const cleanedCode = this.extractJSXFromResponse(generatedCode);
-      
-      // Validate the generated code before returning
-      this.validateGeneratedCode(cleanedCode);
-      
-      return cleanedCode;
+      const generatedCode = await this.callOllamaAPI(options, stream);
+      // Reason: the code is validated by the repair loop, which sends
+      // failures back to the model instead of failing the generation
+      return this.extractJSXFromResponse(generatedCode);
     } catch (error) {
       console.error('[OllamaClient] Component generation failed:', error);
       throw new Error(`Component generation failed: ${error}`);
@@ -77,37 +129,112 @@ export class OllamaClient {
   }
 
   /**
-   * Makes API call to Ollama service.
+   * Makes a streaming API call to Ollama. The response is NDJSON, one chunk
+   * of generated text per line; there is no total timeout, only an idle one.
    * 
    * @param options - Generation options
+   * @param stream - Token callback, cancellation signal and idle timeout
    * @returns Promise resolving to generated text
+   * @throws Error if the request fails, stalls or is cancelled
    */
-  private async callOllamaAPI(options: OllamaGenerationOptions): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/api/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: options.model,
-        prompt: options.prompt,
-        stream: false,
-        options: {
-          temperature: options.temperature || 0.2,
-          top_p: options.topP || 0.95,
-          num_predict: options.maxTokens || 4096,
-          stop: ['```\n\n', '## ', 'Let me know']
+  private async callOllamaAPI(options: OllamaGenerationOptions, stream: GenerationStreamOptions = {}): Promise<string> {
+    const { onToken, signal, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS } = stream;
+    if (signal?.aborted) {
+      throw new Error('Generation cancelled');
+    }
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let stalled = false;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        stalled = true;
+        controller.abort();
+      }, idleTimeoutMs);
+    };
+
+    let text = '';
+    // Returns true once Ollama reports the generation done
+    const handleLine = (line: string): boolean => {
+      if (!line.trim()) return false;
+
+      const chunk = JSON.parse(line) as { response?: string; done?: boolean; error?: string };
+      if (chunk.error) {
+        throw new Error(`Ollama API error: ${chunk.error}`);
+      }
+      if (chunk.response) {
+        text += chunk.response;
+        onToken?.(chunk.response, text);
+      }
+      return chunk.done === true;
+    };
+
+    try {
+      // Loading the model counts against the idle timeout too
+      resetIdleTimer();
+      const response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: options.model,
+          prompt: options.prompt,
+          stream: true,
+          options: {
+            temperature: options.temperature || 0.2,
+            top_p: options.topP || 0.95,
+            num_predict: options.maxTokens || 4096,
+            stop: ['```\n\n', '## ', 'Let me know']
+          }
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+      if (!response.body) {
+        throw new Error('Ollama API error: empty response');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetIdleTimer();
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+
+        if (lines.some(handleLine)) {
+          await reader.cancel();
+          return text;
         }
-      }),
-      signal: AbortSignal.timeout(30000) // 30 second timeout
-    });
+      }
 
-    if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      handleLine(buffered + decoder.decode());
+      return text;
+    } catch (error) {
+      if (stalled) {
+        throw new Error(`Ollama sent nothing for ${idleTimeoutMs / 1000} seconds`);
+      }
+      if (signal?.aborted) {
+        throw new Error('Generation cancelled');
+      }
+      throw error;
+    } finally {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', cancel);
     }
-
-    const data = await response.json();
-    return data.response || '';
   }
 
   /**
@@ -123,7 +250,30 @@ export class OllamaClient {
 2. Export as default
 3. Use Tailwind CSS classes
 4. Include proper TypeScript types
-5. Self-contained (no external dependencies)
+5. Self-contained (no external dependencies besides the panel SDK)
+6. Never use localStorage, sessionStorage or indexedDB - persist data with the panel SDK
+7. Never use fetch or XMLHttpRequest - request data with the panel SDK
+
+Panel SDK (\`ui-madness/sdk\`):
+- \`usePanelStorage(key, initial)\` works like \`useState\` but the value survives reloads
+- Returns \`[value, setValue, { loading, error }]\`; \`setValue\` also takes an updater function
+- Values must be JSON-serializable (no Dates or functions); each panel has a ${formatBytes(PANEL_STORAGE_QUOTA_BYTES)} quota
+- \`usePanelFetch(url, { method, headers, body, lazy })\` returns \`{ data, loading, error, refetch }\`; JSON responses are parsed
+- Only origins the user allowed can be reached, with GET, HEAD or POST (string bodies) and no redirects; handle \`error\` for blocked requests
+- \`usePanelChannel(name)\` returns \`[value, publish, { sender, error }]\` and connects panels: one panel publishes, others receive
+- Channel names are lowercase and dot-separated (e.g. \`orders.filter\`); \`value\` is undefined until something is published
+- The user allows each panel's channels, so \`value\` may stay undefined and \`publish\` may set \`error\`
+
+\`\`\`jsx
+import { usePanelStorage, usePanelFetch, usePanelChannel } from 'ui-madness/sdk';
+
+const [items, setItems] = usePanelStorage('items', []);
+setItems(previous => [...previous, newItem]);
+
+const { data, loading, error } = usePanelFetch('https://api.example.com/prices');
+
+const [filter, publishFilter] = usePanelChannel('orders.filter');
+\`\`\`
 
 Structure:
 \`\`\`jsx
@@ -148,6 +298,7 @@ Component type: ${panelType}`;
       'todo': `
 Make a TODO list with:
 - Add/remove/complete tasks
+- Tasks persisted with usePanelStorage
 - Task counter
 - Clean styling
       `,
@@ -206,52 +357,6 @@ Make a timeline with:
       .trim();
   }
 
-  /**
-   * Validates generated code for basic security and structure.
-   * 
-   * @param code - Generated JSX code to validate
-   * @throws Error if code is invalid
-   */
-  private validateGeneratedCode(code: string): void {
-    // Check for required React import
-    if (!code.includes('import React')) {
-      throw new Error('Generated code must import React');
-    }
-
-    // Check for export default
-    if (!code.includes('export default')) {
-      throw new Error('Generated code must have a default export');
-    }
-
-    // Check for forbidden patterns
-    const forbiddenPatterns = [
-      /eval\s*\(/,
-      /Function\s*\(/,
-      /document\.write/,
-      /innerHTML\s*=/,
-      /window\.parent/,
-      /window\.top/,
-      /localStorage/,
-      /sessionStorage/,
-      /<script/i
-    ];
-
-    for (const pattern of forbiddenPatterns) {
-      if (pattern.test(code)) {
-        throw new Error(`Generated code contains forbidden pattern: ${pattern.source}`);
-      }
-    }
-
-    // Basic length check
-    if (code.length < 50) {
-      throw new Error('Generated code appears to be too short');
-    }
-
-    if (code.length > 10000) {
-      throw new Error('Generated code is too long (>10KB)');
-    }
-  }
-
   /**
    * Gets available models from Ollama.
    * 
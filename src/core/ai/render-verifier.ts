@@ -0,0 +1,208 @@
+import { Component, Profiler, createElement } from 'react';
+import type { ComponentType, ErrorInfo, ReactNode } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import type { RenderVerification } from '../../types';
+
+/** Time a candidate gets to render and settle before it counts as too slow */
+export const DEFAULT_RENDER_BUDGET_MS = 1000;
+
+/**
+ * Limits of a render verification besides its time budget. Sandbox frames
+ * get them through their runtime config.
+ */
+export interface RenderVerificationLimits {
+  /** Commits within the budget beyond which a candidate counts as stuck in a render loop */
+  maxCommits: number;
+  /** Pause between checks whether the candidate stopped committing */
+  settleSliceMs: number;
+  /** Messages kept per kind; a looping component logs the same thing many times */
+  maxMessages: number;
+}
+
+export const RENDER_VERIFICATION_LIMITS: RenderVerificationLimits = {
+  maxCommits: 100,
+  settleSliceMs: 50,
+  maxMessages: 5
+};
+
+/** React APIs a verification renders with: the app's own, or a sandbox frame's */
+export interface RenderEnvironment {
+  createElement: typeof createElement;
+  Profiler: typeof Profiler;
+  createRoot: typeof createRoot;
+  flushSync: typeof flushSync;
+  /** Error boundary reporting what it catches through `onError` */
+  Boundary: ComponentType<{ onError: (error: unknown) => void; children?: ReactNode }>;
+}
+
+interface VerificationBoundaryProps {
+  children?: ReactNode;
+  onError: (error: unknown) => void;
+}
+
+/** Reports render errors that escape the candidate instead of logging them */
+class VerificationBoundary extends Component<VerificationBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error, _errorInfo: ErrorInfo) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children ?? null;
+  }
+}
+
+/**
+ * Render Verifier
+ *
+ * Verifies the first render of generated components that will run in the
+ * app; candidates for isolated panels are verified the same way inside a
+ * sandbox frame.
+ */
+export class RenderVerifier {
+  constructor(private timeBudgetMs: number = DEFAULT_RENDER_BUDGET_MS) {}
+
+  /**
+   * Mounts a component, lets it settle and unmounts it again.
+   *
+   * @param component - Component to verify
+   * @returns Promise resolving to the verification result
+   */
+  verify(component: ComponentType): Promise<RenderVerification> {
+    return verifyRender(
+      { createElement, Profiler, createRoot, flushSync, Boundary: VerificationBoundary },
+      component,
+      this.timeBudgetMs,
+      RENDER_VERIFICATION_LIMITS
+    );
+  }
+}
+
+/**
+ * Mounts a component in a detached root - never attached to the document -
+ * and watches its first render and the updates its effects schedule within
+ * a time budget. Render errors, errors the component's own error boundary
+ * reports to the console, a first render over the budget and render loops
+ * fail it; other console errors and warnings are reported without failing.
+ * Console errors logged with an Error object, as error boundaries do, count
+ * as errors; the rest, like React's development warnings, as warnings. Code
+ * that blocks the main thread (e.g. `while (true)`) cannot be interrupted
+ * from here; the budget catches everything that yields.
+ *
+ * This function is also serialized into sandbox frames, so it must not use
+ * anything from its module scope.
+ *
+ * @param env - React APIs to render with
+ * @param component - Component to verify
+ * @param budgetMs - Time the component gets to render and settle
+ * @param limits - Commit, settle and message limits
+ * @returns Promise resolving to the verification result
+ */
+export async function verifyRender(
+  env: RenderEnvironment,
+  component: unknown,
+  budgetMs: number,
+  limits: RenderVerificationLimits
+): Promise<RenderVerification> {
+  const errors = new Set<string>();
+  const warnings = new Set<string>();
+  let commits = 0;
+  let renderMs = 0;
+
+  const addError = (message: string) => {
+    if (errors.size < limits.maxMessages) errors.add(message);
+  };
+  const addWarning = (message: string) => {
+    if (warnings.size < limits.maxMessages) warnings.add(message);
+  };
+
+  // Formats console arguments, filling in React's `%s` placeholders; component stacks are dropped
+  const formatConsoleMessage = (args: unknown[]) => {
+    const [first, ...rest] = args;
+    let message = args.map(String).join(' ');
+    if (typeof first === 'string') {
+      let index = 0;
+      message = [first.replace(/%[sdio]/g, () => String(rest[index++])), ...rest.slice(index).map(String)].join(' ');
+    }
+    return message.trim().split('\n')[0];
+  };
+
+  // Reason: app modules keep logging meanwhile; they prefix their messages
+  // with `[ModuleName]`, candidates and React do not
+  const isHostLog = (args: unknown[]) => typeof args[0] === 'string' && /^\[\w+\]/.test(args[0]);
+
+  const root = env.createRoot(document.createElement('div'));
+  const { error: originalError, warn: originalWarn } = console;
+  console.error = (...args: unknown[]) => {
+    if (!isHostLog(args)) {
+      const error = args.find((arg): arg is Error => arg instanceof Error);
+      if (error) {
+        addError(error.message);
+      } else {
+        addWarning(formatConsoleMessage(args));
+      }
+    }
+    originalError.apply(console, args);
+  };
+  console.warn = (...args: unknown[]) => {
+    if (!isHostLog(args)) {
+      addWarning(formatConsoleMessage(args));
+    }
+    originalWarn.apply(console, args);
+  };
+
+  const started = performance.now();
+  try {
+    env.flushSync(() => {
+      root.render(
+        env.createElement(env.Profiler, { id: 'render-verifier', onRender: () => { commits++; } },
+          env.createElement(env.Boundary, {
+            onError: (error: unknown) => addError(error instanceof Error ? error.message : String(error))
+          }, env.createElement(component as ComponentType))
+        )
+      );
+    });
+    renderMs = performance.now() - started;
+
+    if (renderMs > budgetMs) {
+      addError(`First render took ${Math.round(renderMs)}ms, over the ${budgetMs}ms budget`);
+    }
+
+    // Let effects run and the updates they schedule commit, within the budget
+    const deadline = started + budgetMs;
+    let settledAt = -1;
+    while (errors.size === 0 && commits !== settledAt && commits <= limits.maxCommits && performance.now() < deadline) {
+      settledAt = commits;
+      await new Promise(resolve => setTimeout(resolve, limits.settleSliceMs));
+    }
+
+    if (commits > limits.maxCommits) {
+      addError(`Rendered ${commits} times within ${budgetMs}ms; it is likely stuck in an update loop`);
+    }
+  } catch (error) {
+    addError(error instanceof Error ? error.message : String(error));
+  } finally {
+    root.unmount();
+    console.error = originalError;
+    console.warn = originalWarn;
+  }
+
+  return {
+    status: errors.size > 0 ? 'fail' : 'pass',
+    errors: [...errors],
+    warnings: [...warnings],
+    renderMs: Math.round(renderMs),
+    commits
+  };
+}
+
+// Create and export default instance
+const renderVerifier = new RenderVerifier();
+
+export default renderVerifier;
@@ -0,0 +1,187 @@
+import type { ComponentType } from 'react';
+import type {
+  ComponentGenerationRequest,
+  GenerationStreamOptions,
+  PanelTrust,
+  RenderVerification,
+  RepairRound,
+  RepairStage,
+  SandboxModule
+} from '../../types';
+import workerCompiler, { WorkerCompiler } from '../compiler/worker-compiler';
+import reactRefreshHost from '../hmr/refresh-runtime';
+import sandboxHost from '../sandbox/sandbox-host';
+import codeValidator, { CodeValidator } from './code-validator';
+import ollamaClient, { OllamaClient } from './ollama-client';
+import renderVerifier, { RenderVerifier } from './render-verifier';
+import sandboxVerifier, { SandboxVerifier } from './sandbox-verifier';
+
+/** Repair rounds after the first attempt before a generation counts as failed */
+export const DEFAULT_MAX_REPAIR_ROUNDS = 2;
+
+/** Outcome of checking one generated component */
+export type CandidateCheck =
+  | { ok: true; code: string; warnings: string[]; verification: RenderVerification }
+  | { ok: false; stage: RepairStage; error: string };
+
+/** Code that passed every check, with the rounds it took to get there */
+export interface RepairedCode {
+  finalCode: string;
+  warnings: string[];
+  verification: RenderVerification;
+  repairRounds: number;
+}
+
+/** How a failed check reads in error messages */
+const STAGE_ERRORS: Record<RepairStage, string> = {
+  validation: 'Code validation failed',
+  compile: 'Compilation failed',
+  render: 'Render check failed'
+};
+
+/**
+ * Repair Loop
+ *
+ * Checks generated code the way the registry would use it - security
+ * validation, compilation and a verified first render in a detached root -
+ * without registering it. Code
+ * failing a check goes back to the model together with the error, for a
+ * bounded number of rounds. Candidates are compiled under their own name, so
+ * a failing candidate never touches the panel, its history or the disk.
+ * Candidates for isolated panels are verified in a sandbox frame, never in
+ * the app.
+ */
+export class RepairLoop {
+  constructor(
+    private maxRounds: number = DEFAULT_MAX_REPAIR_ROUNDS,
+    private ollama: OllamaClient = ollamaClient,
+    private validator: CodeValidator = codeValidator,
+    private compiler: WorkerCompiler = workerCompiler,
+    private verifier: RenderVerifier = renderVerifier,
+    private isolatedVerifier: SandboxVerifier = sandboxVerifier
+  ) {}
+
+  /**
+   * Checks generated code and has the model repair it until it passes.
+   *
+   * @param request - Request the code was generated for
+   * @param panelId - Panel the code is for
+   * @param code - Generated code
+   * @param trust - Where the panel will run, and so where its candidates are verified
+   * @param stream - Streaming options for the repair generations; `onRepair`
+   *   is called before each round
+   * @param onRound - Called with each failed round and its code
+   * @returns Promise resolving to the code that passed
+   * @throws Error naming the failed check once the rounds are used up, or
+   *   right away if the sandbox for isolated candidates cannot be set up
+   */
+  async run(
+    request: ComponentGenerationRequest,
+    panelId: string,
+    code: string,
+    trust: PanelTrust,
+    stream: GenerationStreamOptions = {},
+    onRound?: (round: RepairRound, failingCode: string) => void
+  ): Promise<RepairedCode> {
+    for (let round = 1; ; round++) {
+      const check = await this.check(panelId, code, trust);
+      if (check.ok) {
+        return {
+          finalCode: check.code,
+          warnings: check.warnings,
+          verification: check.verification,
+          repairRounds: round - 1
+        };
+      }
+
+      if (round > this.maxRounds || stream.signal?.aborted) {
+        throw new Error(`${STAGE_ERRORS[check.stage]}: ${check.error}`);
+      }
+
+      const repair: RepairRound = { panelId, round, maxRounds: this.maxRounds, stage: check.stage, error: check.error };
+      console.warn(`[RepairLoop] ${panelId} failed ${check.stage}, repair round ${round}/${this.maxRounds}:`, check.error);
+      onRound?.(repair, code);
+      stream.onRepair?.(repair);
+
+      code = await this.ollama.repairComponent(request, code, check, stream);
+    }
+  }
+
+  /**
+   * Validates, compiles and verifies the first render of a generated component.
+   *
+   * @param panelId - Panel the code is for
+   * @param code - Generated code
+   * @param trust - Where the panel will run, and so where the candidate is verified
+   * @returns The sanitized code and warnings, or the failed check and its error
+   * @throws Error if the sandbox for an isolated candidate cannot be set up
+   */
+  async check(panelId: string, code: string, trust: PanelTrust): Promise<CandidateCheck> {
+    const validation = await this.validator.validateJSX(code);
+    if (!validation.isValid) {
+      return { ok: false, stage: 'validation', error: validation.errors.join(', ') };
+    }
+
+    const finalCode = validation.sanitizedCode || code;
+    const candidateId = `candidate-${panelId}`;
+    const result = await this.compiler.compileComponent(finalCode, candidateId);
+    if (!result.success || !result.moduleUrl) {
+      return { ok: false, stage: 'compile', error: result.error?.message ?? 'No module was produced' };
+    }
+
+    try {
+      let verification: RenderVerification;
+      if (trust === 'isolated') {
+        let modules: SandboxModule[];
+        try {
+          modules = sandboxHost.linkModules({ compiledCode: result.code || '' });
+        } catch (error) {
+          return { ok: false, stage: 'compile', error: `Module failed to load: ${errorMessage(error)}` };
+        }
+
+        // Reason: a sandbox that cannot be set up is no fault of the
+        // candidate, so it fails the generation instead of a repair round
+        const sandboxed = await this.isolatedVerifier.verify(candidateId, modules);
+        if (!sandboxed.loaded) {
+          return { ok: false, stage: 'compile', error: `Module failed to load: ${sandboxed.error}` };
+        }
+        verification = sandboxed.verification;
+      } else {
+        let component: unknown;
+        try {
+          await reactRefreshHost.whenReady();
+          component = (await import(/* @vite-ignore */ result.moduleUrl)).default;
+        } catch (error) {
+          return { ok: false, stage: 'compile', error: `Module failed to load: ${errorMessage(error)}` };
+        }
+        if (typeof component !== 'function') {
+          return { ok: false, stage: 'compile', error: 'The default export is not a component' };
+        }
+
+        verification = await this.verifier.verify(component as ComponentType);
+      }
+
+      if (verification.status === 'fail') {
+        return { ok: false, stage: 'render', error: verification.errors.join('; ') };
+      }
+      return {
+        ok: true,
+        code: finalCode,
+        warnings: [...validation.warnings, ...verification.warnings],
+        verification
+      };
+    } finally {
+      this.compiler.releaseModules(result);
+      reactRefreshHost.dispose(candidateId);
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Create and export default instance
+const repairLoop = new RepairLoop();
+
+export default repairLoop;
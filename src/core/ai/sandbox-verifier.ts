@@ -0,0 +1,95 @@
+import type { RenderVerification, SandboxModule } from '../../types';
+import sandboxHost, { SandboxHost } from '../sandbox/sandbox-host';
+import { DEFAULT_RENDER_BUDGET_MS } from './render-verifier';
+
+/** Time a verification frame gets to load React and its runtime */
+const LOAD_TIMEOUT_MS = 10000;
+
+/** Time beyond the render budget for the frame to report back */
+const REPORT_GRACE_MS = 1000;
+
+/** Outcome of verifying a candidate in a frame */
+export type SandboxVerification =
+  | { loaded: true; verification: RenderVerification }
+  /** The candidate's modules failed to load in the frame */
+  | { loaded: false; error: string };
+
+/**
+ * Sandbox Verifier
+ *
+ * Verifies the first render of candidates for isolated panels inside a hidden
+ * sandbox frame, so their code never runs in the app. The frame checks the
+ * candidate the way the render verifier checks trusted ones; it has no panel
+ * SDK, and it is removed once the result is in.
+ */
+export class SandboxVerifier {
+  constructor(
+    private timeBudgetMs: number = DEFAULT_RENDER_BUDGET_MS,
+    private host: SandboxHost = sandboxHost
+  ) {}
+
+  /**
+   * Loads a candidate in a fresh frame and verifies its first render there.
+   *
+   * @param candidateId - Name the candidate is compiled under
+   * @param modules - Candidate modules linked for the sandbox
+   * @returns Promise resolving to the verification, or why the candidate failed to load
+   * @throws Error if the sandbox itself cannot be set up, e.g. offline; that
+   *   is no fault of the candidate
+   */
+  async verify(candidateId: string, modules: SandboxModule[]): Promise<SandboxVerification> {
+    const srcDoc = await this.host.getDocument();
+
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    document.body.appendChild(frame);
+
+    return new Promise<SandboxVerification>((resolve, reject) => {
+      const finish = (settle: () => void) => {
+        clearTimeout(timer);
+        connection.dispose();
+        frame.remove();
+        settle();
+      };
+
+      let timer = setTimeout(
+        () => finish(() => reject(new Error(`The sandbox did not load within ${LOAD_TIMEOUT_MS}ms`))),
+        LOAD_TIMEOUT_MS
+      );
+
+      const connection = this.host.connect(frame, candidateId, (message) => {
+        switch (message.type) {
+          case 'ready':
+            clearTimeout(timer);
+            // Reason: code that blocks the frame never reports back
+            timer = setTimeout(() => finish(() => resolve({
+              loaded: true,
+              verification: {
+                status: 'fail',
+                errors: [`Did not finish rendering within ${this.timeBudgetMs}ms`],
+                warnings: [],
+                renderMs: this.timeBudgetMs,
+                commits: 0
+              }
+            })), this.timeBudgetMs + REPORT_GRACE_MS);
+            connection.post({ type: 'verify', modules, budgetMs: this.timeBudgetMs });
+            break;
+          case 'verified':
+            finish(() => resolve({ loaded: true, verification: message.verification }));
+            break;
+          case 'load-failed':
+            finish(() => resolve({ loaded: false, error: message.message }));
+            break;
+        }
+      }, { sdk: false });
+
+      frame.srcdoc = srcDoc;
+    });
+  }
+}
+
+// Create and export default instance
+const sandboxVerifier = new SandboxVerifier();
+
+export default sandboxVerifier;
@@ -0,0 +1,87 @@
+import * as Babel from '@babel/standalone';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { SecurityAnalyzer } from './security-analyzer';
+
+const analyzer = new SecurityAnalyzer();
+
+const rulesOf = (code: string) => analyzer.analyze(code).violations.map(violation => violation.rule);
+
+beforeAll(() => {
+  vi.stubGlobal('window', { Babel });
+});
+
+describe('SecurityAnalyzer', () => {
+  it('allows ordinary component code', () => {
+    expect(rulesOf(`
+      const Panel = () => {
+        const [count, setCount] = useState(0);
+        return <button onClick={(e) => { e.stopPropagation(); setCount(count + 1); }}>{count}</button>;
+      };
+      export default Panel;
+    `)).toEqual([]);
+  });
+
+  it('reports forbidden globals and computed global access', () => {
+    expect(rulesOf('fetch("/api")')).toContain('forbidden-global');
+    expect(rulesOf('window["ev" + "al"]("1")')).toContain('global-member-access');
+    expect(rulesOf('const w = window; w[name]()')).toContain('computed-global-access');
+  });
+
+  describe('destructuring the global object', () => {
+    it('reports destructured globals', () => {
+      expect(rulesOf('const { fetch, eval: e } = window; fetch(url); e(code);')).toEqual([
+        'global-member-access',
+        'global-member-access'
+      ]);
+    });
+
+    it('follows globalThis, self and aliases', () => {
+      expect(rulesOf('const { fetch } = globalThis;')).toContain('global-member-access');
+      expect(rulesOf('const { XMLHttpRequest: X } = self;')).toContain('global-member-access');
+      expect(rulesOf('const w = window; const { eval: e } = w;')).toContain('global-member-access');
+      expect(rulesOf('const { self: w } = window; w.fetch(url);')).toContain('global-member-access');
+      expect(rulesOf('const { ...w } = window; w.fetch(url);')).toContain('global-member-access');
+    });
+
+    it('reports assignments, defaults and nested patterns', () => {
+      expect(rulesOf('let e; ({ eval: e } = window);')).toContain('global-member-access');
+      expect(rulesOf('function f({ fetch: get } = window) { return get; }')).toContain('global-member-access');
+      expect(rulesOf('const { document: { cookie } } = window;')).toContain('global-member-access');
+      expect(rulesOf('const { cookie } = document;')).toContain('global-member-access');
+    });
+
+    it('reports computed keys that cannot be resolved', () => {
+      expect(rulesOf('const { [name]: anything } = window;')).toContain('computed-global-access');
+    });
+
+    it('allows destructuring ordinary objects and harmless globals', () => {
+      expect(rulesOf('const { fetch, eval: e } = props;')).toEqual([]);
+      expect(rulesOf('const { innerWidth, innerHeight } = window;')).toEqual([]);
+    });
+  });
+
+  it('reports Reflect.get on the global object', () => {
+    expect(rulesOf('Reflect.get(window, "eval")("1")')).toContain('global-member-access');
+    expect(rulesOf('Reflect.get(globalThis, "fe" + "tch")')).toContain('global-member-access');
+    expect(rulesOf('Reflect.get(window, name)')).toContain('computed-global-access');
+    expect(rulesOf('Reflect.get(document, "cookie")')).toContain('global-member-access');
+    expect(rulesOf('Reflect.get(props, "eval")')).toEqual([]);
+  });
+
+  describe('constructor escapes', () => {
+    it.each([
+      "(() => {}).constructor('return fetch')()",
+      '[].map.constructor("return this")()',
+      '(async function () {}).constructor("await 1")()',
+      "''.constructor.constructor('return fetch')()",
+      "(function* () {})['constr' + 'uctor']('yield 1')",
+      'const { constructor: F } = () => {}; F("return 1")();'
+    ])('reports %s', (code) => {
+      expect(rulesOf(code)).toContain('constructor-escape');
+    });
+
+    it('allows this.constructor', () => {
+      expect(rulesOf('class Panel { name() { return this.constructor.name; } }')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import type { NodePath } from '@babel/traverse';
+import type {
+  AssignmentExpression,
+  CallExpression,
+  Identifier,
+  JSXAttribute,
+  JSXOpeningElement,
+  MemberExpression,
+  Node,
+  ObjectPattern,
+  ObjectProperty,
+  OptionalCallExpression,
+  OptionalMemberExpression,
+  StringLiteral,
+  TemplateLiteral
+} from '@babel/types';
+import type { SecurityRuleId, SecurityViolation, SourceLocation } from '../../types';
+
+/**
+ * AST-based Security Analyzer for AI-generated components
+ *
+ * Parses component source with Babel and walks the AST with scope-aware rules,
+ * so that `onClick={...}` or `e.stopPropagation()` are never mistaken for
+ * dangerous code while tricks like `window['ev' + 'al']` are still caught.
+ */
+
+type MaybePath = NodePath<Node | null | undefined> | undefined;
+
+type Report = (rule: SecurityRuleId, message: string, node: Node) => void;
+
+/** The object a property is read from: the global object or `document` */
+type GlobalSource = 'global' | 'document';
+
+export interface SecurityAnalysisResult {
+  parsed: boolean;
+  violations: SecurityViolation[];
+}
+
+/** Globals that generated code may never reference directly. */
+const FORBIDDEN_GLOBALS = new Set([
+  'eval',
+  'Function',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'Worker',
+  'SharedWorker',
+  'importScripts',
+  'localStorage',
+  'sessionStorage',
+  'indexedDB',
+  'parent',
+  'top',
+  'frames',
+  'opener',
+  'require',
+  'process',
+  'Buffer',
+  'global',
+  '__dirname',
+  '__filename'
+]);
+
+/** What panels should use instead of a forbidden global, added to the violation message */
+const GLOBAL_ALTERNATIVES: Record<string, string> = {
+  localStorage: "use usePanelStorage from 'ui-madness/sdk'",
+  sessionStorage: "use usePanelStorage from 'ui-madness/sdk'",
+  indexedDB: "use usePanelStorage from 'ui-madness/sdk'",
+  fetch: "use usePanelFetch from 'ui-madness/sdk'",
+  XMLHttpRequest: "use usePanelFetch from 'ui-madness/sdk'"
+};
+
+const withAlternative = (message: string, name: string) =>
+  GLOBAL_ALTERNATIVES[name] ? `${message} - ${GLOBAL_ALTERNATIVES[name]}` : message;
+
+/** Identifiers that resolve to the global object (or the document). */
+const GLOBAL_OBJECTS = new Set(['window', 'globalThis', 'self', 'document']);
+
+/** Properties of `document` that allow escaping the panel. */
+const FORBIDDEN_DOCUMENT_PROPERTIES = new Set(['cookie', 'write', 'writeln', 'domain']);
+
+const FORBIDDEN_ELEMENTS = new Set([
+  'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'link', 'meta', 'base'
+]);
+
+const FORBIDDEN_ATTRIBUTES = new Set(['dangerouslySetInnerHTML', 'srcDoc']);
+
+const HTML_INJECTION_PROPERTIES = new Set(['innerHTML', 'outerHTML']);
+
+const DANGEROUS_URL_PATTERN = /^\s*(?:javascript:|vbscript:|data:text\/html)/i;
+
+const TIMER_FUNCTIONS = new Set(['setTimeout', 'setInterval']);
+
+export class SecurityAnalyzer {
+  /**
+   * Parses code and reports every security violation with its location.
+   *
+   * @param code - JSX/TSX source code to analyze
+   * @returns Analysis result; `parsed` is false when the code has syntax errors
+   */
+  analyze(code: string): SecurityAnalysisResult {
+    const violations: SecurityViolation[] = [];
+    const seen = new Set<string>();
+
+    const report = (
+      rule: SecurityRuleId,
+      message: string,
+      node: Node,
+      severity: SecurityViolation['severity'] = 'error'
+    ) => {
+      const loc = this.getLocation(node);
+      const key = `${rule}:${loc.line}:${loc.column}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      violations.push({ rule, message, severity, loc });
+    };
+
+    let ast: Node;
+    try {
+      ast = window.Babel.packages.parser.parse(code, {
+        sourceType: 'module',
+        plugins: ['jsx', 'typescript'],
+        errorRecovery: false
+      });
+    } catch (error) {
+      const { loc, message } = error as { loc?: { line: number; column: number }; message: string };
+      violations.push({
+        rule: 'syntax-error',
+        message: `Syntax error: ${message}`,
+        severity: 'error',
+        loc: loc ? { line: loc.line, column: loc.column + 1 } : { line: 1, column: 1 }
+      });
+      return { parsed: false, violations };
+    }
+
+    let usesSetInterval: Node | null = null;
+    let usesClearInterval = false;
+
+    window.Babel.packages.traverse.default(ast, {
+      Identifier: (path: NodePath<Identifier>) => {
+        if (!path.isReferencedIdentifier() || this.isLocallyBound(path, path.node.name)) {
+          return;
+        }
+
+        const name = path.node.name;
+        if (FORBIDDEN_GLOBALS.has(name)) {
+          report('forbidden-global', withAlternative(`Use of forbidden global '${name}'`, name), path.node);
+        }
+        if (name === 'clearInterval') {
+          usesClearInterval = true;
+        }
+      },
+
+      'MemberExpression|OptionalMemberExpression': (path: NodePath<MemberExpression | OptionalMemberExpression>) => {
+        this.checkMemberExpression(path, report);
+      },
+
+      ObjectPattern: (path: NodePath<ObjectPattern>) => {
+        this.checkObjectPattern(path, report);
+      },
+
+      AssignmentExpression: (path: NodePath<AssignmentExpression>) => {
+        const left = path.get('left');
+        if (!left.isMemberExpression()) return;
+
+        const property = this.getPropertyName(left);
+        if (property && HTML_INJECTION_PROPERTIES.has(property)) {
+          report('html-injection', `Assignment to '${property}' is not allowed`, path.node);
+        }
+      },
+
+      'CallExpression|OptionalCallExpression': (path: NodePath<CallExpression | OptionalCallExpression>) => {
+        const callee = path.get('callee');
+
+        if (callee.node.type === 'Import') {
+          report('dynamic-import', 'Dynamic import() is not allowed', path.node);
+          return;
+        }
+
+        const calleeName = this.getCalleeName(callee);
+        if (calleeName === 'insertAdjacentHTML') {
+          report('html-injection', "Call to 'insertAdjacentHTML' is not allowed", path.node);
+        }
+
+        const args = path.get('arguments');
+
+        // Reason: Reflect.get(window, 'eval') is a member access in disguise
+        if (calleeName === 'get' && callee.isMemberExpression() && this.isGlobalName(callee.get('object'), 'Reflect')) {
+          const source = this.getGlobalSource(args[0]);
+          if (source) {
+            this.checkGlobalProperty(source, this.evaluateString(args[1]), path.node, report);
+          }
+        }
+
+        if (calleeName === 'createElement' && callee.isMemberExpression() && this.isGlobalObject(callee.get('object'), 'document')) {
+          const tag = this.evaluateString(args[0]);
+          if (tag === null || FORBIDDEN_ELEMENTS.has(tag.toLowerCase())) {
+            report('forbidden-element', `document.createElement('${tag ?? '?'}') is not allowed`, path.node);
+          }
+        }
+
+        if (calleeName && TIMER_FUNCTIONS.has(calleeName)) {
+          const handler = args[0];
+          if (handler && this.isStringLike(handler)) {
+            report('string-timer', `${calleeName} with a string argument evaluates code`, path.node);
+          }
+          if (calleeName === 'setInterval') {
+            usesSetInterval = usesSetInterval ?? path.node;
+          }
+        }
+      },
+
+      ImportExpression: (path: NodePath) => {
+        report('dynamic-import', 'Dynamic import() is not allowed', path.node);
+      },
+
+      JSXOpeningElement: (path: NodePath<JSXOpeningElement>) => {
+        const name = path.node.name;
+        if (name.type === 'JSXIdentifier' && FORBIDDEN_ELEMENTS.has(name.name)) {
+          report('forbidden-element', `<${name.name}> elements are not allowed`, path.node);
+        }
+      },
+
+      JSXAttribute: (path: NodePath<JSXAttribute>) => {
+        const { name, value } = path.node;
+        if (name.type !== 'JSXIdentifier') return;
+
+        if (FORBIDDEN_ATTRIBUTES.has(name.name)) {
+          report('forbidden-attribute', `The '${name.name}' attribute is not allowed`, path.node);
+        }
+
+        // Reason: React handlers take functions; a string value is an inline HTML handler
+        if (/^on[A-Z]/.test(name.name) && value?.type === 'StringLiteral') {
+          report('string-event-handler', `Event handler '${name.name}' must be a function, not a string`, path.node);
+        }
+      },
+
+      StringLiteral: (path: NodePath<StringLiteral>) => {
+        if (DANGEROUS_URL_PATTERN.test(path.node.value)) {
+          report('dangerous-url', 'Dangerous URL scheme in string literal', path.node);
+        }
+      },
+
+      TemplateLiteral: (path: NodePath<TemplateLiteral>) => {
+        const head = path.node.quasis[0]?.value.cooked ?? '';
+        if (DANGEROUS_URL_PATTERN.test(head)) {
+          report('dangerous-url', 'Dangerous URL scheme in template literal', path.node);
+        }
+      }
+    });
+
+    if (usesSetInterval && !usesClearInterval) {
+      report(
+        'uncleared-interval',
+        'setInterval is used without clearInterval - clear it in an effect cleanup',
+        usesSetInterval,
+        'warning'
+      );
+    }
+
+    return { parsed: true, violations };
+  }
+
+  /**
+   * Applies member-access rules: global object properties, computed-key tricks,
+   * frame access and constructor escapes.
+   */
+  private checkMemberExpression(
+    path: NodePath<MemberExpression | OptionalMemberExpression>,
+    report: Report
+  ): void {
+    const object = path.get('object');
+    const property = this.getPropertyName(path);
+    const computed = path.node.computed;
+
+    const source = this.getGlobalSource(object);
+    if (source && this.checkGlobalProperty(source, property, path.node, report)) {
+      return;
+    }
+
+    if (property === null) return;
+
+    if (computed && FORBIDDEN_GLOBALS.has(property)) {
+      report('computed-property-trick', `Computed access to '${property}' is not allowed`, path.node);
+    }
+
+    if (property === 'contentWindow' || property === 'contentDocument') {
+      report('frame-access', `Access to '${property}' is not allowed`, path.node);
+    }
+
+    // Reason: any value's constructor chain leads to Function, e.g.
+    // `(() => {}).constructor('return fetch')()`; only `this.constructor` is safe
+    if (property === '__proto__' || (property === 'constructor' && !object.isThisExpression())) {
+      report('constructor-escape', `Access to '${property}' is not allowed`, path.node);
+    }
+
+    if (property === 'postMessage' && path.parentPath.isCallExpression({ callee: path.node })) {
+      report('message-passing', 'postMessage is not allowed', path.node);
+    }
+  }
+
+  /**
+   * Applies the member-access rules to destructuring, so that
+   * `const { fetch, eval: e } = window` counts as using both globals.
+   */
+  private checkObjectPattern(path: NodePath<ObjectPattern>, report: Report): void {
+    const source = this.getPatternSource(path);
+
+    for (const property of path.get('properties')) {
+      if (!property.isObjectProperty()) continue;
+
+      const key = this.getKeyName(property);
+      if (source) {
+        this.checkGlobalProperty(source, key, property.node, report);
+      }
+      if (key === 'constructor' || key === '__proto__') {
+        report('constructor-escape', `Destructuring '${key}' is not allowed`, property.node);
+      }
+    }
+  }
+
+  /**
+   * Reports access to a property of the global object or `document`.
+   *
+   * @param source - Which object the property is read from
+   * @param property - Property name, or null when it is computed at runtime
+   * @returns Whether a violation was reported
+   */
+  private checkGlobalProperty(source: GlobalSource, property: string | null, node: Node, report: Report): boolean {
+    if (source === 'document') {
+      if (property && FORBIDDEN_DOCUMENT_PROPERTIES.has(property)) {
+        report('global-member-access', `Access to 'document.${property}' is not allowed`, node);
+        return true;
+      }
+      return false;
+    }
+
+    if (property === null) {
+      report('computed-global-access', 'Dynamic property access on the global object is not allowed', node);
+      return true;
+    }
+    if (FORBIDDEN_GLOBALS.has(property)) {
+      report('global-member-access', withAlternative(`Access to forbidden global '${property}'`, property), node);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Finds the object a destructuring pattern reads from, following nested
+   * patterns like `const { document: { cookie } } = window`.
+   *
+   * @returns The global object or `document`, or null for any other value
+   */
+  private getPatternSource(path: NodePath<ObjectPattern>, depth: number = 0): GlobalSource | null {
+    const parent = path.parentPath;
+    if (!parent || depth > 5) return null;
+
+    if (parent.isVariableDeclarator() && path.key === 'id') {
+      return this.getGlobalSource(parent.get('init'));
+    }
+    if (parent.isAssignmentExpression() && path.key === 'left') {
+      return this.getGlobalSource(parent.get('right'));
+    }
+    if (parent.isAssignmentPattern() && path.key === 'left') {
+      return this.getGlobalSource(parent.get('right'));
+    }
+    if (parent.isObjectProperty() && path.key === 'value' && parent.parentPath.isObjectPattern()) {
+      const outer = this.getPatternSource(parent.parentPath, depth + 1);
+      const key = this.getKeyName(parent);
+      if (outer === 'global' && key && GLOBAL_OBJECTS.has(key)) {
+        return key === 'document' ? 'document' : 'global';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Classifies an expression as the global object, `document` or neither.
+   */
+  private getGlobalSource(path: MaybePath): GlobalSource | null {
+    if (this.isGlobalObject(path, 'document')) return 'document';
+    if (this.isGlobalObject(path)) return 'global';
+    return null;
+  }
+
+  /**
+   * Resolves an object pattern property's key, evaluating computed keys.
+   */
+  private getKeyName(path: NodePath<ObjectProperty>): string | null {
+    const { node } = path;
+    if (!node.computed && node.key.type === 'Identifier') return node.key.name;
+    return this.evaluateString(path.get('key'));
+  }
+
+  /**
+   * Checks whether an expression is the unshadowed global with the given name.
+   */
+  private isGlobalName(path: NodePath, name: string): boolean {
+    return path.isIdentifier({ name }) && !this.isLocallyBound(path, name);
+  }
+
+  /**
+   * Resolves a member expression's property name, evaluating computed keys.
+   *
+   * @returns Property name, or null when the key cannot be determined statically
+   */
+  private getPropertyName(path: NodePath): string | null {
+    if (!path.isMemberExpression() && !path.isOptionalMemberExpression()) {
+      return null;
+    }
+
+    const { node } = path;
+    if (!node.computed) {
+      return node.property.type === 'Identifier' ? node.property.name : null;
+    }
+
+    return this.evaluateString((path as NodePath<MemberExpression>).get('property'));
+  }
+
+  /**
+   * Gets the called function's name for `fn()` and `obj.fn()` style calls.
+   */
+  private getCalleeName(callee: NodePath): string | null {
+    if (callee.isIdentifier()) {
+      return this.isLocallyBound(callee, callee.node.name) ? null : callee.node.name;
+    }
+    return this.getPropertyName(callee);
+  }
+
+  /**
+   * Statically evaluates an expression to a string when Babel is confident.
+   */
+  private evaluateString(path: MaybePath): string | null {
+    if (!path?.node) return null;
+
+    const result = path.evaluate();
+    if (result.confident && (typeof result.value === 'string' || typeof result.value === 'number')) {
+      return String(result.value);
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether an expression yields a string (as opposed to a function).
+   */
+  private isStringLike(path: NodePath): boolean {
+    if (path.isStringLiteral() || path.isTemplateLiteral()) return true;
+    if (path.isBinaryExpression({ operator: '+' })) {
+      return this.isStringLike(path.get('left')) || this.isStringLike(path.get('right'));
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether an expression refers to the global object (or `document`),
+   * following local aliases like `const w = window`.
+   *
+   * @param path - Expression path
+   * @param only - Restrict the match to a single global name
+   * @param depth - Alias recursion guard
+   */
+  private isGlobalObject(path: MaybePath, only?: string, depth: number = 0): boolean {
+    if (!path?.node || depth > 5) return false;
+
+    if (path.isIdentifier()) {
+      const name = path.node.name;
+      const binding = path.scope.getBinding(name);
+
+      if (!binding) {
+        if (only) return name === only;
+        return GLOBAL_OBJECTS.has(name) && name !== 'document';
+      }
+
+      // Reason: aliases such as `const w = window` must not bypass member rules
+      if (binding.path.isVariableDeclarator() && binding.constantViolations.length === 0) {
+        const id = binding.path.get('id');
+        const init = binding.path.get('init');
+        if (id.isObjectPattern()) {
+          return this.isDestructuredGlobalObject(id, init, name, only, depth + 1);
+        }
+        return this.isGlobalObject(init, only, depth + 1);
+      }
+      return false;
+    }
+
+    // window.window, globalThis.self, window.document, ...
+    if (path.isMemberExpression()) {
+      const property = this.getPropertyName(path);
+      if (property && GLOBAL_OBJECTS.has(property) && this.isGlobalObject(path.get('object'), undefined, depth + 1)) {
+        return only ? property === only : property !== 'document';
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks whether a destructured name holds the global object, as in
+   * `const { self: w } = window` or `const { ...w } = window`.
+   */
+  private isDestructuredGlobalObject(
+    pattern: NodePath<ObjectPattern>,
+    init: MaybePath,
+    name: string,
+    only: string | undefined,
+    depth: number
+  ): boolean {
+    for (const property of pattern.get('properties')) {
+      if (property.isRestElement()) {
+        if (property.get('argument').isIdentifier({ name })) {
+          return this.isGlobalObject(init, only, depth);
+        }
+        continue;
+      }
+
+      let value: NodePath = property.get('value');
+      if (value.isAssignmentPattern()) value = value.get('left');
+      if (!value.isIdentifier({ name })) continue;
+
+      const key = this.getKeyName(property as NodePath<ObjectProperty>);
+      if (!key || !GLOBAL_OBJECTS.has(key) || !this.isGlobalObject(init, undefined, depth)) {
+        return false;
+      }
+      return only ? key === only : key !== 'document';
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether a name is declared in the code itself (not a global).
+   */
+  private isLocallyBound(path: NodePath, name: string): boolean {
+    return path.scope.hasBinding(name, true);
+  }
+
+  /**
+   * Converts a Babel node location into a 1-based source location.
+   */
+  private getLocation(node: Node | null | undefined): SourceLocation {
+    const start = node?.loc?.start;
+    return start ? { line: start.line, column: start.column + 1 } : { line: 1, column: 1 };
+  }
+}
+
+// Create and export default instance
+const securityAnalyzer = new SecurityAnalyzer();
+
+export default securityAnalyzer;
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Reason: these singletons need a browser when created, and parsing never touches them
+vi.mock('../ai/code-validator', () => ({ default: {} }));
+vi.mock('../registry/component-store', () => ({ default: {} }));
+vi.mock('../registry/panel-registry', () => ({ default: {} }));
+vi.mock('../history/revision-history', () => ({ default: {} }));
+
+import { PANEL_BUNDLE_FORMAT, PANEL_BUNDLE_VERSION, parseBundle } from './panel-bundle';
+
+const panel = {
+  id: 'counter',
+  name: 'Counter',
+  source: 'export default function Counter() { return null; }',
+  metadata: { creator: 'ai', createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-02T10:00:00.000Z' },
+  revisions: [{ number: 1, kind: 'creation', author: 'ai', source: 'export default () => null;', timestamp: 1714557600000 }]
+};
+
+const bundleText = (overrides: Record<string, unknown> = {}, panels: unknown[] = [panel]) => JSON.stringify({
+  format: PANEL_BUNDLE_FORMAT,
+  version: PANEL_BUNDLE_VERSION,
+  exportedAt: '2024-05-03T10:00:00.000Z',
+  panels,
+  ...overrides
+});
+
+describe('parseBundle', () => {
+  it('reads single-file and multi-file panels', () => {
+    const multiFile = {
+      ...panel,
+      id: 'dashboard',
+      source: { entry: 'index.jsx', files: { 'index.jsx': 'export default () => null;', 'chart.js': 'export const x = 1;' } }
+    };
+
+    const bundle = parseBundle(bundleText({}, [panel, multiFile]));
+    expect(bundle.version).toBe(PANEL_BUNDLE_VERSION);
+    expect(bundle.exportedAt).toBe('2024-05-03T10:00:00.000Z');
+    expect(bundle.panels).toEqual([panel, multiFile]);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseBundle('{')).toThrow('The file is not valid JSON');
+    expect(() => parseBundle('null')).toThrow('The file is not a panel bundle');
+    expect(() => parseBundle('[]')).toThrow('The file is not a panel bundle');
+    expect(() => parseBundle(bundleText({ format: 'other' }))).toThrow('The file is not a panel bundle');
+    expect(() => parseBundle(bundleText({ version: '1' }))).toThrow('The file is not a panel bundle');
+  });
+
+  it('rejects bundles without a panel list', () => {
+    expect(() => parseBundle(bundleText({ panels: 'counter' }))).toThrow('The bundle contains malformed panels');
+  });
+
+  it('rejects bundles of a newer format', () => {
+    expect(() => parseBundle(bundleText({ version: PANEL_BUNDLE_VERSION + 1 }))).toThrow(/exported by a newer version/);
+  });
+
+  it('rejects bundles of a format without a migration', () => {
+    expect(() => parseBundle(bundleText({ version: 0 }))).toThrow(/format v0 can no longer be imported/);
+  });
+
+  it.each([
+    ['an invalid ID', { ...panel, id: '../counter' }],
+    ['no name', { ...panel, name: undefined }],
+    ['a null file tree', { ...panel, source: { entry: 'index.jsx', files: null } }],
+    ['a file that is not code', { ...panel, source: { entry: 'index.jsx', files: { 'index.jsx': 1 } } }],
+    ['a file list instead of a tree', { ...panel, source: { entry: 'index.jsx', files: ['code'] } }],
+    ['no metadata', { ...panel, metadata: null }],
+    ['an unreadable creation date', { ...panel, metadata: { ...panel.metadata, createdAt: 'yesterday' } }],
+    ['an unreadable update date', { ...panel, metadata: { ...panel.metadata, updatedAt: '2024-13-45' } }],
+    ['no revision list', { ...panel, revisions: null }],
+    ['a revision without a number', { ...panel, revisions: [{ ...panel.revisions[0], number: '1' }] }],
+    ['a revision without a timestamp', { ...panel, revisions: [{ ...panel.revisions[0], timestamp: undefined }] }],
+    ['a revision whose source is a number', { ...panel, revisions: [{ ...panel.revisions[0], source: 42 }] }],
+    ['a revision with a null file tree', { ...panel, revisions: [{ ...panel.revisions[0], source: { entry: 'a', files: null } }] }]
+  ])('rejects panels with %s', (_, malformed) => {
+    expect(() => parseBundle(bundleText({}, [malformed]))).toThrow('The bundle contains malformed panels');
+  });
+});
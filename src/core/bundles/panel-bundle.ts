@@ -0,0 +1,301 @@
+import type { BundledPanel, PanelBundle, PanelFileTree, SecurityValidationResult } from '../../types';
+import codeValidator from '../ai/code-validator';
+import componentStore from '../registry/component-store';
+import panelRegistry from '../registry/panel-registry';
+import panelEvents from '../registry/panel-events';
+import revisionHistory from '../history/revision-history';
+
+/**
+ * Panel bundles
+ *
+ * Portable JSON files for sharing panels between workspaces. A bundle holds
+ * each panel's source, metadata, layout and revision log. Importing is a two
+ * step process: `reviewBundle` validates every panel without executing
+ * anything, then `importBundle` registers the panels the user accepted.
+ */
+
+export const PANEL_BUNDLE_FORMAT = 'ui-madness.panel-bundle';
+/** Bundle version written by this build */
+export const PANEL_BUNDLE_VERSION = 1;
+
+/** A parsed bundle file before its panels were checked */
+type RawBundle = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a bundle written with version N to version N + 1, keyed by N.
+ */
+const MIGRATIONS: Record<number, (bundle: RawBundle) => Record<string, unknown>> = {};
+
+/** What to do with a bundled panel whose ID is already taken */
+export type CollisionResolution = 'rename' | 'replace' | 'skip';
+
+/** Validation outcome of one bundled panel, shown before importing */
+export interface PanelImportReview {
+  panel: BundledPanel;
+  validation: SecurityValidationResult;
+  /** Whether a registered panel (or an earlier panel of the bundle) has this ID */
+  collides: boolean;
+  /** Free ID to use when the panel is renamed */
+  suggestedId: string;
+  /** Revisions failing validation; they are left out so they can never be rolled back to */
+  rejectedRevisions: number[];
+}
+
+/** The user's decision for one reviewed panel */
+export interface PanelImportDecision {
+  review: PanelImportReview;
+  resolution: CollisionResolution;
+  /** ID to import under when renaming */
+  targetId?: string;
+}
+
+export interface PanelImportResult {
+  imported: string[];
+  skipped: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Exports panels to a bundle.
+ *
+ * @param panelIds - Panels to export; every registered panel when omitted
+ * @returns Promise resolving to the bundle
+ */
+export async function exportPanels(panelIds: string[] = panelRegistry.listPanels()): Promise<PanelBundle> {
+  const panels: BundledPanel[] = [];
+
+  for (const id of panelIds) {
+    const panel = panelRegistry.getPanel(id);
+    if (!panel) {
+      throw new Error(`Panel ${id} not found`);
+    }
+
+    const revisions = await revisionHistory.list(id);
+    panels.push({
+      id,
+      name: panel.name,
+      source: componentStore.getSource(id) ?? panel.files ?? panel.jsxCode,
+      metadata: {
+        ...panel.metadata,
+        createdAt: panel.metadata.createdAt.toISOString(),
+        updatedAt: panel.metadata.updatedAt.toISOString()
+      },
+      layout: panel.layout,
+      revisions: revisions.map(({ panelId: _panelId, ...revision }) => revision)
+    });
+  }
+
+  return {
+    format: PANEL_BUNDLE_FORMAT,
+    version: PANEL_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    panels
+  };
+}
+
+/**
+ * Parses a bundle file, migrating older bundle versions.
+ *
+ * @param text - Contents of the bundle file
+ * @returns The bundle in the current version
+ * @throws Error if the file is not a bundle this build can read
+ */
+export function parseBundle(text: string): PanelBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== PANEL_BUNDLE_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error('The file is not a panel bundle');
+  }
+
+  let bundle: RawBundle = { ...parsed, version: parsed.version };
+  if (bundle.version > PANEL_BUNDLE_VERSION) {
+    throw new Error(`The bundle was exported by a newer version (format v${bundle.version})`);
+  }
+
+  while (bundle.version < PANEL_BUNDLE_VERSION) {
+    const migrate = MIGRATIONS[bundle.version];
+    if (!migrate) {
+      throw new Error(`Bundles of format v${bundle.version} can no longer be imported`);
+    }
+    bundle = { ...migrate(bundle), version: bundle.version + 1 };
+  }
+
+  const panels = bundle.panels;
+  if (!Array.isArray(panels) || !panels.every(isBundledPanel)) {
+    throw new Error('The bundle contains malformed panels');
+  }
+  return {
+    format: PANEL_BUNDLE_FORMAT,
+    version: bundle.version,
+    exportedAt: typeof bundle.exportedAt === 'string' ? bundle.exportedAt : '',
+    panels
+  };
+}
+
+/**
+ * Validates every panel of a bundle and detects ID collisions. Nothing is
+ * compiled or executed.
+ *
+ * @param bundle - Parsed bundle
+ * @returns Promise resolving to one review per panel, in bundle order
+ */
+export async function reviewBundle(bundle: PanelBundle): Promise<PanelImportReview[]> {
+  const taken = new Set(panelRegistry.listPanels());
+  const reviews: PanelImportReview[] = [];
+
+  for (const panel of bundle.panels) {
+    const validation = await validateSource(panel.source);
+
+    const rejectedRevisions: number[] = [];
+    for (const revision of panel.revisions) {
+      if (!(await validateSource(revision.source)).isValid) {
+        rejectedRevisions.push(revision.number);
+      }
+    }
+
+    const collides = taken.has(panel.id);
+    const suggestedId = collides ? freeId(panel.id, taken) : panel.id;
+    taken.add(suggestedId);
+
+    reviews.push({ panel, validation, collides, suggestedId, rejectedRevisions });
+  }
+
+  return reviews;
+}
+
+/**
+ * Registers the accepted panels of a reviewed bundle. Panels that failed
+ * validation are never imported.
+ *
+ * @param decisions - One decision per reviewed panel
+ * @returns Promise resolving to what was imported, skipped or failed
+ */
+export async function importBundle(decisions: PanelImportDecision[]): Promise<PanelImportResult> {
+  const result: PanelImportResult = { imported: [], skipped: [], failed: [] };
+
+  // Imported panels are appended to the grid in their bundle layout order
+  const ordered = [...decisions].sort(
+    (a, b) => (a.review.panel.layout?.order ?? 0) - (b.review.panel.layout?.order ?? 0)
+  );
+
+  for (const { review, resolution, targetId } of ordered) {
+    const { panel, validation } = review;
+    const id = review.collides && resolution === 'rename' ? targetId || review.suggestedId : panel.id;
+
+    if (!validation.isValid || (review.collides && resolution === 'skip')) {
+      result.skipped.push(panel.id);
+      continue;
+    }
+    if (!/^[\w-]+$/.test(id)) {
+      result.failed.push({ id: panel.id, error: `Invalid panel ID: ${id}` });
+      continue;
+    }
+    if (id !== panel.id && panelRegistry.getPanel(id)) {
+      result.failed.push({ id: panel.id, error: `Panel ID ${id} is already taken` });
+      continue;
+    }
+
+    try {
+      // Reason: the sanitizer wraps the export in an error boundary and is not
+      // idempotent; exported panels were sanitized when first generated, so
+      // the validated source is imported unchanged and matches its history
+      const source = panel.source;
+
+      // A replaced panel keeps its own history; the import becomes its next revision
+      if (!panelRegistry.getPanel(id)) {
+        await revisionHistory.importRevisions(
+          id,
+          panel.revisions.filter(revision => !review.rejectedRevisions.includes(revision.number))
+        );
+      }
+      revisionHistory.label(id, source, { kind: 'import', author: 'user' });
+
+      // Trust and channel grants are not taken from a bundle; imported
+      // panels start sandboxed, without channel access
+      const metadata = {
+        ...panel.metadata,
+        createdAt: new Date(panel.metadata.createdAt),
+        updatedAt: new Date(panel.metadata.updatedAt),
+        trust: 'isolated' as const,
+        channels: undefined
+      };
+      const component = typeof source === 'string'
+        ? await panelRegistry.registerPanelFromJSX(id, source, metadata)
+        : await panelRegistry.registerPanelFromFiles(id, source, metadata);
+
+      panelEvents.emit('create-panel', { panelId: id, component });
+      result.imported.push(id);
+    } catch (error) {
+      result.failed.push({ id: panel.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`[PanelBundle] Imported ${result.imported.length} panels, skipped ${result.skipped.length}, failed ${result.failed.length}`);
+  return result;
+}
+
+function validateSource(source: string | PanelFileTree): Promise<SecurityValidationResult> {
+  return typeof source === 'string'
+    ? codeValidator.validateJSX(source)
+    : codeValidator.validatePanelFiles(source);
+}
+
+/**
+ * Finds an unused ID derived from a taken one.
+ */
+function freeId(id: string, taken: Set<string>): string {
+  let suffix = 2;
+  while (taken.has(`${id}-${suffix}`)) {
+    suffix++;
+  }
+  return `${id}-${suffix}`;
+}
+
+function isBundledPanel(panel: unknown): panel is BundledPanel {
+  return isRecord(panel) &&
+    typeof panel.id === 'string' &&
+    /^[\w-]+$/.test(panel.id) &&
+    typeof panel.name === 'string' &&
+    isPanelSource(panel.source) &&
+    isRecord(panel.metadata) &&
+    isDateString(panel.metadata.createdAt) &&
+    isDateString(panel.metadata.updatedAt) &&
+    Array.isArray(panel.revisions) &&
+    panel.revisions.every(isBundledRevision);
+}
+
+function isBundledRevision(revision: unknown): boolean {
+  return isRecord(revision) &&
+    typeof revision.number === 'number' &&
+    Number.isFinite(revision.timestamp) &&
+    isPanelSource(revision.source);
+}
+
+/**
+ * Checks that a value is panel code or a file tree of code.
+ */
+function isPanelSource(source: unknown): source is string | PanelFileTree {
+  return typeof source === 'string' || (
+    isRecord(source) &&
+    typeof source.entry === 'string' &&
+    isRecord(source.files) &&
+    Object.values(source.files).every(code => typeof code === 'string')
+  );
+}
+
+/**
+ * Checks that a value is a timestamp `new Date` can read, so dates survive
+ * the next export.
+ */
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
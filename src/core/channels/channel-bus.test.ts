@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PanelChannelBus, type ChannelMessage } from './channel-bus';
+
+describe('PanelChannelBus', () => {
+  let bus: PanelChannelBus;
+
+  beforeEach(() => {
+    bus = new PanelChannelBus();
+  });
+
+  describe('isolated panels', () => {
+    beforeEach(() => {
+      bus.setAccess('sender', undefined, 'isolated');
+      bus.setAccess('receiver', undefined, 'isolated');
+    });
+
+    it('may not publish or receive without a grant', () => {
+      const listener = vi.fn();
+      bus.subscribe('receiver', 'orders', listener);
+
+      expect(() => bus.publish('sender', 'orders', { id: 1 })).toThrow(/not allowed/);
+      expect(listener).not.toHaveBeenCalled();
+      expect(bus.getTraffic()[0]).toMatchObject({ outcome: 'blocked', sender: 'sender' });
+    });
+
+    it('do not receive retained messages without a grant', () => {
+      bus.setAccess('trusted', undefined, 'trusted');
+      bus.publish('trusted', 'orders', { id: 1 });
+
+      const listener = vi.fn();
+      bus.subscribe('receiver', 'orders', listener);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('use only the channels granted per direction', () => {
+      bus.setAccess('sender', { publishes: [], subscribes: [], allowedPublish: ['orders'] }, 'isolated');
+      bus.setAccess('receiver', { publishes: [], subscribes: [], allowedSubscribe: ['orders'] }, 'isolated');
+
+      const received: ChannelMessage[] = [];
+      bus.subscribe('receiver', 'orders', message => received.push(message));
+      bus.subscribe('receiver', 'orders.selected', message => received.push(message));
+
+      bus.publish('sender', 'orders', { id: 1 });
+      expect(() => bus.publish('sender', 'orders.selected', 1)).toThrow(/not allowed/);
+      expect(() => bus.publish('receiver', 'orders', 2)).toThrow(/not allowed/);
+      expect(received).toEqual([expect.objectContaining({ channel: 'orders', payload: { id: 1 }, sender: 'sender' })]);
+    });
+
+    it('receive the retained message once granted', () => {
+      bus.setAccess('trusted', undefined, 'trusted');
+      bus.publish('trusted', 'orders', { id: 1 });
+
+      const listener = vi.fn();
+      bus.subscribe('receiver', 'orders', listener);
+      bus.setAccess('receiver', { publishes: [], subscribes: ['orders'], allowedSubscribe: ['orders'] }, 'isolated');
+
+      expect(listener).toHaveBeenCalledOnce();
+      expect(listener.mock.calls[0][0]).toMatchObject({ payload: { id: 1 } });
+    });
+
+    it('lose access when the grant is revoked', () => {
+      bus.setAccess('sender', { publishes: [], subscribes: [], allowedPublish: ['orders'] }, 'isolated');
+      bus.publish('sender', 'orders', 1);
+
+      bus.setAccess('sender', { publishes: ['orders'], subscribes: [] }, 'isolated');
+      expect(() => bus.publish('sender', 'orders', 2)).toThrow(/not allowed/);
+    });
+  });
+
+  it('treats panels it was not told about as isolated', () => {
+    expect(bus.canPublish('unknown', 'orders')).toBe(false);
+    expect(bus.canSubscribe('unknown', 'orders')).toBe(false);
+  });
+
+  it('lets trusted panels use every channel', () => {
+    bus.setAccess('a', undefined, 'trusted');
+    bus.setAccess('b', undefined, 'trusted');
+
+    const listener = vi.fn();
+    bus.subscribe('b', 'orders', listener);
+    bus.publish('a', 'orders', 1);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('reports channels a panel uses for the first time', () => {
+    const onAccess = vi.fn();
+    bus.onAccessChange(onAccess);
+    bus.setAccess('panel', undefined, 'isolated');
+
+    bus.subscribe('panel', 'orders', () => {});
+    bus.subscribe('panel', 'orders', () => {});
+    expect(() => bus.publish('panel', 'orders', 1)).toThrow();
+
+    expect(onAccess).toHaveBeenCalledTimes(2);
+    expect(onAccess).toHaveBeenLastCalledWith('panel', { publishes: ['orders'], subscribes: ['orders'] });
+  });
+
+  it('forgets trust when a panel is removed', () => {
+    bus.setAccess('panel', undefined, 'trusted');
+    bus.removePanel('panel');
+    expect(bus.canPublish('panel', 'orders')).toBe(false);
+  });
+});
@@ -0,0 +1,346 @@
+import type { PanelChannelAccess, PanelTrust } from '../../types';
+import { formatBytes } from '../storage/panel-data-store';
+
+/**
+ * Panel Channel Bus
+ *
+ * Publish/subscribe messaging between panels, behind `usePanelChannel` in
+ * the panel SDK. Channels live in their own workspace-wide namespace, apart
+ * from the app's events, and are named like `orders` or `orders.selected`.
+ * Payloads must be JSON-serializable; subscribers get a copy. The last
+ * message of each channel is retained and delivered to panels that subscribe
+ * later, so they start from the current state.
+ *
+ * Isolated panels may only use the channels the user allowed them, per
+ * direction; trusted panels run in the app and could reach the bus anyway,
+ * so they may use any. Panels the bus has not been told about count as
+ * isolated. The bus records which channels each panel uses and reports it
+ * through `onAccessChange`; channel-sync keeps that in the panels' metadata,
+ * where the permissions come from.
+ */
+
+/** Largest payload a panel may publish */
+export const MAX_CHANNEL_PAYLOAD_BYTES = 64 * 1024;
+
+/** Messages kept for the traffic inspector */
+const MAX_TRAFFIC_ENTRIES = 200;
+
+const CHANNEL_NAME = /^[a-z][a-z0-9-]*(?:\.[a-z0-9-]+)*$/;
+const MAX_CHANNEL_NAME_LENGTH = 64;
+
+/** A message as delivered to subscribers */
+export interface ChannelMessage<T = unknown> {
+  channel: string;
+  payload: T;
+  /** ID of the publishing panel */
+  sender: string;
+  sentAt: number;
+}
+
+/** A publish attempt, as shown by the traffic inspector */
+export interface ChannelTrafficEntry {
+  id: number;
+  channel: string;
+  sender: string;
+  outcome: 'delivered' | 'blocked';
+  /** Panels the message was delivered to */
+  recipients: string[];
+  /** JSON of the payload, or why the publish was blocked */
+  detail: string;
+  sentAt: number;
+}
+
+/** State of a channel, for the traffic inspector */
+export interface ChannelSummary {
+  channel: string;
+  retained?: ChannelMessage;
+  subscribers: string[];
+}
+
+export type ChannelListener<T = unknown> = (message: ChannelMessage<T>) => void;
+
+interface Subscription {
+  panelId: string;
+  listener: ChannelListener;
+}
+
+export class PanelChannelBus {
+  private subscriptions: Map<string, Set<Subscription>> = new Map();
+  private retained: Map<string, ChannelMessage> = new Map();
+  private access: Map<string, PanelChannelAccess> = new Map();
+  private trusted: Set<string> = new Set();
+  private traffic: ChannelTrafficEntry[] = [];
+  private trafficListeners: Set<() => void> = new Set();
+  private accessListeners: Set<(panelId: string, access: PanelChannelAccess) => void> = new Set();
+  private nextId = 1;
+
+  /**
+   * Publishes a message, retained as the channel's current value.
+   *
+   * @param panelId - Publishing panel
+   * @param channel - Channel name
+   * @param payload - JSON-serializable payload
+   * @returns The delivered message
+   * @throws Error if the channel name or payload is invalid, or the panel may not publish to the channel
+   */
+  publish<T>(panelId: string, channel: string, payload: T): ChannelMessage<T> {
+    const sentAt = Date.now();
+    let json: string;
+    try {
+      validateChannel(channel);
+      this.recordUse(panelId, 'publishes', channel);
+      if (!this.canPublish(panelId, channel)) {
+        throw new Error(`Publishing to '${channel}' is not allowed for this panel - allow it in the panel's info section`);
+      }
+      json = serializePayload(channel, payload);
+    } catch (error) {
+      this.log({ channel: String(channel), sender: panelId, outcome: 'blocked', recipients: [], detail: (error as Error).message, sentAt });
+      throw error;
+    }
+
+    const message: ChannelMessage<T> = { channel, payload: JSON.parse(json), sender: panelId, sentAt };
+    this.retained.set(channel, message);
+
+    const recipients = new Set<string>();
+    for (const subscription of [...(this.subscriptions.get(channel) ?? [])]) {
+      if (!this.canSubscribe(subscription.panelId, channel)) continue;
+
+      recipients.add(subscription.panelId);
+      // Reason: every subscriber gets its own copy, so none can change
+      // what the others see
+      this.deliver(subscription, { ...message, payload: JSON.parse(json) });
+    }
+
+    this.log({ channel, sender: panelId, outcome: 'delivered', recipients: [...recipients], detail: json, sentAt });
+    return message;
+  }
+
+  /**
+   * Subscribes a panel to a channel. The retained message, if any, is
+   * delivered right away.
+   *
+   * @param panelId - Subscribing panel
+   * @param channel - Channel name
+   * @param listener - Called with each message the panel may receive
+   * @returns Function ending the subscription
+   * @throws Error if the channel name is invalid
+   */
+  subscribe<T>(panelId: string, channel: string, listener: ChannelListener<T>): () => void {
+    validateChannel(channel);
+    this.recordUse(panelId, 'subscribes', channel);
+
+    const subscription: Subscription = { panelId, listener: listener as ChannelListener };
+    let subscriptions = this.subscriptions.get(channel);
+    if (!subscriptions) {
+      subscriptions = new Set();
+      this.subscriptions.set(channel, subscriptions);
+    }
+    subscriptions.add(subscription);
+
+    const retained = this.retained.get(channel);
+    if (retained && this.canSubscribe(panelId, channel)) {
+      this.deliver(subscription, { ...retained, payload: cloneJSON(retained.payload) });
+    }
+
+    return () => {
+      subscriptions!.delete(subscription);
+      if (subscriptions!.size === 0 && this.subscriptions.get(channel) === subscriptions) {
+        this.subscriptions.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Checks whether a panel may publish to a channel.
+   *
+   * @param panelId - Panel identifier
+   * @param channel - Channel name
+   * @returns true if the panel is trusted or the user allowed it
+   */
+  canPublish(panelId: string, channel: string): boolean {
+    return this.trusted.has(panelId) || !!this.access.get(panelId)?.allowedPublish?.includes(channel);
+  }
+
+  /**
+   * Checks whether a panel may receive a channel's messages.
+   *
+   * @param panelId - Panel identifier
+   * @param channel - Channel name
+   * @returns true if the panel is trusted or the user allowed it
+   */
+  canSubscribe(panelId: string, channel: string): boolean {
+    return this.trusted.has(panelId) || !!this.access.get(panelId)?.allowedSubscribe?.includes(channel);
+  }
+
+  /**
+   * Sets a panel's channel access, as stored in its metadata. Subscriptions
+   * the change allows receive the channel's retained message.
+   *
+   * @param panelId - Panel identifier
+   * @param access - Used and allowed channels, or undefined to reset
+   * @param trust - Where the panel runs
+   */
+  setAccess(panelId: string, access: PanelChannelAccess | undefined, trust: PanelTrust): void {
+    const allowedBefore = new Set(
+      this.getSubscriptions(panelId)
+        .filter(([channel]) => this.canSubscribe(panelId, channel))
+        .map(([channel]) => channel)
+    );
+
+    if (access) {
+      this.access.set(panelId, access);
+    } else {
+      this.access.delete(panelId);
+    }
+    if (trust === 'trusted') {
+      this.trusted.add(panelId);
+    } else {
+      this.trusted.delete(panelId);
+    }
+
+    for (const [channel, subscription] of this.getSubscriptions(panelId)) {
+      const retained = this.retained.get(channel);
+      if (retained && !allowedBefore.has(channel) && this.canSubscribe(panelId, channel)) {
+        this.deliver(subscription, { ...retained, payload: cloneJSON(retained.payload) });
+      }
+    }
+  }
+
+  /**
+   * Listens for channels a panel uses for the first time.
+   *
+   * @param listener - Called with the panel's updated access
+   * @returns Function removing the listener
+   */
+  onAccessChange(listener: (panelId: string, access: PanelChannelAccess) => void): () => void {
+    this.accessListeners.add(listener);
+    return () => this.accessListeners.delete(listener);
+  }
+
+  /**
+   * Forgets a removed panel: its subscriptions and access.
+   *
+   * @param panelId - Panel identifier
+   */
+  removePanel(panelId: string): void {
+    for (const [channel, subscriptions] of this.subscriptions) {
+      subscriptions.forEach(subscription => {
+        if (subscription.panelId === panelId) subscriptions.delete(subscription);
+      });
+      if (subscriptions.size === 0) this.subscriptions.delete(channel);
+    }
+    this.access.delete(panelId);
+    this.trusted.delete(panelId);
+  }
+
+  /**
+   * Lists every channel with a retained message or subscribers.
+   *
+   * @returns Channels sorted by name
+   */
+  getChannels(): ChannelSummary[] {
+    const names = new Set([...this.retained.keys(), ...this.subscriptions.keys()]);
+    return [...names].sort().map(channel => ({
+      channel,
+      retained: this.retained.get(channel),
+      subscribers: [...new Set([...(this.subscriptions.get(channel) ?? [])].map(subscription => subscription.panelId))]
+    }));
+  }
+
+  /**
+   * Drops a channel's retained message, so later subscribers start empty.
+   *
+   * @param channel - Channel name
+   */
+  clearRetained(channel: string): void {
+    if (this.retained.delete(channel)) {
+      this.trafficListeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * Lists recent publish attempts.
+   *
+   * @returns Traffic, newest first
+   */
+  getTraffic(): ChannelTrafficEntry[] {
+    return [...this.traffic].reverse();
+  }
+
+  /**
+   * Listens for traffic and retained-value changes.
+   *
+   * @param listener - Called after each publish attempt
+   * @returns Function removing the listener
+   */
+  subscribeTraffic(listener: () => void): () => void {
+    this.trafficListeners.add(listener);
+    return () => this.trafficListeners.delete(listener);
+  }
+
+  private getSubscriptions(panelId: string): [string, Subscription][] {
+    const result: [string, Subscription][] = [];
+    for (const [channel, subscriptions] of this.subscriptions) {
+      subscriptions.forEach(subscription => {
+        if (subscription.panelId === panelId) result.push([channel, subscription]);
+      });
+    }
+    return result;
+  }
+
+  private recordUse(panelId: string, kind: 'publishes' | 'subscribes', channel: string): void {
+    const current = this.access.get(panelId) ?? { publishes: [], subscribes: [] };
+    if (current[kind].includes(channel)) return;
+
+    const next = { ...current, [kind]: [...current[kind], channel].sort() };
+    this.access.set(panelId, next);
+    this.accessListeners.forEach(listener => listener(panelId, next));
+  }
+
+  private deliver(subscription: Subscription, message: ChannelMessage): void {
+    try {
+      subscription.listener(message);
+    } catch (error) {
+      console.error(`[PanelChannelBus] Subscriber ${subscription.panelId} of '${message.channel}' failed:`, error);
+    }
+  }
+
+  private log(entry: Omit<ChannelTrafficEntry, 'id'>): void {
+    this.traffic.push({ id: this.nextId++, ...entry });
+    if (this.traffic.length > MAX_TRAFFIC_ENTRIES) {
+      this.traffic.splice(0, this.traffic.length - MAX_TRAFFIC_ENTRIES);
+    }
+    this.trafficListeners.forEach(listener => listener());
+  }
+}
+
+function validateChannel(channel: unknown): asserts channel is string {
+  if (typeof channel !== 'string' || channel.length > MAX_CHANNEL_NAME_LENGTH || !CHANNEL_NAME.test(channel)) {
+    throw new Error(`Invalid channel name '${String(channel)}' - use lowercase names like 'orders' or 'orders.selected'`);
+  }
+}
+
+function serializePayload(channel: string, payload: unknown): string {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(payload);
+  } catch {
+    json = undefined;
+  }
+  if (json === undefined) {
+    throw new Error(`Messages on '${channel}' must be JSON-serializable`);
+  }
+  if (json.length > MAX_CHANNEL_PAYLOAD_BYTES) {
+    throw new Error(`Message on '${channel}' exceeds ${formatBytes(MAX_CHANNEL_PAYLOAD_BYTES)}`);
+  }
+  return json;
+}
+
+function cloneJSON<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Create and export default instance
+const channelBus = new PanelChannelBus();
+
+export default channelBus;
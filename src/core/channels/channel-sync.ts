@@ -0,0 +1,42 @@
+import panelRegistry from '../registry/panel-registry';
+import { resolvePanelTrust } from '../sandbox/sandbox-protocol';
+import channelBus from './channel-bus';
+
+let disconnect: (() => void) | null = null;
+
+/**
+ * Keeps the channel bus and panel metadata in step: channels a panel starts
+ * using are recorded in its metadata, and the permissions set there and the
+ * panel's trust apply to the bus. Removed panels lose their subscriptions.
+ * Calling it again is a no-op.
+ *
+ * @returns Function that stops syncing
+ */
+export function connectChannels(): () => void {
+  if (disconnect) return disconnect;
+
+  // Reason: replay picks up panels restored before the bus connected
+  const unsubscribeEvents = panelRegistry.events.subscribe(['create-panel', 'panel-metadata-changed', 'remove-panel'], (event) => {
+    const { panelId } = event.payload;
+
+    const metadata = panelRegistry.getPanel(panelId)?.metadata;
+    if (event.type === 'remove-panel') {
+      channelBus.removePanel(panelId);
+    } else if (metadata) {
+      channelBus.setAccess(panelId, metadata.channels, resolvePanelTrust(metadata));
+    }
+  }, { replay: true });
+
+  const unsubscribeAccess = channelBus.onAccessChange((panelId, channels) => {
+    // Drafts and verification renders use channels without being panels yet
+    if (!panelRegistry.getPanel(panelId)) return;
+    panelRegistry.updatePanelMetadata(panelId, { channels });
+  });
+
+  disconnect = () => {
+    unsubscribeEvents();
+    unsubscribeAccess();
+    disconnect = null;
+  };
+  return disconnect;
+}
@@ -0,0 +1,293 @@
+import type { CompilationCacheStats, CompilerOptions } from '../../types';
+import { COMPILER_VERSION } from './transform';
+import type { TransformOutput } from './transform';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from '../storage/idb';
+
+/**
+ * Content-addressed Compilation Cache
+ *
+ * Caches transform output under a hash of source, compiler options and compiler
+ * version, so identical panels are never compiled twice. Entries live in an
+ * in-memory LRU and are persisted to IndexedDB, which lets a reload restore
+ * every panel without any Babel work. Only transform output is cached - blob
+ * URLs do not survive a reload, so linking always runs again.
+ */
+
+const DB_NAME = 'ui-madness-compilation-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'compilations';
+
+interface CacheRecord {
+  key: string;
+  /** Hash of the compiler's default options when the entry was written */
+  defaultsKey: string;
+  version: string;
+  output: TransformOutput;
+  lastUsed: number;
+}
+
+export class CompilationCache {
+  private memory: Map<string, CacheRecord> = new Map();
+  private db: Promise<IDBDatabase | null> | null = null;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(
+    private maxEntries: number = 100,
+    private maxPersistedEntries: number = 500
+  ) {}
+
+  /**
+   * Computes the cache key for a compilation.
+   *
+   * @param source - Panel source code
+   * @param options - Fully resolved compiler options
+   * @returns Hex digest identifying source, options and compiler version
+   */
+  async computeKey(source: string, options: CompilerOptions): Promise<string> {
+    return hashString(stableStringify({ source, options, version: COMPILER_VERSION }));
+  }
+
+  /**
+   * Computes a key identifying a set of compiler options.
+   *
+   * @param options - Compiler options
+   * @returns Hex digest of the options
+   */
+  async computeOptionsKey(options: CompilerOptions): Promise<string> {
+    return hashString(stableStringify({ options, version: COMPILER_VERSION }));
+  }
+
+  /**
+   * Looks up a compilation, checking memory first and then IndexedDB.
+   *
+   * @param key - Cache key from computeKey
+   * @returns Cached transform output, or undefined on a miss
+   */
+  async get(key: string): Promise<TransformOutput | undefined> {
+    let record = this.memory.get(key);
+
+    if (!record) {
+      record = await this.readPersisted(key);
+    }
+
+    if (!record || record.version !== COMPILER_VERSION) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    record.lastUsed = Date.now();
+    this.remember(record);
+    return record.output;
+  }
+
+  /**
+   * Stores a compilation in memory and IndexedDB.
+   *
+   * @param key - Cache key from computeKey
+   * @param output - Transform output to cache
+   * @param defaultsKey - Options key of the compiler defaults in effect
+   */
+  async set(key: string, output: TransformOutput, defaultsKey: string): Promise<void> {
+    const record: CacheRecord = { key, defaultsKey, version: COMPILER_VERSION, output, lastUsed: Date.now() };
+    this.remember(record);
+
+    const db = await this.openStore();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.put(record);
+
+      const count = await requestToPromise(store.count());
+      if (count > this.maxPersistedEntries) {
+        await this.deleteOldest(store, count - this.maxPersistedEntries);
+      }
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[CompilationCache] Failed to persist compilation:', error);
+    }
+  }
+
+  /**
+   * Drops entries compiled under other compiler defaults or an older compiler
+   * version. Called whenever the compiler's default options change.
+   *
+   * @param defaultsKey - Options key of the defaults now in effect
+   */
+  async invalidate(defaultsKey: string): Promise<void> {
+    const isStale = (record: CacheRecord) =>
+      record.defaultsKey !== defaultsKey || record.version !== COMPILER_VERSION;
+
+    for (const [key, record] of this.memory) {
+      if (isStale(record)) {
+        this.memory.delete(key);
+      }
+    }
+
+    const db = await this.openStore();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if (isStale(cursor.value as CacheRecord)) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[CompilationCache] Failed to invalidate persisted compilations:', error);
+    }
+  }
+
+  /**
+   * Removes every cached compilation.
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    const db = await this.openStore();
+    if (!db) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Gets hit/miss statistics.
+   */
+  getStats(): CompilationCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.memory.size,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+
+  /**
+   * Inserts a record as most recently used, evicting the least recently used.
+   */
+  private remember(record: CacheRecord): void {
+    // Reason: Map iteration follows insertion order, so re-inserting moves the
+    // record to the end and the first key is always the least recently used
+    this.memory.delete(record.key);
+    this.memory.set(record.key, record);
+
+    while (this.memory.size > this.maxEntries) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  private async readPersisted(key: string): Promise<CacheRecord | undefined> {
+    const db = await this.openStore();
+    if (!db) return undefined;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      return await requestToPromise<CacheRecord | undefined>(transaction.objectStore(STORE_NAME).get(key));
+    } catch (error) {
+      console.warn('[CompilationCache] Failed to read persisted compilation:', error);
+      return undefined;
+    }
+  }
+
+  private deleteOldest(store: IDBObjectStore, count: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let remaining = count;
+      const cursorRequest = store.index('lastUsed').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || remaining <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        remaining--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  /**
+   * Opens the database once; resolves to null when persistence is unavailable.
+   */
+  private openStore(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = isIndexedDBAvailable()
+        ? openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('lastUsed', 'lastUsed');
+          }).catch((error) => {
+            console.warn('[CompilationCache] IndexedDB unavailable, caching in memory only:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Points a cached output's source map at the file being compiled, since the
+ * same source may have been compiled for a different panel first.
+ *
+ * @param output - Cached transform output
+ * @param fileName - Virtual file name the output is being linked as
+ * @returns Output whose source map names that file
+ */
+export function withSourceName(output: TransformOutput, fileName: string): TransformOutput {
+  if (!output.map) {
+    return output;
+  }
+
+  return {
+    ...output,
+    map: { ...output.map, file: fileName, sources: [fileName] }
+  };
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal options always
+ * produce equal keys regardless of property order.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+    }
+    return nested;
+  });
+}
+
+/**
+ * Hashes a string with SHA-256, falling back to a 64-bit FNV-1a digest where
+ * SubtleCrypto is unavailable (it requires a secure context).
+ */
+async function hashString(input: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Two FNV-1a passes with different offset bases make up a 64-bit digest
+  let h1 = 0x811c9dc5;
+  let h2 = 0xcbf29ce4;
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 0x01000193) >>> 0;
+    h2 = Math.imul(h2 ^ char, 0x01000193) >>> 0;
+  }
+  return `fnv-${h1.toString(16).padStart(8, '0')}${h2.toString(16).padStart(8, '0')}`;
+}
@@ -0,0 +1,31 @@
+import * as Babel from '@babel/standalone';
+import { isValidSyntax, transformPanelSource } from './transform';
+import type { BabelStandalone, CompilerWorkerRequest, CompilerWorkerResponse } from './transform';
+
+/**
+ * Compiler Worker
+ *
+ * Runs the Babel transform step off the main thread. Requests are handled one
+ * at a time in arrival order; linking into blob modules stays on the main thread.
+ */
+
+const babel = Babel as BabelStandalone;
+
+self.onmessage = (event: MessageEvent<CompilerWorkerRequest>) => {
+  const request = event.data;
+  let response: CompilerWorkerResponse;
+
+  try {
+    if (request.type === 'compile') {
+      const output = transformPanelSource(babel, request.jsxCode, request.componentName, request.options);
+      response = { id: request.id, type: 'compiled', output };
+    } else {
+      response = { id: request.id, type: 'validated', valid: isValidSyntax(babel, request.jsxCode, request.options) };
+    }
+  } catch (error) {
+    const { message, stack } = error instanceof Error ? error : new Error(String(error));
+    response = { id: request.id, type: 'error', message, stack };
+  }
+
+  self.postMessage(response);
+};
@@ -0,0 +1,178 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as JSXRuntime from 'react/jsx-runtime';
+import * as PanelErrorBoundary from './panel-error-boundary';
+import * as PanelSDK from '../sdk/panel-sdk';
+
+/**
+ * Module Resolver for blob-URL panel modules
+ *
+ * Browsers cannot resolve bare specifiers like `react` from a blob URL, so every
+ * allowed specifier is mapped to a small shim module that re-exports the exact
+ * module instance the host app uses. The set of registered specifiers is also the
+ * import allowlist used by the code validator, so the two can never drift apart.
+ */
+
+type ModuleNamespace = Record<string, unknown>;
+
+const VALID_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export class ModuleResolver {
+  private modules: Map<string, ModuleNamespace> = new Map();
+  private shimUrls: Map<string, string> = new Map();
+
+  constructor() {
+    window.__PANEL_MODULES__ = {};
+
+    this.register('react', React);
+    this.register('react/jsx-runtime', JSXRuntime);
+    this.register('react-dom', ReactDOM);
+    this.register('react-error-boundary', PanelErrorBoundary);
+    this.register('ui-madness/sdk', PanelSDK);
+  }
+
+  /**
+   * Makes a host module available to panel code under a bare specifier.
+   *
+   * @param specifier - Bare import specifier, e.g. `react`
+   * @param namespace - Module namespace object to expose
+   */
+  register(specifier: string, namespace: ModuleNamespace): void {
+    const existingShim = this.shimUrls.get(specifier);
+    if (existingShim) {
+      URL.revokeObjectURL(existingShim);
+      this.shimUrls.delete(specifier);
+    }
+
+    this.modules.set(specifier, namespace);
+    window.__PANEL_MODULES__[specifier] = namespace;
+  }
+
+  /**
+   * Checks whether a specifier can be imported by panel code.
+   *
+   * @param specifier - Import specifier
+   * @returns true if the specifier is registered
+   */
+  canResolve(specifier: string): boolean {
+    return this.modules.has(specifier);
+  }
+
+  /**
+   * Lists every specifier panel code may import.
+   *
+   * @returns Registered specifiers
+   */
+  getAllowedSpecifiers(): string[] {
+    return Array.from(this.modules.keys());
+  }
+
+  /**
+   * Resolves a bare specifier to an importable shim module URL.
+   *
+   * @param specifier - Import specifier
+   * @returns Blob URL of the shim module
+   * @throws Error if the specifier is not registered
+   */
+  resolve(specifier: string): string {
+    const cached = this.shimUrls.get(specifier);
+    if (cached) {
+      return cached;
+    }
+
+    const namespace = this.modules.get(specifier);
+    if (!namespace) {
+      throw new Error(`Cannot resolve module '${specifier}' - allowed modules: ${this.getAllowedSpecifiers().join(', ')}`);
+    }
+
+    const url = this.createShim(specifier, namespace);
+    this.shimUrls.set(specifier, url);
+    return url;
+  }
+
+  /**
+   * Lists the import/export specifiers of compiled code.
+   *
+   * @param compiledCode - Compiled ES module code
+   * @returns Specifiers in source order
+   */
+  getImportSpecifiers(compiledCode: string): string[] {
+    return this.findSources(compiledCode).map(source => source.value);
+  }
+
+  /**
+   * Rewrites the import/export specifiers of compiled code to resolvable URLs.
+   * Only the specifier strings are replaced, so line numbers are preserved.
+   *
+   * @param compiledCode - Compiled ES module code
+   * @param resolveSpecifier - Resolution function (defaults to this resolver)
+   * @returns Module code with every specifier resolved
+   */
+  linkImports(
+    compiledCode: string,
+    resolveSpecifier: (specifier: string) => string = specifier => this.resolve(specifier)
+  ): string {
+    const sources = this.findSources(compiledCode);
+
+    // Replace from the end so earlier offsets stay valid
+    let linked = compiledCode;
+    for (const source of sources.sort((a, b) => b.start - a.start)) {
+      const url = resolveSpecifier(source.value);
+      linked = linked.slice(0, source.start) + JSON.stringify(url) + linked.slice(source.end);
+    }
+
+    return linked;
+  }
+
+  /**
+   * Finds the source string literals of import/export declarations.
+   */
+  private findSources(compiledCode: string): { start: number; end: number; value: string }[] {
+    const ast = window.Babel.packages.parser.parse(compiledCode, { sourceType: 'module' });
+    const sources: { start: number; end: number; value: string }[] = [];
+
+    for (const statement of ast.program.body) {
+      if (
+        (statement.type === 'ImportDeclaration' ||
+          statement.type === 'ExportNamedDeclaration' ||
+          statement.type === 'ExportAllDeclaration') &&
+        statement.source
+      ) {
+        sources.push(statement.source);
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Creates a blob module re-exporting a host module namespace.
+   */
+  private createShim(specifier: string, namespace: ModuleNamespace): string {
+    const key = JSON.stringify(specifier);
+    const named = Object.keys(namespace)
+      .filter(name => name !== 'default' && VALID_IDENTIFIER.test(name))
+      .map(name => `export const ${name} = __module.${name};`);
+
+    const shimCode = [
+      `// Host module shim: ${specifier}`,
+      `const __module = window.__PANEL_MODULES__[${key}];`,
+      `export default ('default' in __module ? __module.default : __module);`,
+      ...named
+    ].join('\n');
+
+    const blob = new Blob([shimCode], { type: 'application/javascript' });
+    return URL.createObjectURL(blob);
+  }
+}
+
+declare global {
+  interface Window {
+    __PANEL_MODULES__: Record<string, Record<string, unknown>>;
+  }
+}
+
+// Create and export default instance
+const moduleResolver = new ModuleResolver();
+
+export default moduleResolver;
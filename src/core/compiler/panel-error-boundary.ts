@@ -0,0 +1,38 @@
+import { Component, createElement } from 'react';
+import type { ErrorInfo, ReactNode } from 'react';
+
+interface PanelErrorBoundaryProps {
+  children?: ReactNode;
+  fallback?: ReactNode;
+  onError?: (error: Error, errorInfo: ErrorInfo) => void;
+}
+
+interface PanelErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Error boundary served to panel modules as `react-error-boundary`.
+ *
+ * Implements the subset of that package's API used by sanitized panel code
+ * (`fallback` element and `onError` callback), so the import resolves to
+ * host code instead of an unavailable npm package.
+ */
+export class ErrorBoundary extends Component<PanelErrorBoundaryProps, PanelErrorBoundaryState> {
+  state: PanelErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): PanelErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    this.props.onError?.(error, errorInfo);
+  }
+
+  render() {
+    if (this.state.error) {
+      return this.props.fallback ?? createElement('div', null, 'Component Error');
+    }
+    return this.props.children ?? null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Multi-file panel helpers
+ *
+ * Path resolution and module ordering for panels made of several files.
+ * Panel files live in a flat virtual tree keyed by path; relative imports
+ * between them are resolved here and rewritten to blob URLs at link time.
+ */
+
+/** Extensions tried, in order, for imports written without one */
+const RESOLVABLE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Checks whether an import specifier points at another panel file.
+ *
+ * @param specifier - Import specifier
+ * @returns true for `./` and `../` specifiers
+ */
+export function isRelativeSpecifier(specifier: string): boolean {
+  return specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+/**
+ * Normalizes a panel file path: no leading `./` or `/`, no `.` or `..` segments.
+ *
+ * @param path - Path relative to the panel root
+ * @returns Normalized path, or undefined if it escapes the panel root
+ */
+export function normalizePanelPath(path: string): string | undefined {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return undefined;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Resolves a relative import to a file of the panel, trying known extensions
+ * and `index` files like a bundler would.
+ *
+ * @param fromPath - Path of the importing file
+ * @param specifier - Relative import specifier
+ * @param files - Panel files keyed by path
+ * @returns Path of the imported file, or undefined if no file matches
+ */
+export function resolvePanelImport(
+  fromPath: string,
+  specifier: string,
+  files: Record<string, unknown>
+): string | undefined {
+  const directory = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : '';
+  const target = normalizePanelPath(`${directory}/${specifier}`);
+  if (target === undefined) return undefined;
+
+  const candidates = [
+    target,
+    ...RESOLVABLE_EXTENSIONS.map(extension => `${target}${extension}`),
+    ...RESOLVABLE_EXTENSIONS.map(extension => `${target}/index${extension}`)
+  ];
+
+  return candidates.find(candidate => candidate !== '' && candidate in files);
+}
+
+/**
+ * Orders the modules reachable from the entry so every module comes after
+ * the modules it imports. Blob URLs are fixed once created, so a module can
+ * only be linked after its dependencies - which also rules out import cycles.
+ *
+ * @param entry - Path of the entry module
+ * @param importsOf - Returns the panel files a module imports
+ * @returns Paths in dependency order, ending with the entry
+ * @throws Error if the imports form a cycle
+ */
+export function orderPanelModules(entry: string, importsOf: (path: string) => string[]): string[] {
+  const ordered: string[] = [];
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (path: string) => {
+    if (done.has(path)) return;
+
+    if (visiting.includes(path)) {
+      const cycle = [...visiting.slice(visiting.indexOf(path)), path].join(' -> ');
+      throw new Error(`Circular import between panel files: ${cycle}`);
+    }
+
+    visiting.push(path);
+    for (const dependency of importsOf(path)) {
+      visit(dependency);
+    }
+    visiting.pop();
+
+    done.add(path);
+    ordered.push(path);
+  };
+
+  visit(entry);
+  return ordered;
+}
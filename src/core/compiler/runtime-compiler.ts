@@ -1,14 +1,32 @@
-import type { CompilerOptions, CompilationResult } from '../../types';
+import type { CompilerOptions, CompilationResult, RawSourceMap } from '../../types';
+import { isValidSyntax, transformPanelSource } from './transform';
+import type { TransformOutput } from './transform';
+import moduleResolver from './module-resolver';
+import { isRelativeSpecifier } from './panel-files';
+import sourceMapIndex, { offsetSourceMap, toInlineSourceMapComment } from './source-map';
+
+/** Options for linking transform output into a module. */
+export interface ModuleLinkOptions {
+  /** Panel the module belongs to (defaults to the component name) */
+  panelId?: string;
+  /** Resolves relative specifiers to the URLs of sibling panel modules */
+  resolveRelative?: (specifier: string) => string;
+  /** Whether the module must export a component - false for helper files */
+  requireComponent?: boolean;
+}
 
 /**
  * Runtime JSX Compiler using Babel Standalone
  * 
  * Enables dynamic compilation of JSX code in the browser for AI-generated components.
- * Uses Babel Standalone for real-time compilation with HMR integration.
+ * Uses Babel Standalone for real-time compilation with HMR integration. TSX input
+ * is supported: types are stripped, never checked.
  */
 export class RuntimeJSXCompiler {
   private babel: typeof window.Babel;
   private defaultOptions: CompilerOptions;
+  // Blob URLs created by this compiler and not revoked yet
+  private liveModules: Map<string, { panelId: string; bytes: number }> = new Map();
 
   constructor(options: Partial<CompilerOptions> = {}) {
     this.babel = window.Babel;
@@ -18,45 +36,36 @@ export class RuntimeJSXCompiler {
     }
 
     this.defaultOptions = {
-      presets: ['react'],
-      plugins: [
-        ['@babel/plugin-transform-react-jsx', { runtime: 'automatic' }]
+      presets: [
+        ['react', { runtime: 'automatic' }]
       ],
+      plugins: [],
       sourceMaps: true,
+      language: 'auto',
+      // React Refresh only works with development builds of React
+      refresh: import.meta.env.DEV,
       ...options
     };
   }
 
   /**
-   * Compiles JSX code to JavaScript and creates a module URL for dynamic loading.
+   * Compiles JSX or TSX code to JavaScript and creates a module URL for dynamic loading.
    * 
-   * @param jsxCode - The JSX source code to compile
+   * @param jsxCode - The JSX/TSX source code to compile
    * @param componentName - Name for the component (used in module creation)
+   * @param options - Per-call overrides, e.g. an explicit `language`
    * @returns Promise resolving to compilation result
    */
-  async compileComponent(jsxCode: string, componentName: string): Promise<CompilationResult> {
+  async compileComponent(
+    jsxCode: string,
+    componentName: string,
+    options: Partial<CompilerOptions> = {}
+  ): Promise<CompilationResult> {
     try {
-      // Validate input
-      if (!jsxCode.trim()) {
-        throw new Error('JSX code cannot be empty');
-      }
-
-      // Compile JSX to JavaScript
-      const result = this.babel.transform(jsxCode, this.defaultOptions);
-      
-      if (!result.code) {
-        throw new Error('Compilation failed: no code generated');
-      }
-
-      // Create module URL for HMR
-      const moduleUrl = this.createModuleBlob(result.code, componentName);
+      // Compile JSX/TSX to JavaScript
+      const output = transformPanelSource(this.babel, jsxCode, componentName, this.resolveOptions(options));
 
-      return {
-        success: true,
-        code: result.code,
-        moduleUrl,
-        warnings: []
-      };
+      return this.createModule(output, componentName);
     } catch (error) {
       console.error('[RuntimeJSXCompiler] Compilation failed:', error);
       return {
@@ -66,57 +75,148 @@ export class RuntimeJSXCompiler {
     }
   }
 
+  /**
+   * Links transform output into an importable module.
+   * 
+   * @param output - Output of the transform step (possibly computed in a worker)
+   * @param componentName - Name for the component (used in module creation)
+   * @param link - How to resolve relative imports and what the module must export
+   * @returns Successful compilation result with a module URL
+   * @throws Error if an import cannot be resolved or no component is exported
+   */
+  createModule(output: TransformOutput, componentName: string, link: ModuleLinkOptions = {}): CompilationResult {
+    // Create module URL for HMR
+    const { moduleUrl, map } = this.createModuleBlob(output.code, componentName, output.map, link);
+
+    return {
+      success: true,
+      code: output.code,
+      map,
+      moduleUrl,
+      warnings: output.warnings,
+      language: output.language
+    };
+  }
+
+  /**
+   * Merges option overrides into the compiler's default options.
+   * 
+   * @param options - New default option values
+   */
+  setDefaultOptions(options: Partial<CompilerOptions>): void {
+    this.defaultOptions = { ...this.defaultOptions, ...options };
+  }
+
+  /**
+   * Merges per-call overrides with the compiler's default options.
+   * 
+   * @param options - Per-call compiler option overrides
+   * @returns Fully resolved compiler options
+   */
+  resolveOptions(options: Partial<CompilerOptions> = {}): CompilerOptions {
+    return { ...this.defaultOptions, ...options };
+  }
+
   /**
    * Creates a blob URL for the compiled module to enable dynamic imports.
    * 
    * @param compiledCode - The compiled JavaScript code
-   * @param componentName - Name of the component
-   * @returns Blob URL for the module
+   * @param componentName - Name of the component (the panel ID for registry compiles)
+   * @param compiledMap - Source map of the compiled code, if generated
+   * @param link - How to resolve relative imports and what the module must export
+   * @returns Blob URL for the module and the module's source map
    */
-  private createModuleBlob(compiledCode: string, componentName: string): string {
-    // Wrap the compiled code in a proper ES module format
-    const moduleCode = `
-      // Generated panel module: ${componentName}
-      import React from 'react';
-      import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from 'react/jsx-runtime';
-      
-      ${compiledCode}
-      
-      // Ensure the component is exported
-      const ComponentToExport = typeof ${componentName} !== 'undefined' ? ${componentName} : 
-                                typeof Component !== 'undefined' ? Component :
-                                (() => React.createElement('div', { className: 'p-4 text-red-500' }, 
-                                  'Error: No valid component found in generated code'));
-      
-      export default ComponentToExport;
-      
-      // HMR support
-      if (import.meta.hot) {
-        import.meta.hot.accept();
+  private createModuleBlob(
+    compiledCode: string,
+    componentName: string,
+    compiledMap: RawSourceMap | undefined,
+    link: ModuleLinkOptions
+  ): { moduleUrl: string; map?: RawSourceMap } {
+    const { panelId = componentName, resolveRelative, requireComponent = true } = link;
+
+    // Reason: bare specifiers cannot be resolved from a blob URL, so they are
+    // rewritten to shim modules backed by the host's own React instance
+    const linkedCode = moduleResolver.linkImports(compiledCode, specifier => {
+      if (isRelativeSpecifier(specifier)) {
+        if (!resolveRelative) {
+          throw new Error(`Cannot resolve relative import '${specifier}' - the panel has no other files`);
+        }
+        return resolveRelative(specifier);
       }
-    `;
+      return moduleResolver.resolve(specifier);
+    });
+
+    const header = [
+      `// Generated panel module: ${componentName}`,
+      this.buildRefreshPrelude(panelId, componentName)
+    ];
+    const map = compiledMap ? offsetSourceMap(compiledMap, header.length) : undefined;
+
+    const moduleCode = [
+      ...header,
+      linkedCode,
+      requireComponent ? this.buildDefaultExportFallback(compiledCode) : '',
+      '// HMR support',
+      'if (import.meta.hot) {',
+      '  import.meta.hot.accept();',
+      '}',
+      map ? toInlineSourceMapComment(map) : ''
+    ].join('\n');
     
     const blob = new Blob([moduleCode], { type: 'application/javascript' });
-    return URL.createObjectURL(blob);
+    const moduleUrl = URL.createObjectURL(blob);
+    this.liveModules.set(moduleUrl, { panelId, bytes: blob.size });
+
+    if (map) {
+      sourceMapIndex.register(moduleUrl, panelId, map);
+    }
+
+    return { moduleUrl, map };
   }
 
   /**
-   * Validates JSX syntax without full compilation.
+   * Binds the `$RefreshReg$` / `$RefreshSig$` calls emitted by the React
+   * Refresh transform to the panel's refresh runtime, or to no-ops without one.
    * 
-   * @param jsxCode - JSX code to validate
-   * @returns true if syntax is valid, false otherwise
+   * @param panelId - Panel the module belongs to
+   * @param moduleId - Stable module identity across versions of the panel
+   * @returns Single-line prelude declaring both bindings
    */
-  validateSyntax(jsxCode: string): boolean {
-    try {
-      this.babel.transform(jsxCode, {
-        ...this.defaultOptions,
-        code: false // Only parse, don't generate code
-      });
-      return true;
-    } catch (error) {
-      console.warn('[RuntimeJSXCompiler] Syntax validation failed:', error);
-      return false;
+  private buildRefreshPrelude(panelId: string, moduleId: string): string {
+    return `const { register: $RefreshReg$, signature: $RefreshSig$ } = ` +
+      `window.__PANEL_REFRESH__?.forModule(${JSON.stringify(panelId)}, ${JSON.stringify(moduleId)}) ?? ` +
+      `{ register: () => {}, signature: () => (type) => type };`;
+  }
+
+  /**
+   * Builds a default export for modules that only declare their component.
+   * 
+   * @param compiledCode - The compiled JavaScript code
+   * @returns Export statement, or an empty string if one already exists
+   * @throws Error if no component declaration can be found
+   */
+  buildDefaultExportFallback(compiledCode: string): string {
+    if (/^export\s+default\b|\bas\s+default\s*[,}]/m.test(compiledCode)) {
+      return '';
+    }
+
+    const componentName = this.extractComponentName(compiledCode);
+    if (!new RegExp(`(?:function|class|const|let|var)\\s+${componentName}\\b`).test(compiledCode)) {
+      throw new Error('No valid component found in generated code');
     }
+
+    return `export default ${componentName};`;
+  }
+
+  /**
+   * Validates JSX/TSX syntax without full compilation.
+   * 
+   * @param jsxCode - JSX or TSX code to validate
+   * @param options - Per-call overrides, e.g. an explicit `language`
+   * @returns true if syntax is valid, false otherwise
+   */
+  validateSyntax(jsxCode: string, options: Partial<CompilerOptions> = {}): boolean {
+    return isValidSyntax(this.babel, jsxCode, this.resolveOptions(options));
   }
 
   /**
@@ -164,14 +264,34 @@ export class RuntimeJSXCompiler {
     return dependencies;
   }
 
+  /**
+   * Counts the module URLs that have been created and not revoked yet.
+   * 
+   * @param panelId - Only count modules of this panel
+   * @returns Number of live module URLs and the size of their blobs in bytes
+   */
+  getLiveModules(panelId?: string): { urls: number; bytes: number } {
+    let urls = 0;
+    let bytes = 0;
+    for (const module of this.liveModules.values()) {
+      if (panelId === undefined || module.panelId === panelId) {
+        urls++;
+        bytes += module.bytes;
+      }
+    }
+    return { urls, bytes };
+  }
+
   /**
    * Cleans up blob URLs to prevent memory leaks.
    * 
    * @param moduleUrl - Blob URL to revoke
    */
   cleanupModuleUrl(moduleUrl: string): void {
+    this.liveModules.delete(moduleUrl);
     if (moduleUrl.startsWith('blob:')) {
       URL.revokeObjectURL(moduleUrl);
+      sourceMapIndex.unregister(moduleUrl);
     }
   }
 }
@@ -0,0 +1,256 @@
+import type { MappedPanelError, RawSourceMap, SourceLocation } from '../../types';
+import panelEvents from '../registry/panel-events';
+
+/**
+ * Source map support for compiled panel modules
+ *
+ * Decodes the maps produced by the runtime compiler and translates `blob:` stack
+ * frames back to line and column in the panel's original source.
+ */
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64_CHARS, (char, index) => [char, index]));
+
+// Matches `blob:<url>:<line>:<column>` in Chrome, Firefox and Safari stack frames
+const BLOB_FRAME_PATTERN = /(blob:[^\s()@]+?):(\d+):(\d+)/g;
+
+/** A decoded mapping: [generatedColumn, sourceIndex, originalLine, originalColumn] (0-based) */
+type Segment = [number, number, number, number];
+
+export interface OriginalPosition {
+  sourceIndex: number;
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+}
+
+/**
+ * Decoded source map supporting generated-to-original position lookups.
+ */
+export class PanelSourceMap {
+  private lines: Segment[][];
+
+  constructor(private raw: RawSourceMap) {
+    this.lines = decodeMappings(raw.mappings);
+  }
+
+  /**
+   * Finds the original position for a generated position.
+   *
+   * @param line - 1-based generated line
+   * @param column - 0-based generated column
+   * @returns Original position, or null if the position is unmapped
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    // Last segment starting at or before the column; fall back to the first one
+    let match = segments[0];
+    for (const segment of segments) {
+      if (segment[0] > column) break;
+      match = segment;
+    }
+
+    return { sourceIndex: match[1], line: match[2] + 1, column: match[3] };
+  }
+
+  getSourceName(index: number): string {
+    return this.raw.sources[index] ?? 'unknown';
+  }
+
+  getSourceContent(index: number): string | undefined {
+    return this.raw.sourcesContent?.[index] ?? undefined;
+  }
+}
+
+/**
+ * Decodes a VLQ `mappings` string into absolute segments per generated line.
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const lineMappings of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of lineMappings.split(',')) {
+      if (!encoded) continue;
+
+      const fields = decodeVLQ(encoded);
+      generatedColumn += fields[0];
+      if (fields.length >= 4) {
+        sourceIndex += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+      }
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+/**
+ * Decodes one Base64 VLQ segment into its signed integer fields.
+ */
+function decodeVLQ(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map character: ${char}`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Shifts a source map down by a number of generated lines, e.g. to account
+ * for a header prepended to the compiled code.
+ *
+ * @param map - Source map of the compiled code
+ * @param lines - Number of lines prepended
+ * @returns Source map of the resulting module
+ */
+export function offsetSourceMap(map: RawSourceMap, lines: number): RawSourceMap {
+  return { ...map, mappings: ';'.repeat(lines) + map.mappings };
+}
+
+/**
+ * Serializes a source map as an inline `sourceMappingURL` comment.
+ *
+ * @param map - Source map to embed
+ * @returns Comment line to append to a module
+ */
+export function toInlineSourceMapComment(map: RawSourceMap): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(map));
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${btoa(binary)}`;
+}
+
+/**
+ * Index of live panel modules, used to translate errors thrown by panel code.
+ */
+export class SourceMapIndex {
+  private modules: Map<string, { panelId: string; sourceMap: PanelSourceMap }> = new Map();
+
+  constructor() {
+    window.addEventListener('error', (event) => this.handleRuntimeError(event.error));
+    window.addEventListener('unhandledrejection', (event) => this.handleRuntimeError(event.reason));
+  }
+
+  /**
+   * Registers the source map of a panel module.
+   *
+   * @param moduleUrl - Blob URL of the module
+   * @param panelId - Panel the module belongs to
+   * @param map - Source map of the module
+   */
+  register(moduleUrl: string, panelId: string, map: RawSourceMap): void {
+    this.modules.set(moduleUrl, { panelId, sourceMap: new PanelSourceMap(map) });
+  }
+
+  /**
+   * Forgets a module, typically when its blob URL is revoked.
+   *
+   * @param moduleUrl - Blob URL of the module
+   */
+  unregister(moduleUrl: string): void {
+    this.modules.delete(moduleUrl);
+  }
+
+  /**
+   * Translates an error's stack to panel source locations.
+   *
+   * @param error - Error thrown by (or through) panel code
+   * @returns Mapped error for the innermost panel frame, or null if no frame
+   *   belongs to a known panel module
+   */
+  mapError(error: unknown): MappedPanelError | null {
+    const stack = error instanceof Error ? error.stack : undefined;
+    if (!stack) {
+      return null;
+    }
+
+    const panelFrames: Omit<MappedPanelError, 'stack'>[] = [];
+
+    const mappedStack = stack.replace(BLOB_FRAME_PATTERN, (frame, url: string, line: string, column: string) => {
+      const module = this.modules.get(url);
+      if (!module) {
+        return frame;
+      }
+
+      // Stack columns are 1-based, source map columns 0-based
+      const position = module.sourceMap.originalPositionFor(Number(line), Number(column) - 1);
+      if (!position) {
+        return frame;
+      }
+
+      const location: SourceLocation = { line: position.line, column: position.column + 1 };
+      const sourceName = module.sourceMap.getSourceName(position.sourceIndex);
+
+      panelFrames.push({
+        panelId: module.panelId,
+        sourceName,
+        sourceContent: module.sourceMap.getSourceContent(position.sourceIndex),
+        location
+      });
+
+      return `${sourceName}:${location.line}:${location.column}`;
+    });
+
+    // Stacks list the innermost frame first
+    return panelFrames.length > 0 ? { ...panelFrames[0], stack: mappedStack } : null;
+  }
+
+  /**
+   * Reports uncaught errors from panel code (event handlers, effects, timers)
+   * with their source location.
+   */
+  private handleRuntimeError(error: unknown): void {
+    const mapped = this.mapError(error);
+    if (!mapped) {
+      return;
+    }
+
+    console.error(
+      `[SourceMapIndex] Runtime error in panel ${mapped.panelId} at ${mapped.sourceName}:${mapped.location.line}:${mapped.location.column}\n${mapped.stack}`
+    );
+
+    panelEvents.emit('panel-runtime-error', {
+      panelId: mapped.panelId,
+      error: error instanceof Error ? error.message : String(error),
+      mapped
+    });
+  }
+}
+
+// Create and export default instance
+const sourceMapIndex = new SourceMapIndex();
+
+export default sourceMapIndex;
@@ -0,0 +1,138 @@
+import type { CompilationWarning, CompilerOptions, RawSourceMap, SourceLanguage } from '../../types';
+import reactRefreshBabel from 'react-refresh/babel';
+import { analyzeTypeScript } from './typescript-support';
+
+/**
+ * Pure Babel transform step of the runtime compiler
+ *
+ * Has no DOM dependencies, so it runs both on the main thread and inside the
+ * compiler worker. Linking the output into a blob module happens separately,
+ * on the main thread.
+ */
+
+export type BabelStandalone = typeof window.Babel;
+
+/**
+ * Version of the transform pipeline. Bump when a change here alters compiled
+ * output, so cached compilations from older builds are not reused.
+ */
+export const COMPILER_VERSION = '3';
+
+export interface TransformOutput {
+  code: string;
+  map?: RawSourceMap;
+  warnings: CompilationWarning[];
+  language: Exclude<SourceLanguage, 'auto'>;
+}
+
+/** Message sent to the compiler worker. */
+export type CompilerWorkerRequest =
+  | { id: number; type: 'compile'; jsxCode: string; componentName: string; options: CompilerOptions }
+  | { id: number; type: 'validate'; jsxCode: string; options: CompilerOptions };
+
+/** Message posted back by the compiler worker. */
+export type CompilerWorkerResponse =
+  | { id: number; type: 'compiled'; output: TransformOutput }
+  | { id: number; type: 'validated'; valid: boolean }
+  | { id: number; type: 'error'; message: string; stack?: string };
+
+/**
+ * Resolves the source language and builds Babel transform options for it.
+ *
+ * @param babel - Babel Standalone instance
+ * @param jsxCode - Source code being compiled
+ * @param componentName - Component name, used as the virtual filename
+ * @param options - Fully resolved compiler options
+ * @returns Resolved language, type-annotation warnings and Babel options
+ */
+export function buildTransformOptions(
+  babel: BabelStandalone,
+  jsxCode: string,
+  componentName: string,
+  options: CompilerOptions
+): {
+  language: Exclude<SourceLanguage, 'auto'>;
+  warnings: CompilationWarning[];
+  transformOptions: Record<string, any>;
+} {
+  const analysis = options.language === 'jsx'
+    ? { language: 'jsx' as const, warnings: [] }
+    : analyzeTypeScript(jsxCode, babel);
+  const language = options.language === 'tsx' ? 'tsx' : analysis.language;
+
+  const presets = [...(options.presets || [])];
+  if (language === 'tsx') {
+    // Reason: presets run last-to-first, so types are stripped before JSX is transformed
+    presets.push(['typescript', { isTSX: true, allExtensions: true }]);
+  }
+
+  const plugins: unknown[] = [...(options.plugins || [])];
+  if (options.refresh) {
+    // Reason: the plugin hashes signatures with Node's crypto unless full
+    // signatures are emitted, and its env check assumes a Node build
+    plugins.push([reactRefreshBabel, { skipEnvCheck: true, emitFullSignatures: true }]);
+  }
+
+  return {
+    language,
+    warnings: analysis.warnings,
+    transformOptions: {
+      presets,
+      plugins,
+      sourceMaps: options.sourceMaps,
+      filename: `${componentName}.${language}`
+    }
+  };
+}
+
+/**
+ * Compiles JSX/TSX source to JavaScript.
+ *
+ * @param babel - Babel Standalone instance
+ * @param jsxCode - Source code to compile
+ * @param componentName - Component name, used as the virtual filename
+ * @param options - Fully resolved compiler options
+ * @returns Compiled code with its source map and warnings
+ * @throws Error on syntax errors or empty output
+ */
+export function transformPanelSource(
+  babel: BabelStandalone,
+  jsxCode: string,
+  componentName: string,
+  options: CompilerOptions
+): TransformOutput {
+  if (!jsxCode.trim()) {
+    throw new Error('JSX code cannot be empty');
+  }
+
+  const { language, warnings, transformOptions } = buildTransformOptions(babel, jsxCode, componentName, options);
+  const result = babel.transform(jsxCode, transformOptions);
+
+  if (!result.code) {
+    throw new Error('Compilation failed: no code generated');
+  }
+
+  return { code: result.code, map: result.map, warnings, language };
+}
+
+/**
+ * Checks whether source code parses, without generating code.
+ *
+ * @param babel - Babel Standalone instance
+ * @param jsxCode - Source code to check
+ * @param options - Fully resolved compiler options
+ * @returns true if the syntax is valid
+ */
+export function isValidSyntax(babel: BabelStandalone, jsxCode: string, options: CompilerOptions): boolean {
+  try {
+    const { transformOptions } = buildTransformOptions(babel, jsxCode, 'validation', options);
+    babel.transform(jsxCode, {
+      ...transformOptions,
+      code: false // Only parse, don't generate code
+    });
+    return true;
+  } catch (error) {
+    console.warn('[RuntimeJSXCompiler] Syntax validation failed:', error);
+    return false;
+  }
+}
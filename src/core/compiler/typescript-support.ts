@@ -0,0 +1,121 @@
+import type { NodePath } from '@babel/traverse';
+import type {
+  ClassDeclaration,
+  Comment,
+  File,
+  FunctionDeclaration,
+  Node,
+  TSEnumDeclaration,
+  TSModuleDeclaration,
+  VariableDeclaration
+} from '@babel/types';
+import type { CompilationWarning, SourceLanguage } from '../../types';
+import type { BabelStandalone } from './transform';
+
+/**
+ * TypeScript support for the runtime compiler
+ *
+ * Detects whether panel source uses TypeScript syntax and reports type-annotation
+ * problems as structured warnings. Babel only strips types - it never type-checks -
+ * so these warnings flag constructs that behave differently once types are gone.
+ */
+
+export interface TypeScriptAnalysis {
+  language: Exclude<SourceLanguage, 'auto'>;
+  warnings: CompilationWarning[];
+}
+
+const TS_DIRECTIVE_PATTERN = /@ts-(ignore|nocheck|expect-error)/;
+
+/**
+ * Parses code with TypeScript syntax enabled to detect its language and
+ * collect type-annotation warnings.
+ *
+ * @param code - JSX or TSX source code
+ * @param babel - Babel Standalone instance (the worker has no `window.Babel`)
+ * @returns Detected language and warnings (empty for plain JSX or unparsable code)
+ */
+export function analyzeTypeScript(code: string, babel: BabelStandalone): TypeScriptAnalysis {
+  let ast: File;
+  try {
+    ast = babel.packages.parser.parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+  } catch {
+    // Reason: syntax errors are reported by the compile step with better context
+    return { language: 'jsx', warnings: [] };
+  }
+
+  const warnings: CompilationWarning[] = [];
+  let hasTypeScript = false;
+
+  const warn = (code: CompilationWarning['code'], message: string, node: Node | Comment) => {
+    const start = node.loc?.start;
+    warnings.push({
+      code,
+      message,
+      line: start?.line,
+      column: start !== undefined ? start.column + 1 : undefined
+    });
+  };
+
+  for (const comment of ast.comments ?? []) {
+    const directive = comment.value.match(TS_DIRECTIVE_PATTERN);
+    if (directive) {
+      warn('ts-directive', `@ts-${directive[1]} has no effect - types are stripped, not checked`, comment);
+    }
+  }
+
+  babel.packages.traverse.default(ast, {
+    enter(path: NodePath) {
+      if (path.node.type.startsWith('TS')) {
+        hasTypeScript = true;
+      }
+    },
+
+    TSAnyKeyword(path: NodePath) {
+      warn('explicit-any', "Explicit 'any' type annotation", path.node);
+    },
+
+    TSNonNullExpression(path: NodePath) {
+      warn('non-null-assertion', 'Non-null assertion is removed at runtime and may hide a null value', path.node);
+    },
+
+    TSEnumDeclaration(path: NodePath<TSEnumDeclaration>) {
+      if (path.node.const) {
+        warn('const-enum', 'const enum is emitted as a regular enum object', path.node);
+      }
+    },
+
+    TSModuleDeclaration(path: NodePath<TSModuleDeclaration>) {
+      if (!path.node.declare) {
+        warn('namespace', 'Namespaces are compiled to runtime objects - prefer ES modules', path.node);
+      }
+    },
+
+    'VariableDeclaration|FunctionDeclaration|ClassDeclaration|TSModuleDeclaration'(
+      path: NodePath<VariableDeclaration | FunctionDeclaration | ClassDeclaration | TSModuleDeclaration>
+    ) {
+      if (path.node.declare) {
+        hasTypeScript = true;
+        warn('ambient-declaration', 'Ambient declaration is stripped and has no runtime value', path.node);
+      }
+    }
+  });
+
+  return { language: hasTypeScript ? 'tsx' : 'jsx', warnings };
+}
+
+/**
+ * Formats a compilation warning as a single human-readable line.
+ *
+ * @param warning - Structured warning
+ * @returns Formatted message including the file and location when known
+ */
+export function formatCompilationWarning(warning: CompilationWarning): string {
+  const message = warning.file ? `${warning.file}: ${warning.message}` : warning.message;
+  return warning.line !== undefined
+    ? `${message} (line ${warning.line}, column ${warning.column})`
+    : message;
+}
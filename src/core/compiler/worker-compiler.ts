@@ -0,0 +1,497 @@
+import type {
+  CompilationCacheStats,
+  CompilerOptions,
+  CompilationResult,
+  LinkedPanelFile,
+  PanelFileTree
+} from '../../types';
+import { RuntimeJSXCompiler } from './runtime-compiler';
+import { CompilationCache, withSourceName } from './compilation-cache';
+import moduleResolver from './module-resolver';
+import { isRelativeSpecifier, orderPanelModules, resolvePanelImport } from './panel-files';
+import { isValidSyntax, transformPanelSource } from './transform';
+import type { CompilerWorkerRequest, CompilerWorkerResponse, TransformOutput } from './transform';
+
+/**
+ * Worker-backed Runtime Compiler
+ *
+ * Offers the same `compileComponent` / `validateSyntax` surface as
+ * RuntimeJSXCompiler, but runs the Babel transform in a Web Worker so that
+ * compiling panels never blocks rendering. Requests are queued and sent one at
+ * a time; a newer compile for the same panel cancels any superseded one. When
+ * workers are unavailable (or the worker dies) the transform runs on the main
+ * thread instead. Transform output is cached by content, so recompiling known
+ * source costs no Babel work.
+ */
+
+type WorkerRequestBody = CompilerWorkerRequest extends infer R
+  ? R extends CompilerWorkerRequest ? Omit<R, 'id'> : never
+  : never;
+
+interface PendingRequest {
+  request: CompilerWorkerRequest;
+  componentName?: string;
+  /** Resolves with the worker response, or null when cancelled */
+  resolve: (response: CompilerWorkerResponse | null) => void;
+}
+
+function supersededResult(componentName: string): CompilationResult {
+  return {
+    success: false,
+    cancelled: true,
+    error: new Error(`Compilation of ${componentName} was superseded by a newer request`)
+  };
+}
+
+export class WorkerCompiler {
+  private worker: Worker | null;
+  private syncCompiler: RuntimeJSXCompiler;
+  private queue: PendingRequest[] = [];
+  private inFlight: PendingRequest | null = null;
+  private inFlightCancelled: boolean = false;
+  private nextRequestId: number = 1;
+  private generations: Map<string, number> = new Map();
+  private cache: CompilationCache;
+  private defaultsKey: Promise<string>;
+
+  constructor(options: Partial<CompilerOptions> = {}) {
+    this.syncCompiler = new RuntimeJSXCompiler(options);
+    this.worker = this.createWorker();
+    this.cache = new CompilationCache();
+
+    // Purge persisted compilations from other defaults or compiler versions
+    this.defaultsKey = this.cache.computeOptionsKey(this.syncCompiler.resolveOptions());
+    void this.defaultsKey.then(key => this.cache.invalidate(key));
+
+    console.log('[WorkerCompiler] Initialized with worker:', this.worker !== null);
+  }
+
+  /**
+   * Compiles JSX or TSX code off the main thread and links it into a module.
+   * Identical source and options are served from the compilation cache.
+   *
+   * @param jsxCode - The JSX/TSX source code to compile
+   * @param componentName - Name for the component; compiles are superseded per name
+   * @param options - Per-call compiler option overrides
+   * @returns Promise resolving to compilation result (`cancelled` if superseded)
+   */
+  async compileComponent(
+    jsxCode: string,
+    componentName: string,
+    options: Partial<CompilerOptions> = {}
+  ): Promise<CompilationResult> {
+    try {
+      const output = await this.compileSource(jsxCode, componentName, options);
+      if (!output) {
+        return supersededResult(componentName);
+      }
+
+      // Linking needs the DOM (blob URLs, host modules), so it stays on the main thread
+      return this.syncCompiler.createModule(withSourceName(output, `${componentName}.${output.language}`), componentName);
+    } catch (error) {
+      console.error('[WorkerCompiler] Compilation failed:', error);
+      return {
+        success: false,
+        error: error as Error
+      };
+    }
+  }
+
+  /**
+   * Compiles a multi-file panel and links its files into blob modules with
+   * relative imports rewritten. Given the previous result, files whose output
+   * and dependencies are unchanged keep their module, so an edit re-evaluates
+   * only the changed file and the files importing it.
+   *
+   * @param panelId - Panel identifier
+   * @param tree - Panel source files and entry module
+   * @param previous - Linked files of the panel's previous compilation
+   * @param options - Per-call compiler option overrides
+   * @returns Promise resolving to the entry module's compilation result
+   */
+  async compilePanelFiles(
+    panelId: string,
+    tree: PanelFileTree,
+    previous?: Record<string, LinkedPanelFile>,
+    options: Partial<CompilerOptions> = {}
+  ): Promise<CompilationResult> {
+    const generation = this.beginCompile(panelId);
+
+    try {
+      if (!(tree.entry in tree.files)) {
+        throw new Error(`Entry file ${tree.entry} is not part of the panel`);
+      }
+
+      const paths = Object.keys(tree.files);
+      const outputs = await Promise.all(
+        paths.map(path => this.compileSource(tree.files[path], `${panelId}/${path}`, options))
+      );
+
+      if (outputs.includes(null) || this.generations.get(panelId) !== generation) {
+        return supersededResult(panelId);
+      }
+
+      const outputByPath = new Map(paths.map((path, index) => [path, outputs[index]!]));
+      const importsByPath = new Map<string, Map<string, string>>();
+
+      for (const [path, output] of outputByPath) {
+        const imports = new Map<string, string>();
+        for (const specifier of moduleResolver.getImportSpecifiers(output.code).filter(isRelativeSpecifier)) {
+          const resolved = resolvePanelImport(path, specifier, tree.files);
+          if (!resolved) {
+            throw new Error(`Cannot resolve '${specifier}' from ${path} - no such panel file`);
+          }
+          imports.set(specifier, resolved);
+        }
+        importsByPath.set(path, imports);
+      }
+
+      const linked: Record<string, LinkedPanelFile> = {};
+      const relinked = new Set<string>();
+
+      for (const path of orderPanelModules(tree.entry, path => [...importsByPath.get(path)!.values()])) {
+        const output = outputByPath.get(path)!;
+        const imports = importsByPath.get(path)!;
+        const dependencies = [...new Set(imports.values())];
+        const prior = previous?.[path];
+
+        if (prior && prior.code === output.code && dependencies.every(dependency => !relinked.has(dependency))) {
+          linked[path] = prior;
+          continue;
+        }
+
+        const fileName = `${panelId}/${path}`;
+        const result = this.syncCompiler.createModule(withSourceName(output, fileName), fileName, {
+          panelId,
+          resolveRelative: specifier => linked[imports.get(specifier)!].moduleUrl,
+          requireComponent: path === tree.entry
+        });
+
+        linked[path] = { moduleUrl: result.moduleUrl!, code: output.code, map: result.map, imports: dependencies };
+        relinked.add(path);
+      }
+
+      const entry = linked[tree.entry];
+      console.log(`[WorkerCompiler] Linked ${panelId}: ${relinked.size} of ${Object.keys(linked).length} modules updated`);
+
+      return {
+        success: true,
+        code: entry.code,
+        map: entry.map,
+        moduleUrl: entry.moduleUrl,
+        warnings: paths.flatMap(path => outputByPath.get(path)!.warnings.map(warning => ({ ...warning, file: path }))),
+        language: outputByPath.get(tree.entry)!.language,
+        files: linked
+      };
+    } catch (error) {
+      console.error('[WorkerCompiler] Panel compilation failed:', error);
+      return {
+        success: false,
+        error: error as Error
+      };
+    }
+  }
+
+  /**
+   * Revokes the module URLs of a compilation, keeping any still used by its
+   * successor (multi-file panels reuse unchanged modules).
+   *
+   * @param released - Compilation whose modules are no longer needed
+   * @param current - Compilation replacing it, if any
+   */
+  releaseModules(
+    released: { moduleUrl?: string; files?: Record<string, LinkedPanelFile> },
+    current?: { moduleUrl?: string; files?: Record<string, LinkedPanelFile> }
+  ): void {
+    const moduleUrls = (compilation?: typeof released) => [
+      ...(compilation?.moduleUrl ? [compilation.moduleUrl] : []),
+      ...Object.values(compilation?.files ?? {}).map(file => file.moduleUrl)
+    ];
+
+    const kept = new Set(moduleUrls(current));
+    for (const moduleUrl of new Set(moduleUrls(released))) {
+      if (!kept.has(moduleUrl)) {
+        this.syncCompiler.cleanupModuleUrl(moduleUrl);
+      }
+    }
+  }
+
+  /**
+   * Validates JSX/TSX syntax without full compilation.
+   *
+   * @param jsxCode - JSX or TSX code to validate
+   * @param options - Per-call compiler option overrides
+   * @returns Promise resolving to true if syntax is valid
+   */
+  async validateSyntax(jsxCode: string, options: Partial<CompilerOptions> = {}): Promise<boolean> {
+    const response = await this.transform({
+      type: 'validate',
+      jsxCode,
+      options: this.syncCompiler.resolveOptions(options)
+    });
+    return response?.type === 'validated' && response.valid;
+  }
+
+  /**
+   * Supersedes every compile of a panel that has not finished yet, so their
+   * results come back `cancelled`.
+   *
+   * @param panelId - Panel whose compiles are cancelled
+   */
+  cancel(panelId: string): void {
+    this.beginCompile(panelId);
+  }
+
+  /**
+   * Cancels queued or in-flight compiles for a component, including the file
+   * compiles of a multi-file panel.
+   *
+   * @param componentName - Component whose pending compiles are cancelled
+   */
+  cancelPending(componentName: string): void {
+    const matches = (name?: string) => name === componentName || !!name?.startsWith(`${componentName}/`);
+
+    this.queue = this.queue.filter(pending => {
+      if (!matches(pending.componentName)) return true;
+      pending.resolve(null);
+      return false;
+    });
+
+    // Reason: Babel cannot be interrupted mid-transform, so an in-flight
+    // compile is answered now and its late result discarded
+    if (this.inFlight && matches(this.inFlight.componentName) && !this.inFlightCancelled) {
+      this.inFlightCancelled = true;
+      this.inFlight.resolve(null);
+    }
+  }
+
+  /**
+   * Changes the compiler's default options and drops cached compilations
+   * produced under the previous defaults.
+   *
+   * @param options - Option overrides merged into the current defaults
+   */
+  setOptions(options: Partial<CompilerOptions>): void {
+    this.syncCompiler.setDefaultOptions(options);
+    this.defaultsKey = this.cache.computeOptionsKey(this.syncCompiler.resolveOptions());
+    void this.defaultsKey.then(key => this.cache.invalidate(key));
+  }
+
+  /**
+   * Counts the live module URLs of compiled panels.
+   *
+   * @param panelId - Only count modules of this panel
+   * @returns Number of live module URLs and the size of their blobs in bytes
+   */
+  getLiveModules(panelId?: string): { urls: number; bytes: number } {
+    return this.syncCompiler.getLiveModules(panelId);
+  }
+
+  /**
+   * Gets compilation cache hit/miss statistics.
+   */
+  getCacheStats(): CompilationCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Checks whether compilation currently runs off the main thread.
+   */
+  isUsingWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  extractComponentName(jsxCode: string): string {
+    return this.syncCompiler.extractComponentName(jsxCode);
+  }
+
+  buildDefaultExportFallback(compiledCode: string): string {
+    return this.syncCompiler.buildDefaultExportFallback(compiledCode);
+  }
+
+  extractDependencies(jsxCode: string): string[] {
+    return this.syncCompiler.extractDependencies(jsxCode);
+  }
+
+  cleanupModuleUrl(moduleUrl: string): void {
+    this.syncCompiler.cleanupModuleUrl(moduleUrl);
+  }
+
+  /**
+   * Creates the compiler worker, or returns null if workers are unavailable.
+   */
+  private createWorker(): Worker | null {
+    if (typeof Worker === 'undefined') {
+      console.warn('[WorkerCompiler] Web Workers unavailable, compiling on the main thread');
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./compiler.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<CompilerWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event) => this.handleWorkerFailure(event);
+      return worker;
+    } catch (error) {
+      console.warn('[WorkerCompiler] Failed to start compiler worker, compiling on the main thread:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Runs the transform step through the cache, superseding older compiles
+   * of the same name.
+   *
+   * @returns Transform output, or null if a newer compile superseded this one
+   * @throws Error on syntax errors
+   */
+  private async compileSource(
+    jsxCode: string,
+    componentName: string,
+    options: Partial<CompilerOptions>
+  ): Promise<TransformOutput | null> {
+    const generation = this.beginCompile(componentName);
+    const resolvedOptions = this.syncCompiler.resolveOptions(options);
+
+    const cacheKey = await this.cache.computeKey(jsxCode, resolvedOptions);
+    const cached = await this.cache.get(cacheKey);
+
+    // Reason: a newer compile may have started while the cache was consulted
+    if (this.generations.get(componentName) !== generation) {
+      return null;
+    }
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.transform(
+      { type: 'compile', jsxCode, componentName, options: resolvedOptions },
+      componentName
+    );
+
+    if (response === null) {
+      return null;
+    }
+    if (response.type === 'error') {
+      const error = new Error(response.message);
+      error.stack = response.stack;
+      throw error;
+    }
+    if (response.type !== 'compiled') {
+      throw new Error(`Unexpected compiler worker response: ${response.type}`);
+    }
+
+    void this.cache.set(cacheKey, response.output, await this.defaultsKey);
+    return response.output;
+  }
+
+  /**
+   * Starts a new compile generation for a component, superseding older ones.
+   */
+  private beginCompile(componentName: string): number {
+    const generation = (this.generations.get(componentName) ?? 0) + 1;
+    this.generations.set(componentName, generation);
+    this.cancelPending(componentName);
+    return generation;
+  }
+
+  /**
+   * Runs a transform request in the worker, or synchronously without one.
+   */
+  private async transform(body: WorkerRequestBody, componentName?: string): Promise<CompilerWorkerResponse | null> {
+    if (!this.worker) {
+      return this.runSync({ ...body, id: 0 } as CompilerWorkerRequest);
+    }
+    return this.enqueue(body, componentName);
+  }
+
+  /**
+   * Queues a request for the worker.
+   */
+  private enqueue(body: WorkerRequestBody, componentName?: string): Promise<CompilerWorkerResponse | null> {
+    return new Promise(resolve => {
+      const request = { ...body, id: this.nextRequestId++ } as CompilerWorkerRequest;
+      this.queue.push({ request, componentName, resolve });
+      this.dispatchNext();
+    });
+  }
+
+  /**
+   * Sends the next queued request once the worker is idle.
+   */
+  private dispatchNext(): void {
+    if (this.inFlight || this.queue.length === 0) {
+      return;
+    }
+
+    this.inFlight = this.queue.shift()!;
+    this.inFlightCancelled = false;
+
+    if (!this.worker) {
+      this.handleResponse(this.runSync(this.inFlight.request));
+      return;
+    }
+
+    try {
+      this.worker.postMessage(this.inFlight.request);
+    } catch (error) {
+      // Reason: a request that cannot be cloned (e.g. options holding a function plugin)
+      // never reaches the worker, so compile it here instead of stalling the queue
+      console.warn('[WorkerCompiler] Could not send request to the worker, compiling on the main thread:', error);
+      this.handleResponse(this.runSync(this.inFlight.request));
+    }
+  }
+
+  /**
+   * Delivers a worker response and moves on to the next request.
+   */
+  private handleResponse(response: CompilerWorkerResponse): void {
+    if (!this.inFlight || this.inFlight.request.id !== response.id) {
+      console.warn(`[WorkerCompiler] Ignoring response for unknown request ${response.id}`);
+      return;
+    }
+
+    if (!this.inFlightCancelled) {
+      this.inFlight.resolve(response);
+    }
+
+    this.inFlight = null;
+    this.dispatchNext();
+  }
+
+  /**
+   * Falls back to synchronous compilation when the worker crashes or fails to load.
+   */
+  private handleWorkerFailure(event: ErrorEvent): void {
+    console.error('[WorkerCompiler] Compiler worker failed, falling back to main thread:', event.message);
+
+    this.worker?.terminate();
+    this.worker = null;
+
+    // Re-run the request that was lost with the worker, then drain the queue
+    const lost = this.inFlight;
+    if (lost) {
+      this.handleResponse(this.runSync(lost.request));
+    }
+  }
+
+  /**
+   * Produces the same response the worker would, on the main thread.
+   */
+  private runSync(request: CompilerWorkerRequest): CompilerWorkerResponse {
+    try {
+      if (request.type === 'compile') {
+        const output = transformPanelSource(window.Babel, request.jsxCode, request.componentName, request.options);
+        return { id: request.id, type: 'compiled', output };
+      }
+      return { id: request.id, type: 'validated', valid: isValidSyntax(window.Babel, request.jsxCode, request.options) };
+    } catch (error) {
+      const { message, stack } = error instanceof Error ? error : new Error(String(error));
+      return { id: request.id, type: 'error', message, stack };
+    }
+  }
+}
+
+// Create and export the shared compiler instance
+const workerCompiler = new WorkerCompiler();
+
+export default workerCompiler;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { DiffLine } from '../../types';
+import { diffLines, diffPanelSources } from './line-diff';
+
+/** Renders a diff the way a unified diff would */
+const render = (lines: DiffLine[]) =>
+  lines.map(line => `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+
+describe('diffLines', () => {
+  it('returns nothing for two empty texts', () => {
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('adds every line of a new text and removes every line of a deleted one', () => {
+    expect(diffLines('', 'a\nb')).toEqual([
+      { type: 'added', text: 'a', newLine: 1 },
+      { type: 'added', text: 'b', newLine: 2 }
+    ]);
+    expect(diffLines('a\nb', '')).toEqual([
+      { type: 'removed', text: 'a', oldLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 }
+    ]);
+  });
+
+  it('marks identical texts as the same, numbering both sides', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'same', text: 'b', oldLine: 2, newLine: 2 }
+    ]);
+  });
+
+  it('handles changes only at the start', () => {
+    expect(render(diffLines('x\na\nb', 'y\na\nb'))).toEqual(['-x', '+y', ' a', ' b']);
+  });
+
+  it('handles changes only at the end, numbering the suffix on both sides', () => {
+    expect(render(diffLines('a\nb\nx', 'a\nb\ny\nz'))).toEqual([' a', ' b', '-x', '+y', '+z']);
+    expect(diffLines('a\nx\nb', 'a\nb').at(-1)).toEqual({ type: 'same', text: 'b', oldLine: 3, newLine: 2 });
+  });
+
+  it('keeps the longest common subsequence in the middle', () => {
+    const lines = diffLines('a\nb\nc\nd\ne', 'a\nc\nb\nd\ne');
+
+    expect(lines.filter(line => line.type === 'same')).toHaveLength(4);
+    expect(lines.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe('a\nb\nc\nd\ne');
+    expect(lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe('a\nc\nb\nd\ne');
+  });
+
+  it('numbers lines after insertions by their position in each text', () => {
+    const lines = diffLines('a\nb', 'a\nnew\nb');
+    expect(lines[1]).toEqual({ type: 'added', text: 'new', newLine: 2 });
+    expect(lines[2]).toEqual({ type: 'same', text: 'b', oldLine: 2, newLine: 3 });
+  });
+
+  it('treats a trailing newline as an extra empty line', () => {
+    expect(render(diffLines('a', 'a\n'))).toEqual([' a', '+']);
+  });
+});
+
+describe('diffPanelSources', () => {
+  it('diffs single-file sources as one file named after the panel', () => {
+    expect(diffPanelSources('counter', 'a', 'b')).toEqual([
+      { path: 'counter', status: 'modified', lines: diffLines('a', 'b') }
+    ]);
+    expect(diffPanelSources('counter', 'a', 'a')[0].status).toBe('unchanged');
+  });
+
+  it('reports added, removed, modified and unchanged files sorted by path', () => {
+    const before = { entry: 'index.jsx', files: { 'index.jsx': 'x', 'old.js': 'o', 'same.js': 's' } };
+    const after = { entry: 'index.jsx', files: { 'same.js': 's', 'index.jsx': 'y', 'added.js': 'n' } };
+
+    const diffs = diffPanelSources('panel', before, after);
+    expect(diffs.map(diff => [diff.path, diff.status])).toEqual([
+      ['added.js', 'added'],
+      ['index.jsx', 'modified'],
+      ['old.js', 'removed'],
+      ['same.js', 'unchanged']
+    ]);
+    expect(render(diffs[0].lines)).toEqual(['+n']);
+    expect(render(diffs[2].lines)).toEqual(['-o']);
+  });
+
+  it('counts an empty file that was added as added', () => {
+    const diffs = diffPanelSources('panel', { entry: 'a', files: { a: 'x' } }, { entry: 'a', files: { a: 'x', b: '' } });
+    expect(diffs[1]).toEqual({ path: 'b', status: 'added', lines: [] });
+  });
+
+  it('diffs a single-file source against a file tree', () => {
+    const diffs = diffPanelSources('panel', 'x', { entry: 'index.jsx', files: { 'index.jsx': 'x' } });
+    expect(diffs.map(diff => [diff.path, diff.status])).toEqual([['index.jsx', 'added'], ['panel', 'removed']]);
+  });
+});
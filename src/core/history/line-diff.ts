@@ -0,0 +1,111 @@
+import type { DiffLine, FileDiff, PanelFileTree } from '../../types';
+
+/**
+ * Line diff
+ *
+ * Line-based diffs between panel revisions, computed from the longest common
+ * subsequence of lines. Panel sources are small, so the quadratic table is
+ * cheap once the common prefix and suffix are trimmed.
+ */
+
+/**
+ * Diffs two texts line by line.
+ *
+ * @param before - Older text
+ * @param after - Newer text
+ * @returns Lines of both texts in order, marked same, removed or added
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const n = middleA.length;
+  const m = middleB.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of middleA[i..] and middleB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = middleA[i] === middleB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && middleA[i] === middleB[j]) {
+      lines.push({ type: 'same', text: middleA[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] > lcs[(i + 1) * (m + 1) + j])) {
+      lines.push({ type: 'added', text: middleB[j], newLine: prefix + j + 1 });
+      j++;
+    } else {
+      lines.push({ type: 'removed', text: middleA[i], oldLine: prefix + i + 1 });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    lines.push({
+      type: 'same',
+      text: a[a.length - suffix + k],
+      oldLine: a.length - suffix + k + 1,
+      newLine: b.length - suffix + k + 1
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Diffs two panel sources file by file. A single-file source is treated as
+ * one file named after the panel.
+ *
+ * @param panelId - Panel the sources belong to
+ * @param before - Older source
+ * @param after - Newer source
+ * @returns One diff per file present in either source, sorted by path
+ */
+export function diffPanelSources(
+  panelId: string,
+  before: string | PanelFileTree,
+  after: string | PanelFileTree
+): FileDiff[] {
+  const filesBefore = typeof before === 'string' ? { [panelId]: before } : before.files;
+  const filesAfter = typeof after === 'string' ? { [panelId]: after } : after.files;
+  const paths = [...new Set([...Object.keys(filesBefore), ...Object.keys(filesAfter)])].sort();
+
+  return paths.map(path => {
+    const lines = diffLines(filesBefore[path] ?? '', filesAfter[path] ?? '');
+    const status: FileDiff['status'] = !(path in filesBefore)
+      ? 'added'
+      : !(path in filesAfter)
+        ? 'removed'
+        : lines.some(line => line.type !== 'same') ? 'modified' : 'unchanged';
+    return { path, status, lines };
+  });
+}
@@ -0,0 +1,302 @@
+import type { FileDiff, PanelFileTree, PanelRevision } from '../../types';
+import componentStore, { ComponentStore } from '../registry/component-store';
+import hmrManager from '../hmr/hmr-manager';
+import panelEvents from '../registry/panel-events';
+import { hashPanelSource } from '../sync/panel-sync-protocol';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from '../storage/idb';
+import { diffPanelSources } from './line-diff';
+
+/** Who and what produced a revision */
+export type RevisionLabel = Pick<PanelRevision, 'kind' | 'author' | 'prompt' | 'model' | 'restoredFrom'>;
+
+export type RevisionListener = (panelId: string, revisions: PanelRevision[]) => void;
+
+const DB_NAME = 'ui-madness-revisions';
+const DB_VERSION = 1;
+const STORE_NAME = 'revisions';
+// Labels waiting for their commit, per panel; older ones belong to failed updates
+const MAX_PENDING_LABELS = 10;
+
+/**
+ * Revision History
+ *
+ * Keeps a revision log per panel. Every version committed to the component
+ * store becomes a revision, however it got there, so the log cannot drift
+ * from what actually rendered. Callers that know where a source came from
+ * (AI generation, rollback) label it before committing; unlabeled commits
+ * are recorded as manual edits. Revisions are persisted to IndexedDB and
+ * loaded per panel on first use.
+ */
+export class RevisionHistory {
+  private revisions: Map<string, Promise<PanelRevision[]>> = new Map();
+  private labels: Map<string, Map<string, RevisionLabel>> = new Map();
+  // Per-panel chain that keeps revisions in commit order
+  private recording: Map<string, Promise<void>> = new Map();
+  private listeners: Set<RevisionListener> = new Set();
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  constructor(
+    private store: ComponentStore = componentStore,
+    private maxRevisions: number = 100
+  ) {
+    this.store.subscribe((panelId, entry) => {
+      const source = entry && this.store.getSource(panelId);
+      if (source !== undefined) {
+        this.enqueue(panelId, () => this.record(panelId, source));
+      }
+    });
+
+    panelEvents.subscribe('remove-panel', (event) => {
+      this.removePanel(event.payload.panelId);
+    });
+  }
+
+  /**
+   * Describes a source about to be committed, so its revision records where
+   * it came from. Must be called before the commit.
+   *
+   * @param panelId - Panel identifier
+   * @param source - Source that will be committed
+   * @param label - Author, kind and generation details of the revision
+   */
+  label(panelId: string, source: string | PanelFileTree, label: RevisionLabel): void {
+    let pending = this.labels.get(panelId);
+    if (!pending) {
+      pending = new Map();
+      this.labels.set(panelId, pending);
+    }
+
+    pending.set(hashPanelSource(source), label);
+    if (pending.size > MAX_PENDING_LABELS) {
+      pending.delete(pending.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Lists the revisions of a panel, oldest first.
+   *
+   * @param panelId - Panel identifier
+   * @returns Promise resolving to the panel's revisions
+   */
+  async list(panelId: string): Promise<PanelRevision[]> {
+    await this.recording.get(panelId);
+    return [...await this.load(panelId)];
+  }
+
+  /**
+   * Diffs two revisions of a panel.
+   *
+   * @param panelId - Panel identifier
+   * @param from - Number of the older revision
+   * @param to - Number of the newer revision
+   * @returns Promise resolving to the per-file diff
+   */
+  async diff(panelId: string, from: number, to: number): Promise<FileDiff[]> {
+    const revisions = await this.list(panelId);
+    const before = this.find(revisions, panelId, from);
+    const after = this.find(revisions, panelId, to);
+    return diffPanelSources(panelId, before.source, after.source);
+  }
+
+  /**
+   * Restores the source of an earlier revision through the HMR path, so the
+   * mounted panel keeps its state where the change allows. The rollback is
+   * recorded as a new revision; history is never rewritten.
+   *
+   * @param panelId - Panel identifier
+   * @param number - Revision to restore
+   * @returns Promise resolving to the revision now rendering
+   */
+  async rollback(panelId: string, number: number): Promise<PanelRevision> {
+    const target = this.find(await this.list(panelId), panelId, number);
+    const hash = hashPanelSource(target.source);
+    const current = this.store.getSource(panelId);
+
+    if (current === undefined || hashPanelSource(current) !== hash) {
+      this.label(panelId, target.source, { kind: 'rollback', author: 'user', restoredFrom: number });
+      await hmrManager.updateComponent(panelId, target.source);
+
+      // A failed update is reported through the panel's error overlay
+      const applied = this.store.getSource(panelId);
+      if (applied === undefined || hashPanelSource(applied) !== hash) {
+        this.labels.get(panelId)?.delete(hash);
+        throw new Error(`Could not roll back ${panelId} to revision ${number}`);
+      }
+    }
+
+    const revisions = await this.list(panelId);
+    console.log(`[RevisionHistory] Rolled back ${panelId} to revision ${number}`);
+    return revisions[revisions.length - 1];
+  }
+
+  /**
+   * Subscribes to new revisions of any panel.
+   *
+   * @param listener - Called with the panel's revisions after each change
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: RevisionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Seeds the history of a panel that has none yet, e.g. one being imported.
+   * Must be called before the panel's first commit, so that commit matches
+   * the latest seeded revision instead of starting a new log.
+   *
+   * @param panelId - Panel identifier
+   * @param revisions - Revisions to adopt, oldest first
+   * @returns Promise resolving to false if the panel already has history
+   */
+  async importRevisions(panelId: string, revisions: Omit<PanelRevision, 'panelId'>[]): Promise<boolean> {
+    await this.recording.get(panelId);
+    const existing = await this.load(panelId);
+    if (existing.length > 0) {
+      return false;
+    }
+
+    const adopted = revisions
+      .slice(-this.maxRevisions)
+      .map(revision => ({ ...revision, panelId }));
+    existing.push(...adopted);
+
+    for (const revision of adopted) {
+      await this.persist(revision, []);
+    }
+    return true;
+  }
+
+  /**
+   * Deletes the history of a removed panel.
+   *
+   * @param panelId - Panel identifier
+   */
+  async removePanel(panelId: string): Promise<void> {
+    await this.recording.get(panelId);
+    this.revisions.delete(panelId);
+    this.labels.delete(panelId);
+
+    const db = await this.openStore();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const keys = await requestToPromise(store.index('panelId').getAllKeys(IDBKeyRange.only(panelId)));
+      keys.forEach(key => store.delete(key));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn(`[RevisionHistory] Failed to delete history of ${panelId}:`, error);
+    }
+  }
+
+  private enqueue(panelId: string, task: () => Promise<void>): void {
+    const next = (this.recording.get(panelId) ?? Promise.resolve())
+      .then(task)
+      .catch(error => console.error(`[RevisionHistory] Failed to record revision of ${panelId}:`, error));
+    this.recording.set(panelId, next);
+  }
+
+  /**
+   * Appends a committed source as a revision, unless it is the latest one
+   * already (e.g. a panel restored after a reload).
+   */
+  private async record(panelId: string, source: string | PanelFileTree): Promise<void> {
+    const revisions = await this.load(panelId);
+    const hash = hashPanelSource(source);
+    const label = this.labels.get(panelId)?.get(hash);
+    this.labels.get(panelId)?.delete(hash);
+
+    const latest = revisions[revisions.length - 1];
+    if (latest && hashPanelSource(latest.source) === hash) {
+      return;
+    }
+
+    const revision: PanelRevision = {
+      panelId,
+      number: (latest?.number ?? 0) + 1,
+      ...(label ?? { kind: latest ? 'edit' : 'creation', author: 'user' }),
+      source,
+      timestamp: Date.now()
+    };
+    revisions.push(revision);
+    const dropped = revisions.splice(0, Math.max(0, revisions.length - this.maxRevisions));
+
+    this.listeners.forEach(listener => listener(panelId, [...revisions]));
+    await this.persist(revision, dropped);
+  }
+
+  private load(panelId: string): Promise<PanelRevision[]> {
+    let revisions = this.revisions.get(panelId);
+    if (!revisions) {
+      revisions = this.readPersisted(panelId);
+      this.revisions.set(panelId, revisions);
+    }
+    return revisions;
+  }
+
+  private find(revisions: PanelRevision[], panelId: string, number: number): PanelRevision {
+    const revision = revisions.find(candidate => candidate.number === number);
+    if (!revision) {
+      throw new Error(`Revision ${number} of panel ${panelId} not found`);
+    }
+    return revision;
+  }
+
+  private async readPersisted(panelId: string): Promise<PanelRevision[]> {
+    const db = await this.openStore();
+    if (!db) return [];
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const revisions = await requestToPromise<PanelRevision[]>(
+        transaction.objectStore(STORE_NAME).index('panelId').getAll(IDBKeyRange.only(panelId))
+      );
+      return revisions.sort((a, b) => a.number - b.number);
+    } catch (error) {
+      console.warn(`[RevisionHistory] Failed to read history of ${panelId}:`, error);
+      return [];
+    }
+  }
+
+  private async persist(revision: PanelRevision, dropped: PanelRevision[]): Promise<void> {
+    const db = await this.openStore();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.put(revision);
+      dropped.forEach(old => store.delete([old.panelId, old.number]));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn(`[RevisionHistory] Failed to persist revision of ${revision.panelId}:`, error);
+    }
+  }
+
+  /**
+   * Opens the database once; resolves to null when persistence is unavailable.
+   */
+  private openStore(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = isIndexedDBAvailable()
+        ? openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: ['panelId', 'number'] });
+            store.createIndex('panelId', 'panelId');
+          }).catch((error) => {
+            console.warn('[RevisionHistory] IndexedDB unavailable, keeping history in memory only:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.db;
+  }
+}
+
+// Create and export the shared revision history
+const revisionHistory = new RevisionHistory();
+
+export default revisionHistory;
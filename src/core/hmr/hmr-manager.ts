@@ -1,6 +1,9 @@
-import type { ComponentType } from 'react';
-import type { ComponentCacheEntry, HMRUpdateData } from '../../types';
-import { RuntimeJSXCompiler } from '../compiler/runtime-compiler';
+import type { ComponentCacheEntry, HMRUpdateData, HMRUpdateTiming, PanelEvent, PanelFileTree } from '../../types';
+import componentStore, { ComponentStore } from '../registry/component-store';
+import panelEvents from '../registry/panel-events';
+import workerCompiler from '../compiler/worker-compiler';
+import { UpdateScheduler } from './update-scheduler';
+import { describeUpdateFailure } from './update-failure';
 
 /**
  * Enhanced HMR Manager for dynamic components
@@ -10,13 +13,17 @@ import { RuntimeJSXCompiler } from '../compiler/runtime-compiler';
  */
 export class DynamicHMRManager {
   private viteHMR: any;
-  private componentCache: Map<string, ComponentCacheEntry> = new Map();
-  private updateQueue: Set<string> = new Set();
-  private compiler: RuntimeJSXCompiler;
+  private store: ComponentStore;
+  private scheduler: UpdateScheduler;
   private isConnected: boolean = false;
+  private disposers: Array<() => void> = [];
 
   constructor() {
-    this.compiler = new RuntimeJSXCompiler();
+    this.store = componentStore;
+    this.scheduler = new UpdateScheduler(this.store, workerCompiler, {
+      onApplied: timing => this.triggerHotUpdate(timing),
+      onFailed: (panelId, error, source) => this.handleUpdateFailure(panelId, error, source)
+    });
     
     // Initialize Vite HMR integration if available
     if (import.meta.hot) {
@@ -32,57 +39,39 @@ export class DynamicHMRManager {
   }
 
   /**
-   * Updates a component with new JSX code using HMR.
+   * Updates a component with new JSX code using HMR. For multi-file panels
+   * only the changed files and their importers are re-evaluated. Rapid updates
+   * to one panel are coalesced: the most recent source always wins, and older
+   * compiles still running are cancelled.
    * 
    * @param panelId - Unique identifier for the panel/component
-   * @param newJSXCode - Updated JSX source code
-   * @returns Promise resolving when update is complete
+   * @param newJSXCode - Updated JSX source code, or the panel's updated file tree
+   * @returns Promise resolving to the applied update's timing, or null if
+   *   nothing changed or the update failed
    */
-  async updateComponent(panelId: string, newJSXCode: string): Promise<void> {
-    try {
-      // Prevent duplicate updates
-      if (this.updateQueue.has(panelId)) {
-        console.log(`[HMR] Update already queued for panel: ${panelId}`);
-        return;
-      }
-
-      this.updateQueue.add(panelId);
-
-      // Compile new component version
-      const compilationResult = await this.compiler.compileComponent(newJSXCode, panelId);
-      
-      if (!compilationResult.success || !compilationResult.moduleUrl) {
-        throw new Error(`Compilation failed: ${compilationResult.error?.message}`);
-      }
-
-      // Cleanup old module URL to prevent memory leaks
-      const oldCache = this.componentCache.get(panelId);
-      if (oldCache?.moduleUrl) {
-        this.compiler.cleanupModuleUrl(oldCache.moduleUrl);
-      }
-
-      // Load new component
-      const newComponent = await this.loadComponentFromUrl(compilationResult.moduleUrl);
-      
-      // Update cache
-      this.componentCache.set(panelId, {
-        component: newComponent,
-        moduleUrl: compilationResult.moduleUrl,
-        lastUpdated: Date.now(),
-        compiledCode: compilationResult.code || ''
-      });
-      
-      // Trigger React re-render via HMR
-      this.triggerHotUpdate(panelId);
-      
-      console.log(`🔥 Hot updated panel: ${panelId}`);
-    } catch (error) {
-      console.error(`[HMR] Failed to hot update panel ${panelId}:`, error);
-      // Fallback to full reload if HMR fails
-      this.handleUpdateFailure(panelId, error as Error);
-    } finally {
-      this.updateQueue.delete(panelId);
+  async updateComponent(panelId: string, newJSXCode: string | PanelFileTree): Promise<HMRUpdateTiming | null> {
+    // Success and failure are reported once per applied update, not per caller
+    return this.scheduler.schedule(panelId, newJSXCode);
+  }
+
+  /**
+   * Discards a failed update by re-applying the panel's last good source.
+   * Updates still waiting for the panel are superseded, so a burst of broken
+   * updates cannot replace the version that is rendering.
+   * 
+   * @param panelId - Panel identifier
+   * @returns Promise resolving to the version now rendering, or undefined if
+   *   the panel has none
+   */
+  async revertToLastGood(panelId: string): Promise<number | undefined> {
+    const source = this.store.getSource(panelId);
+    if (source === undefined) {
+      return undefined;
     }
+
+    await this.updateComponent(panelId, source);
+    console.log(`[HMR] Reverted panel ${panelId} to its last good version`);
+    return this.store.get(panelId)?.version;
   }
 
   /**
@@ -92,7 +81,7 @@ export class DynamicHMRManager {
    * @returns Cached component entry or undefined
    */
   getComponent(panelId: string): ComponentCacheEntry | undefined {
-    return this.componentCache.get(panelId);
+    return this.store.get(panelId);
   }
 
   /**
@@ -102,7 +91,7 @@ export class DynamicHMRManager {
    * @returns true if panel is cached, false otherwise
    */
   hasComponent(panelId: string): boolean {
-    return this.componentCache.has(panelId);
+    return this.store.has(panelId);
   }
 
   /**
@@ -111,13 +100,7 @@ export class DynamicHMRManager {
    * @param panelId - Panel identifier
    */
   removeComponent(panelId: string): void {
-    const cache = this.componentCache.get(panelId);
-    if (cache?.moduleUrl) {
-      this.compiler.cleanupModuleUrl(cache.moduleUrl);
-    }
-    
-    this.componentCache.delete(panelId);
-    console.log(`[HMR] Removed component: ${panelId}`);
+    this.store.remove(panelId);
   }
 
   /**
@@ -129,64 +112,56 @@ export class DynamicHMRManager {
     cachedComponents: number;
     pendingUpdates: number;
     totalUpdates: number;
+    coalescedUpdates: number;
+    averageUpdateMs: number;
+    withinTargetRate: number;
+    lastUpdate?: HMRUpdateTiming;
     isConnected: boolean;
   } {
+    const { coalescedUpdates, averageUpdateMs, withinTargetRate, lastUpdate } = this.scheduler.getStats();
+
     return {
-      cachedComponents: this.componentCache.size,
-      pendingUpdates: this.updateQueue.size,
-      totalUpdates: this.getTotalUpdates(),
+      cachedComponents: this.store.getStats().components,
+      pendingUpdates: this.scheduler.pendingCount,
+      totalUpdates: this.store.getStats().commits,
+      coalescedUpdates,
+      averageUpdateMs,
+      withinTargetRate,
+      lastUpdate,
       isConnected: this.isConnected
     };
   }
 
   /**
-   * Loads a React component from a module URL.
-   * 
-   * @param moduleUrl - Blob URL of the compiled module
-   * @returns Promise resolving to the loaded component
+   * Gets the phase timings of recent hot updates, oldest first.
    */
-  private async loadComponentFromUrl(moduleUrl: string): Promise<ComponentType> {
-    try {
-      // Dynamic import with cache busting timestamp
-      const module = await import(`${moduleUrl}?t=${Date.now()}`);
-      const Component = module.default;
-
-      if (!Component) {
-        throw new Error('Module does not export a default component');
-      }
-
-      if (typeof Component !== 'function') {
-        throw new Error('Exported default is not a valid React component');
-      }
-
-      return Component;
-    } catch (error) {
-      console.error('[HMR] Failed to load component from URL:', error);
-      throw new Error(`Component loading failed: ${error}`);
-    }
+  getUpdateTimings(): HMRUpdateTiming[] {
+    return this.scheduler.getTimings();
   }
 
   /**
-   * Triggers a hot update by emitting custom events.
+   * Announces an applied hot update with its timing.
    * 
-   * @param panelId - Panel identifier
+   * @param timing - Phase timings of the applied update
    */
-  private triggerHotUpdate(panelId: string): void {
+  private triggerHotUpdate(timing: HMRUpdateTiming): void {
+    const { panelId, version } = timing;
+
     // Notify all instances of this panel to re-render
     const updateData: HMRUpdateData = {
       panelId,
       jsxCode: '', // Not needed for the update event
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      timing
     };
 
-    window.dispatchEvent(new CustomEvent('panel-hmr-update', {
-      detail: updateData
-    }));
+    panelEvents.emit('panel-hmr-update', updateData);
 
-    // If Vite HMR is available, use it too
-    if (this.viteHMR) {
-      this.viteHMR.invalidate();
-    }
+    // Reason: invalidating this module through Vite would propagate to its
+    // importers and reload the page, discarding the state React Refresh kept
+
+    const coalesced = timing.coalesced > 0 ? `, ${timing.coalesced} coalesced` : '';
+    console.log(`🔥 Hot updated panel: ${panelId} (v${version}) in ${timing.totalMs.toFixed(1)}ms${coalesced}`);
   }
 
   /**
@@ -213,11 +188,13 @@ export class DynamicHMRManager {
    * Sets up custom event listeners for AI-generated components.
    */
   private setupCustomEventListeners(): void {
-    // Listen for changes from AI generation
-    window.addEventListener('ai-component-generated', this.handleAIComponentGenerated.bind(this));
-    
-    // Listen for manual component updates
-    window.addEventListener('manual-component-update', this.handleManualComponentUpdate.bind(this));
+    this.disposers.push(
+      // Listen for changes from AI generation
+      panelEvents.subscribe('ai-component-generated', event => this.handleAIComponentGenerated(event)),
+
+      // Listen for manual component updates
+      panelEvents.subscribe('manual-component-update', event => this.handleManualComponentUpdate(event))
+    );
 
     console.log('[HMR] Custom event listeners setup complete');
   }
@@ -225,10 +202,10 @@ export class DynamicHMRManager {
   /**
    * Handles AI-generated component events.
    * 
-   * @param event - Custom event with AI generation data
+   * @param event - AI generation event
    */
-  private async handleAIComponentGenerated(event: CustomEvent): Promise<void> {
-    const { panelId, jsxCode } = event.detail;
+  private async handleAIComponentGenerated(event: PanelEvent<'ai-component-generated'>): Promise<void> {
+    const { panelId, jsxCode } = event.payload;
     
     if (!panelId || !jsxCode) {
       console.warn('[HMR] Invalid AI component generation event data');
@@ -245,86 +222,68 @@ export class DynamicHMRManager {
   /**
    * Handles manual component update events.
    * 
-   * @param event - Custom event with manual update data
+   * @param event - Manual update event
    */
-  private async handleManualComponentUpdate(event: CustomEvent): Promise<void> {
-    const { panelId, jsxCode } = event.detail;
+  private async handleManualComponentUpdate(event: PanelEvent<'manual-component-update'>): Promise<void> {
+    const { panelId, jsxCode, files } = event.payload;
+    const source = files ?? jsxCode;
     
-    if (!panelId || !jsxCode) {
+    if (!panelId || !source) {
       console.warn('[HMR] Invalid manual component update event data');
       return;
     }
 
     try {
-      await this.updateComponent(panelId, jsxCode);
+      await this.updateComponent(panelId, source);
     } catch (error) {
       console.error(`[HMR] Failed to handle manual component update for ${panelId}:`, error);
     }
   }
 
   /**
-   * Handles update failures with fallback strategies.
+   * Handles update failures. The panel keeps rendering its last good version
+   * while the error overlay (bound to `panel-hmr-error`) shows what failed.
    * 
    * @param panelId - Panel identifier
    * @param error - Error that occurred during update
+   * @param source - Source of the failed update
    */
-  private handleUpdateFailure(panelId: string, error: Error): void {
+  private handleUpdateFailure(panelId: string, error: Error, source: string | PanelFileTree): void {
     console.error(`[HMR] Update failed for panel ${panelId}:`, error);
 
+    const failure = describeUpdateFailure(panelId, error, source, this.store.get(panelId)?.version);
+
     // Emit error event for UI to handle
-    window.dispatchEvent(new CustomEvent('panel-hmr-error', {
-      detail: { panelId, error: error.message }
-    }));
+    panelEvents.emit('panel-hmr-error', { panelId, error: error.message, failure });
 
-    // In development, we might want to show an error overlay
     if (window.__DEV__) {
-      this.showErrorOverlay(panelId, error);
+      this.logFailure(panelId, error);
     }
   }
 
   /**
-   * Shows an error overlay for development debugging.
+   * Logs the full error for development debugging.
    * 
    * @param panelId - Panel identifier
    * @param error - Error that occurred
    */
-  private showErrorOverlay(panelId: string, error: Error): void {
+  private logFailure(panelId: string, error: Error): void {
     console.group(`🚨 HMR Error - Panel: ${panelId}`);
     console.error('Error:', error);
     console.error('Stack:', error.stack);
     console.groupEnd();
-
-    // Could implement visual error overlay here
-  }
-
-  /**
-   * Gets total number of updates performed.
-   * 
-   * @returns Total update count
-   */
-  private getTotalUpdates(): number {
-    // This would be tracked in a more sophisticated implementation
-    return Array.from(this.componentCache.values())
-      .reduce((total, cache) => total + (cache.lastUpdated ? 1 : 0), 0);
   }
 
   /**
    * Cleans up resources and event listeners.
    */
   private cleanup(): void {
-    // Clean up all cached module URLs
-    for (const [, cache] of this.componentCache) {
-      if (cache.moduleUrl) {
-        this.compiler.cleanupModuleUrl(cache.moduleUrl);
-      }
-    }
-
-    this.componentCache.clear();
-    this.updateQueue.clear();
+    // Module URLs belong to the component store, which outlives this manager
+    this.scheduler.clear();
 
     // Remove event listeners
-    window.removeEventListener('ai-component-generated', this.handleAIComponentGenerated.bind(this));
-    window.removeEventListener('manual-component-update', this.handleManualComponentUpdate.bind(this));
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
 
     console.log('[HMR] Cleanup complete');
   }
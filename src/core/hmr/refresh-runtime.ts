@@ -0,0 +1,182 @@
+import type { ComponentType } from 'react';
+
+/**
+ * React Refresh runtime for panels
+ *
+ * Panel modules compiled with the React Refresh transform register their
+ * components through `window.__PANEL_REFRESH__`. When a new version of a panel
+ * registers under the same IDs, the mounted component is refreshed in place:
+ * compatible edits keep hook state, while hook signature changes make React
+ * remount the component cleanly. Only available in development, since
+ * production builds of React cannot be refreshed.
+ */
+
+type RefreshRuntime = typeof import('react-refresh/runtime');
+
+/** Bindings for the `$RefreshReg$` / `$RefreshSig$` calls of one module. */
+export interface ModuleRefreshBindings {
+  register: (type: unknown, localId: string) => void;
+  signature: () => ReturnType<RefreshRuntime['createSignatureFunctionForTransform']>;
+}
+
+/**
+ * Refresh runtime of a single panel. Registration IDs are namespaced by
+ * module, and modules by panel, so families never collide across panels.
+ */
+export class PanelRefreshRuntime {
+  private registrations: Set<string> = new Set();
+
+  constructor(
+    readonly panelId: string,
+    private runtime: RefreshRuntime
+  ) {}
+
+  /**
+   * Creates the refresh bindings for one module of the panel.
+   *
+   * @param moduleId - Module identity that stays stable across versions
+   * @returns Bindings used by the module's prelude
+   */
+  forModule(moduleId: string): ModuleRefreshBindings {
+    return {
+      register: (type, localId) => {
+        const id = `${moduleId} ${localId}`;
+        this.registrations.add(id);
+        this.runtime.register(type, id);
+      },
+      signature: () => this.runtime.createSignatureFunctionForTransform()
+    };
+  }
+
+  /**
+   * Checks whether a new component version can replace the mounted one in place.
+   *
+   * @param current - Component type currently rendered
+   * @param next - Component type exported by the new module
+   * @returns true if both belong to the same refresh family
+   */
+  canHotSwap(current: ComponentType, next: ComponentType): boolean {
+    const family = this.runtime.getFamilyByType(current);
+    return family !== undefined &&
+      family === this.runtime.getFamilyByType(next) &&
+      !this.runtime.hasUnrecoverableErrors();
+  }
+
+  /**
+   * Number of component registrations made by the panel's modules.
+   */
+  get registrationCount(): number {
+    return this.registrations.size;
+  }
+}
+
+export class ReactRefreshHost {
+  private runtime: RefreshRuntime | null = null;
+  private panels: Map<string, PanelRefreshRuntime> = new Map();
+  private ready: Promise<void>;
+
+  constructor() {
+    window.__PANEL_REFRESH__ = {
+      forModule: (panelId, moduleId) => this.forPanel(panelId)?.forModule(moduleId)
+    };
+
+    this.ready = this.initialize();
+  }
+
+  /**
+   * Resolves once the runtime has loaded (or is known to be unavailable).
+   * Modules must not be evaluated earlier, or their components go unregistered.
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Checks whether hot updates can preserve state.
+   */
+  isAvailable(): boolean {
+    return this.runtime !== null;
+  }
+
+  /**
+   * Gets (creating on first use) the refresh runtime of a panel.
+   *
+   * @param panelId - Panel identifier
+   * @returns The panel's runtime, or undefined if React Refresh is unavailable
+   */
+  forPanel(panelId: string): PanelRefreshRuntime | undefined {
+    if (!this.runtime) {
+      return undefined;
+    }
+
+    let panel = this.panels.get(panelId);
+    if (!panel) {
+      panel = new PanelRefreshRuntime(panelId, this.runtime);
+      this.panels.set(panelId, panel);
+    }
+    return panel;
+  }
+
+  /**
+   * Refreshes a panel in place after its new version's modules were evaluated.
+   *
+   * @param panelId - Panel identifier
+   * @param current - Component type currently rendered
+   * @param next - Component type exported by the new version
+   * @returns true if the update was applied in place; false if the caller must
+   *   swap in the new component (remounting it)
+   */
+  applyUpdate(panelId: string, current: ComponentType, next: ComponentType): boolean {
+    const panel = this.panels.get(panelId);
+    if (!this.runtime || !panel?.canHotSwap(current, next)) {
+      return false;
+    }
+
+    const update = this.runtime.performReactRefresh();
+    if (update && update.staleFamilies.size > 0) {
+      console.log(`[ReactRefresh] Hook signature changed in ${panelId}, remounting ${update.staleFamilies.size} component(s)`);
+    }
+    return true;
+  }
+
+  /**
+   * Forgets a removed panel.
+   *
+   * @param panelId - Panel identifier
+   */
+  dispose(panelId: string): void {
+    this.panels.delete(panelId);
+  }
+
+  private async initialize(): Promise<void> {
+    if (!import.meta.env.DEV) {
+      return;
+    }
+
+    try {
+      // Reason: the runtime's production build throws on import, so it is only
+      // loaded in development
+      const loaded: any = await import('react-refresh/runtime');
+      // CommonJS interop may put the exports on `default`
+      const runtime: RefreshRuntime = loaded.injectIntoGlobalHook ? loaded : loaded.default;
+      runtime.injectIntoGlobalHook(window);
+      this.runtime = runtime;
+      console.log('[ReactRefresh] Panel refresh runtime ready');
+    } catch (error) {
+      console.warn('[ReactRefresh] Runtime unavailable, hot updates will remount panels:', error);
+    }
+  }
+}
+
+declare global {
+  interface Window {
+    __PANEL_REFRESH__: {
+      forModule: (panelId: string, moduleId: string) => ModuleRefreshBindings | undefined;
+    };
+  }
+}
+
+// Create and export the shared refresh host
+const reactRefreshHost = new ReactRefreshHost();
+
+export default reactRefreshHost;
@@ -0,0 +1,78 @@
+import type { HMRUpdateFailure, PanelFileTree, SourceLocation } from '../../types';
+import type { ComponentLoadError } from '../registry/component-store';
+
+/** Babel reports positions as `(line:column)` with a 0-based column */
+const BABEL_POSITION_PATTERN = /\((\d+):(\d+)\)/;
+
+/**
+ * Describes a failed hot update for display: which phase failed, and where in
+ * the panel's source the error points.
+ *
+ * @param panelId - Panel identifier
+ * @param error - Error thrown while committing the update
+ * @param failedSource - Source of the update that failed
+ * @param lastGoodVersion - Version of the panel still rendering, if any
+ * @returns Failure details for the error overlay
+ */
+export function describeUpdateFailure(
+  panelId: string,
+  error: Error,
+  failedSource: string | PanelFileTree,
+  lastGoodVersion?: number
+): HMRUpdateFailure {
+  const failure: HMRUpdateFailure = {
+    panelId,
+    phase: 'compile',
+    message: error.message.replace(/^Compilation failed: /, ''),
+    failedSource,
+    lastGoodVersion,
+    timestamp: Date.now()
+  };
+
+  const mapped = (error as ComponentLoadError).mapped;
+  if (mapped || error.message.startsWith('Component loading failed')) {
+    failure.phase = 'load';
+    failure.message = error.message.replace(/^Component loading failed: /, '');
+  }
+
+  if (mapped) {
+    failure.filePath = findFilePath(panelId, mapped.sourceName, failedSource);
+    failure.excerptSource = mapped.sourceContent;
+    failure.location = mapped.location;
+    return failure;
+  }
+
+  if (failure.phase === 'compile') {
+    failure.filePath = findFilePath(panelId, failure.message, failedSource);
+    const excerptSource = typeof failedSource === 'string'
+      ? failedSource
+      : failure.filePath && failedSource.files[failure.filePath];
+
+    // A position is only meaningful alongside the file it points into
+    if (excerptSource) {
+      failure.excerptSource = excerptSource;
+      failure.location = parseBabelPosition(failure.message);
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * Finds the panel file named in an error message or source name. Compiled
+ * files are named `<panelId>/<path>`.
+ */
+function findFilePath(panelId: string, text: string, source: string | PanelFileTree): string | undefined {
+  if (typeof source === 'string') {
+    return undefined;
+  }
+
+  // Reason: longest paths first, so `Chart.tsx` is not taken for `Chart.ts`
+  const paths = Object.keys(source.files).sort((a, b) => b.length - a.length);
+  return paths.find(path => text.includes(`${panelId}/${path}`));
+}
+
+function parseBabelPosition(message: string): SourceLocation | undefined {
+  const match = message.match(BABEL_POSITION_PATTERN);
+  return match ? { line: Number(match[1]), column: Number(match[2]) + 1 } : undefined;
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ComponentCacheEntry, HMRUpdateTiming, PanelFileTree } from '../../types';
+import type { WorkerCompiler } from '../compiler/worker-compiler';
+import type { ComponentStore } from '../registry/component-store';
+import { HMR_UPDATE_TARGET_MS, UpdateScheduler } from './update-scheduler';
+
+type Source = string | PanelFileTree;
+
+interface PendingCommit {
+  source: Source;
+  resolve: (entry: Pick<ComponentCacheEntry, 'version' | 'timing'>) => void;
+  reject: (error: Error) => void;
+}
+
+/** Component store whose commits settle when the test says so */
+function createFakeStore() {
+  const versions = new Map<string, number>();
+  const commits: PendingCommit[] = [];
+
+  const store = {
+    get: (panelId: string) => (versions.has(panelId) ? { version: versions.get(panelId)! } : undefined),
+    commit: vi.fn((_panelId: string, source: Source) => new Promise((resolve, reject) => {
+      commits.push({ source, resolve, reject });
+    }))
+  };
+
+  return { store, commits, versions };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('UpdateScheduler', () => {
+  let fake: ReturnType<typeof createFakeStore>;
+  let compiler: { cancel: ReturnType<typeof vi.fn> };
+  let onApplied: ReturnType<typeof vi.fn<(timing: HMRUpdateTiming) => void>>;
+  let onFailed: ReturnType<typeof vi.fn<(panelId: string, error: Error, source: Source) => void>>;
+  let scheduler: UpdateScheduler;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    fake = createFakeStore();
+    compiler = { cancel: vi.fn() };
+    onApplied = vi.fn();
+    onFailed = vi.fn();
+    scheduler = new UpdateScheduler(
+      fake.store as unknown as ComponentStore,
+      compiler as unknown as WorkerCompiler,
+      { onApplied, onFailed }
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('latest-wins coalescing', () => {
+    it('collapses a synchronous burst into one commit of the newest source', async () => {
+      const results = ['v1', 'v2', 'v3'].map(source => scheduler.schedule('panel', source));
+      await flush();
+
+      expect(fake.store.commit).toHaveBeenCalledOnce();
+      expect(fake.commits[0].source).toBe('v3');
+
+      fake.commits[0].resolve({ version: 1 });
+      const timings = await Promise.all(results);
+
+      expect(timings[0]).toMatchObject({ panelId: 'panel', version: 1, coalesced: 2 });
+      expect(timings[1]).toBe(timings[0]);
+      expect(timings[2]).toBe(timings[0]);
+      expect(onApplied).toHaveBeenCalledOnce();
+    });
+
+    it('keeps bursts of different panels apart', async () => {
+      scheduler.schedule('a', 'a1');
+      scheduler.schedule('b', 'b1');
+      await flush();
+
+      expect(fake.commits.map(commit => commit.source)).toEqual(['a1', 'b1']);
+      expect(scheduler.pendingCount).toBe(2);
+    });
+  });
+
+  describe('superseded compiles', () => {
+    it('cancels the compile of an older update and shares the newer outcome', async () => {
+      const first = scheduler.schedule('panel', 'old');
+      await flush();
+      const second = scheduler.schedule('panel', 'new');
+      await flush();
+
+      expect(compiler.cancel).toHaveBeenCalledWith('panel');
+      expect(fake.commits.map(commit => commit.source)).toEqual(['old', 'new']);
+
+      // The store answers the cancelled commit with the newer version
+      fake.commits[1].resolve({ version: 2 });
+      fake.commits[0].resolve({ version: 2 });
+
+      const [older, newer] = await Promise.all([first, second]);
+      expect(older).toBe(newer);
+      expect(newer).toMatchObject({ version: 2, coalesced: 1 });
+      expect(onApplied).toHaveBeenCalledOnce();
+    });
+
+    it('does not report a superseded compile that failed as a failure', async () => {
+      const first = scheduler.schedule('panel', 'old');
+      await flush();
+      const second = scheduler.schedule('panel', 'new');
+      await flush();
+
+      fake.commits[0].reject(new Error('Compilation cancelled'));
+      fake.commits[1].resolve({ version: 2 });
+
+      await expect(first).resolves.toMatchObject({ version: 2 });
+      await expect(second).resolves.toMatchObject({ version: 2 });
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+
+    it('does not cancel anything once an update landed', async () => {
+      const first = scheduler.schedule('panel', 'v1');
+      await flush();
+      fake.commits[0].resolve({ version: 1 });
+      await first;
+
+      scheduler.schedule('panel', 'v2');
+      await flush();
+      expect(compiler.cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  it('resolves null without a report when the version did not change', async () => {
+    fake.versions.set('panel', 3);
+    const result = scheduler.schedule('panel', 'same');
+    await flush();
+    fake.commits[0].resolve({ version: 3 });
+
+    await expect(result).resolves.toBeNull();
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+
+  it('reports failed updates with their source', async () => {
+    const result = scheduler.schedule('panel', 'broken');
+    await flush();
+    const error = new Error('Unexpected token');
+    fake.commits[0].reject(error);
+
+    await expect(result).resolves.toBeNull();
+    expect(onFailed).toHaveBeenCalledWith('panel', error, 'broken');
+    expect(scheduler.pendingCount).toBe(0);
+  });
+
+  it('drops updates that have not started when cleared', async () => {
+    const result = scheduler.schedule('panel', 'v1');
+    scheduler.clear();
+
+    await expect(result).resolves.toBeNull();
+    expect(fake.store.commit).not.toHaveBeenCalled();
+  });
+
+  describe('timing report', () => {
+    it('times each phase from the arrival of the applied source', async () => {
+      const result = scheduler.schedule('panel', 'v1');
+      await flush();
+
+      now = 1030;
+      fake.commits[0].resolve({ version: 1, timing: { queueMs: 5, compileMs: 20, importMs: 4 } });
+      await flush();
+      now = 1040;
+
+      const timing = await result;
+      expect(timing).toEqual({
+        panelId: 'panel',
+        version: 1,
+        queueMs: 5,
+        compileMs: 20,
+        importMs: 4,
+        renderMs: expect.any(Number),
+        totalMs: expect.any(Number),
+        coalesced: 0
+      });
+      expect(timing!.totalMs).toBeGreaterThanOrEqual(30);
+      expect(scheduler.getTimings()).toEqual([timing]);
+    });
+
+    it('summarizes recent updates against the target', async () => {
+      for (const [version, duration] of [[1, 10], [2, HMR_UPDATE_TARGET_MS + 30]]) {
+        now = 0;
+        const result = scheduler.schedule('panel', `v${version}`);
+        await flush();
+        now = duration;
+        fake.commits[version - 1].resolve({ version });
+        await result;
+      }
+
+      const stats = scheduler.getStats();
+      expect(stats).toMatchObject({ appliedUpdates: 2, coalescedUpdates: 0, withinTargetRate: 0.5 });
+      expect(stats.averageUpdateMs).toBe((10 + HMR_UPDATE_TARGET_MS + 30) / 2);
+      expect(stats.lastUpdate).toMatchObject({ version: 2 });
+      expect(console.warn).toHaveBeenCalledOnce();
+      expect(vi.mocked(console.warn).mock.calls[0][0]).toMatch(/over the 50ms target/);
+    });
+  });
+});
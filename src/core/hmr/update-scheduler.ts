@@ -0,0 +1,209 @@
+import type { HMRUpdateTiming, PanelFileTree } from '../../types';
+import type { ComponentStore } from '../registry/component-store';
+import type { WorkerCompiler } from '../compiler/worker-compiler';
+
+/**
+ * Per-panel hot update scheduler
+ *
+ * Bursts of updates to one panel collapse into a single update that applies
+ * the most recent source: updates arriving in the same tick are merged before
+ * compiling, and an update arriving while an older one compiles cancels that
+ * compile. Each applied update is timed phase by phase against the HMR target.
+ */
+
+/** HMR updates are expected to be painted within this many milliseconds */
+export const HMR_UPDATE_TARGET_MS = 50;
+
+const MAX_RECORDED_TIMINGS = 50;
+
+export interface UpdateSchedulerHooks {
+  /** Called once per applied update, after it was painted */
+  onApplied: (timing: HMRUpdateTiming) => void;
+  /** Called once per failed update, with the source that failed */
+  onFailed: (panelId: string, error: Error, source: string | PanelFileTree) => void;
+}
+
+interface ScheduledUpdate {
+  source: string | PanelFileTree;
+  /** When the current source arrived */
+  scheduledAt: number;
+  coalesced: number;
+  result: Promise<HMRUpdateTiming | null>;
+  /** Newer update that cancelled this one mid-compile */
+  supersededBy?: ScheduledUpdate;
+}
+
+export class UpdateScheduler {
+  private queued: Map<string, ScheduledUpdate> = new Map();
+  private applying: Map<string, ScheduledUpdate> = new Map();
+  private timings: HMRUpdateTiming[] = [];
+  private appliedCount: number = 0;
+  private coalescedCount: number = 0;
+
+  constructor(
+    private store: ComponentStore,
+    private compiler: WorkerCompiler,
+    private hooks: UpdateSchedulerHooks
+  ) {}
+
+  /**
+   * Schedules an update of a panel. Callers whose updates are coalesced share
+   * the outcome of the update that applies the newest source.
+   *
+   * @param panelId - Panel identifier
+   * @param source - Panel source, or the file tree of a multi-file panel
+   * @returns Promise resolving to the applied update's timing, or null if the
+   *   panel was already up to date or the update failed
+   */
+  schedule(panelId: string, source: string | PanelFileTree): Promise<HMRUpdateTiming | null> {
+    const queued = this.queued.get(panelId);
+    if (queued) {
+      queued.source = source;
+      queued.scheduledAt = performance.now();
+      queued.coalesced++;
+      return queued.result;
+    }
+
+    const update = { source, scheduledAt: performance.now(), coalesced: 0 } as ScheduledUpdate;
+    // Reason: starting one microtask later lets a synchronous burst of updates
+    // collapse into one compile without delaying a lone update
+    update.result = Promise.resolve().then(() => this.apply(panelId, update));
+    this.queued.set(panelId, update);
+    return update.result;
+  }
+
+  /**
+   * Counts the panels with an update waiting or being applied.
+   */
+  get pendingCount(): number {
+    return new Set([...this.queued.keys(), ...this.applying.keys()]).size;
+  }
+
+  /**
+   * Gets the timings of recent updates, oldest first.
+   */
+  getTimings(): HMRUpdateTiming[] {
+    return [...this.timings];
+  }
+
+  /**
+   * Gets update statistics for monitoring.
+   */
+  getStats(): {
+    appliedUpdates: number;
+    coalescedUpdates: number;
+    averageUpdateMs: number;
+    withinTargetRate: number;
+    lastUpdate?: HMRUpdateTiming;
+  } {
+    const recent = this.timings;
+    const totalMs = recent.reduce((sum, timing) => sum + timing.totalMs, 0);
+    const withinTarget = recent.filter(timing => timing.totalMs <= HMR_UPDATE_TARGET_MS).length;
+
+    return {
+      appliedUpdates: this.appliedCount,
+      coalescedUpdates: this.coalescedCount,
+      averageUpdateMs: recent.length > 0 ? totalMs / recent.length : 0,
+      withinTargetRate: recent.length > 0 ? withinTarget / recent.length : 0,
+      lastUpdate: recent[recent.length - 1]
+    };
+  }
+
+  /**
+   * Drops scheduled updates that have not started. Updates being applied finish.
+   */
+  clear(): void {
+    this.queued.clear();
+    this.timings = [];
+  }
+
+  private async apply(panelId: string, update: ScheduledUpdate): Promise<HMRUpdateTiming | null> {
+    if (this.queued.get(panelId) !== update) {
+      return null;
+    }
+    this.queued.delete(panelId);
+
+    // The older update's compile is for stale source; the store answers its
+    // commit with this one
+    const stale = this.applying.get(panelId);
+    if (stale) {
+      stale.supersededBy = update;
+      update.coalesced += stale.coalesced + 1;
+      this.compiler.cancel(panelId);
+    }
+    this.applying.set(panelId, update);
+
+    const previousVersion = this.store.get(panelId)?.version;
+
+    try {
+      const entry = await this.store.commit(panelId, update.source);
+      if (update.supersededBy) {
+        return update.supersededBy.result;
+      }
+      // Landed: a newer update no longer cancels anything of this one
+      this.applying.delete(panelId);
+      if (entry.version === previousVersion) {
+        return null;
+      }
+
+      const committedAt = performance.now();
+      await nextPaint();
+      const paintedAt = performance.now();
+
+      const timing: HMRUpdateTiming = {
+        panelId,
+        version: entry.version,
+        queueMs: entry.timing?.queueMs ?? 0,
+        compileMs: entry.timing?.compileMs ?? 0,
+        importMs: entry.timing?.importMs ?? 0,
+        renderMs: paintedAt - committedAt,
+        totalMs: paintedAt - update.scheduledAt,
+        coalesced: update.coalesced
+      };
+      this.record(timing);
+      this.hooks.onApplied(timing);
+      return timing;
+    } catch (error) {
+      if (update.supersededBy) {
+        return update.supersededBy.result;
+      }
+      this.hooks.onFailed(panelId, error as Error, update.source);
+      return null;
+    } finally {
+      if (this.applying.get(panelId) === update) {
+        this.applying.delete(panelId);
+      }
+    }
+  }
+
+  private record(timing: HMRUpdateTiming): void {
+    this.appliedCount++;
+    this.coalescedCount += timing.coalesced;
+    this.timings.push(timing);
+    if (this.timings.length > MAX_RECORDED_TIMINGS) {
+      this.timings.shift();
+    }
+
+    if (timing.totalMs > HMR_UPDATE_TARGET_MS) {
+      console.warn(
+        `[UpdateScheduler] ${timing.panelId} v${timing.version} took ${timing.totalMs.toFixed(1)}ms ` +
+        `(queue ${timing.queueMs.toFixed(1)}, compile ${timing.compileMs.toFixed(1)}, ` +
+        `import ${timing.importMs.toFixed(1)}, render ${timing.renderMs.toFixed(1)}), ` +
+        `over the ${HMR_UPDATE_TARGET_MS}ms target`
+      );
+    }
+  }
+}
+
+/**
+ * Resolves once the next frame has been painted.
+ */
+function nextPaint(): Promise<void> {
+  if (typeof requestAnimationFrame === 'undefined') {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  // Reason: React renders the committed version before the next frame; a task
+  // queued from the frame callback runs after that frame was painted
+  return new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve, 0)));
+}
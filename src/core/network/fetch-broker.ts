@@ -0,0 +1,316 @@
+import panelEvents from '../registry/panel-events';
+import { formatBytes } from '../storage/panel-data-store';
+
+/**
+ * Fetch Broker
+ *
+ * The only way panels reach the network: `usePanelFetch` in the panel SDK
+ * sends its requests here. The broker allows only origins on the workspace
+ * allowlist and a few methods, never sends credentials or follows redirects,
+ * limits request and response sizes, and logs every request per panel for the panel's info
+ * section. The request itself is made by a pluggable responder, so tests can
+ * answer requests locally.
+ */
+
+/** Methods panels may use */
+export const PANEL_FETCH_METHODS = ['GET', 'HEAD', 'POST'] as const;
+
+/** Largest request body panels may send */
+export const MAX_REQUEST_BYTES = 64 * 1024;
+
+/** Largest response body passed back to panels */
+export const MAX_RESPONSE_BYTES = 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/** Requests kept in each panel's log */
+const MAX_LOG_ENTRIES = 50;
+
+/** Headers panels may not set; the browser or the broker owns them */
+const FORBIDDEN_HEADERS = new Set(['authorization', 'cookie', 'host', 'origin', 'referer', 'proxy-authorization']);
+
+export type PanelFetchMethod = typeof PANEL_FETCH_METHODS[number];
+
+/** A request made by a panel; it must survive structured cloning */
+export interface PanelFetchRequest {
+  url: string;
+  method?: PanelFetchMethod;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/** Response passed back to a panel */
+export interface PanelFetchResponse {
+  url: string;
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** A request in a panel's log */
+export interface PanelRequestLogEntry {
+  id: number;
+  method: string;
+  url: string;
+  /** Blocked requests never left the app */
+  outcome: 'ok' | 'blocked' | 'failed';
+  status?: number;
+  bytes?: number;
+  error?: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+/**
+ * Makes the network request for an allowed panel request.
+ *
+ * @param url - Absolute request URL
+ * @param init - Request options chosen by the broker
+ * @returns The response
+ */
+export type FetchResponder = (url: string, init: RequestInit) => Promise<Response>;
+
+const networkResponder: FetchResponder = (url, init) => fetch(url, init);
+
+export class FetchBroker {
+  private allowedOrigins: Set<string> = new Set();
+  private logs: Map<string, PanelRequestLogEntry[]> = new Map();
+  private listeners: Map<string, Set<() => void>> = new Map();
+  private nextId = 1;
+
+  constructor(
+    private responder: FetchResponder = networkResponder,
+    private timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    panelEvents.subscribe('remove-panel', (event) => {
+      this.logs.delete(event.payload.panelId);
+      this.listeners.delete(event.payload.panelId);
+    });
+  }
+
+  /**
+   * Replaces the origins panels may request.
+   *
+   * @param origins - Origins such as `https://api.example.com`
+   */
+  setAllowedOrigins(origins: string[]): void {
+    this.allowedOrigins = new Set(origins.map(normalizeOrigin).filter((origin): origin is string => origin !== null));
+  }
+
+  /**
+   * Replaces the responder, e.g. with a local mock in tests.
+   *
+   * @param responder - Responder to use, or null for the network
+   */
+  setResponder(responder: FetchResponder | null): void {
+    this.responder = responder ?? networkResponder;
+  }
+
+  /**
+   * Makes a request for a panel.
+   *
+   * @param panelId - Requesting panel
+   * @param request - The request
+   * @returns The response; non-2xx responses resolve too
+   * @throws Error if the request is not allowed, fails or its response is too large
+   */
+  async request(panelId: string, request: PanelFetchRequest): Promise<PanelFetchResponse> {
+    const startedAt = Date.now();
+    const method = String(request?.method ?? 'GET').toUpperCase();
+    const log = (entry: Omit<PanelRequestLogEntry, 'id' | 'method' | 'url' | 'startedAt' | 'durationMs'>) =>
+      this.record(panelId, { id: this.nextId++, method, url: String(request?.url), startedAt, durationMs: Date.now() - startedAt, ...entry });
+
+    let url: URL;
+    let init: RequestInit;
+    try {
+      url = this.checkUrl(request?.url);
+      init = this.buildInit(method, request);
+    } catch (error) {
+      log({ outcome: 'blocked', error: (error as Error).message });
+      throw error;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.responder(url.href, { ...init, signal: controller.signal });
+      const body = await readLimited(response, MAX_RESPONSE_BYTES);
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+
+      log({ outcome: 'ok', status: response.status, bytes: body.bytes });
+      return {
+        url: url.href,
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: body.text
+      };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Request timed out after ${this.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      log({ outcome: 'failed', error: message });
+      throw new Error(message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Lists a panel's recent requests.
+   *
+   * @param panelId - Panel identifier
+   * @returns Requests, newest first
+   */
+  getLog(panelId: string): PanelRequestLogEntry[] {
+    return [...(this.logs.get(panelId) ?? [])].reverse();
+  }
+
+  /**
+   * Listens for requests logged for a panel.
+   *
+   * @param panelId - Panel identifier
+   * @param listener - Called after each logged request
+   * @returns Function removing the listener
+   */
+  subscribe(panelId: string, listener: () => void): () => void {
+    let listeners = this.listeners.get(panelId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(panelId, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners!.delete(listener);
+  }
+
+  private checkUrl(value: unknown): URL {
+    let url: URL;
+    try {
+      url = new URL(String(value));
+    } catch {
+      throw new Error(`Invalid URL: ${String(value)} - panel requests need an absolute URL`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`Unsupported protocol ${url.protocol} - panels may only make HTTP requests`);
+    }
+    if (url.username || url.password) {
+      throw new Error('URLs with credentials are not allowed');
+    }
+    if (!this.allowedOrigins.has(url.origin)) {
+      throw new Error(`${url.origin} is not an allowed origin - add it in the workspace's network settings`);
+    }
+    return url;
+  }
+
+  private buildInit(method: string, request: PanelFetchRequest): RequestInit {
+    if (!(PANEL_FETCH_METHODS as readonly string[]).includes(method)) {
+      throw new Error(`Method ${method} is not allowed - panels may use ${PANEL_FETCH_METHODS.join(', ')}`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (FORBIDDEN_HEADERS.has(name.toLowerCase())) {
+        throw new Error(`Header ${name} cannot be set by panels`);
+      }
+      headers[name] = String(value);
+    }
+
+    if (request.body !== undefined) {
+      if (method !== 'POST') {
+        throw new Error(`${method} requests cannot have a body`);
+      }
+      if (typeof request.body !== 'string') {
+        throw new Error('Request bodies must be strings, e.g. JSON.stringify(data)');
+      }
+      if (new TextEncoder().encode(request.body).length > MAX_REQUEST_BYTES) {
+        throw new Error(`Request body exceeds ${formatBytes(MAX_REQUEST_BYTES)}`);
+      }
+    }
+
+    // Reason: a followed redirect would reach (and re-send the body to) an
+    // origin that was never checked, so any redirect fails the request
+    return { method, headers, body: request.body, credentials: 'omit', referrerPolicy: 'no-referrer', redirect: 'error' };
+  }
+
+  private record(panelId: string, entry: PanelRequestLogEntry): void {
+    let log = this.logs.get(panelId);
+    if (!log) {
+      log = [];
+      this.logs.set(panelId, log);
+    }
+    log.push(entry);
+    if (log.length > MAX_LOG_ENTRIES) {
+      log.splice(0, log.length - MAX_LOG_ENTRIES);
+    }
+
+    if (entry.outcome !== 'ok') {
+      console.warn(`[FetchBroker] ${entry.outcome === 'blocked' ? 'Blocked' : 'Failed'} ${entry.method} ${entry.url} from ${panelId}: ${entry.error}`);
+    }
+    this.listeners.get(panelId)?.forEach(listener => listener());
+  }
+}
+
+/**
+ * Reduces an allowlist entry to its origin.
+ *
+ * @param value - Origin or URL, e.g. `https://api.example.com/v1`
+ * @returns The origin, or null if the value is not an HTTP(S) URL
+ */
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a response body, failing as soon as it exceeds the limit.
+ */
+async function readLimited(response: Response, limit: number): Promise<{ text: string; bytes: number }> {
+  const tooLarge = () => new Error(`Response exceeds the ${formatBytes(limit)} limit for panels`);
+
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > limit) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return { text: '', bytes: 0 };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.length;
+    if (bytes > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const merged = new Uint8Array(bytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { text: new TextDecoder().decode(merged), bytes };
+}
+
+// Create and export default instance
+const fetchBroker = new FetchBroker();
+
+export default fetchBroker;
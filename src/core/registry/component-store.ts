@@ -0,0 +1,375 @@
+import type { ComponentType } from 'react';
+import type { ComponentCacheEntry, MappedPanelError, PanelFileTree } from '../../types';
+import workerCompiler, { WorkerCompiler } from '../compiler/worker-compiler';
+import sourceMapIndex from '../compiler/source-map';
+import reactRefreshHost from '../hmr/refresh-runtime';
+
+/**
+ * Component Store
+ *
+ * Single source of truth for compiled panel components, shared by the panel
+ * registry and the HMR manager. Commits for a panel are serialized and each
+ * one that lands bumps the panel's version atomically, so readers never see a
+ * half-swapped panel. The store owns every blob URL it creates: a module URL is
+ * revoked exactly once, when no committed version uses it any more. Where React
+ * Refresh can apply a new version in place, the committed component keeps its
+ * identity so mounted instances keep their state. A panel can be evicted to
+ * free its modules; it keeps its source and is recompiled by `reload`.
+ */
+
+type ComponentStoreListener = (panelId: string, entry: ComponentCacheEntry | undefined) => void;
+
+/** Error thrown when a compiled panel module fails to load */
+export type ComponentLoadError = Error & {
+  /** Panel source location of the error, if it was thrown by panel code */
+  mapped?: MappedPanelError;
+};
+
+interface InFlightCommit {
+  sourceKey: string;
+  promise: Promise<ComponentCacheEntry>;
+}
+
+export class ComponentStore {
+  private entries: Map<string, ComponentCacheEntry> = new Map();
+  private sourceKeys: Map<string, string> = new Map();
+  private sources: Map<string, string | PanelFileTree> = new Map();
+  private inFlight: Map<string, InFlightCommit> = new Map();
+  private latestVersions: Map<string, number> = new Map();
+  private tails: Map<string, Promise<void>> = new Map();
+  private evicted: Set<string> = new Set();
+  private listeners: Set<ComponentStoreListener> = new Set();
+  private commitCount: number = 0;
+  private compiler: WorkerCompiler;
+
+  constructor() {
+    this.compiler = workerCompiler;
+    console.log('[ComponentStore] Initialized');
+  }
+
+  /**
+   * Compiles, loads and commits a new version of a panel. Committing the
+   * source that is already current or in flight reuses that compilation
+   * instead of compiling again.
+   *
+   * @param panelId - Panel identifier
+   * @param source - Panel source, or the file tree of a multi-file panel
+   * @returns Promise resolving to the committed entry
+   * @throws Error if compilation or module loading fails
+   */
+  async commit(panelId: string, source: string | PanelFileTree): Promise<ComponentCacheEntry> {
+    const sourceKey = typeof source === 'string' ? source : JSON.stringify(source);
+
+    const inFlight = this.inFlight.get(panelId);
+    if (inFlight?.sourceKey === sourceKey) {
+      return inFlight.promise;
+    }
+
+    const current = this.entries.get(panelId);
+    if (!inFlight && current && this.sourceKeys.get(panelId) === sourceKey) {
+      return current;
+    }
+
+    const version = (this.latestVersions.get(panelId) ?? current?.version ?? 0) + 1;
+    this.latestVersions.set(panelId, version);
+
+    const promise = this.build(panelId, source, sourceKey, version).then(entry =>
+      // A newer commit started before this one ran; it answers for both
+      entry ?? this.inFlight.get(panelId)?.promise ?? this.requireEntry(panelId)
+    );
+    this.inFlight.set(panelId, { sourceKey, promise });
+
+    try {
+      return await promise;
+    } finally {
+      if (this.inFlight.get(panelId)?.promise === promise) {
+        this.inFlight.delete(panelId);
+      }
+    }
+  }
+
+  /**
+   * Gets the current entry of a panel.
+   *
+   * @param panelId - Panel identifier
+   * @returns Committed entry or undefined
+   */
+  get(panelId: string): ComponentCacheEntry | undefined {
+    return this.entries.get(panelId);
+  }
+
+  /**
+   * Gets the source of a panel's committed version.
+   *
+   * @param panelId - Panel identifier
+   * @returns Committed source or file tree, or undefined
+   */
+  getSource(panelId: string): string | PanelFileTree | undefined {
+    return this.sources.get(panelId);
+  }
+
+  /**
+   * Checks whether a panel has a committed version.
+   *
+   * @param panelId - Panel identifier
+   */
+  has(panelId: string): boolean {
+    return this.entries.has(panelId);
+  }
+
+  /**
+   * Lists the panels that have a committed version, evicted ones included.
+   */
+  keys(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  /**
+   * Checks whether a panel's modules were evicted.
+   *
+   * @param panelId - Panel identifier
+   */
+  isEvicted(panelId: string): boolean {
+    return this.evicted.has(panelId);
+  }
+
+  /**
+   * Unloads a panel's modules and compiled code, keeping its source so it can
+   * be reloaded. Listeners are not notified: the panel still exists. Panels
+   * with a commit in progress are left alone.
+   *
+   * @param panelId - Panel identifier
+   * @returns Whether the panel was evicted
+   */
+  evict(panelId: string): boolean {
+    const entry = this.entries.get(panelId);
+    if (!entry || this.tails.has(panelId)) {
+      return false;
+    }
+
+    this.entries.delete(panelId);
+    this.sourceKeys.delete(panelId);
+    this.evicted.add(panelId);
+    this.compiler.releaseModules(entry);
+    reactRefreshHost.dispose(panelId);
+
+    console.log(`[ComponentStore] Evicted panel: ${panelId}`);
+    return true;
+  }
+
+  /**
+   * Recompiles an evicted panel from its committed source. The compilation
+   * cache usually answers, so no Babel work is repeated.
+   *
+   * @param panelId - Panel identifier
+   * @returns Promise resolving to the panel's entry, or undefined if it has no source
+   */
+  async reload(panelId: string): Promise<ComponentCacheEntry | undefined> {
+    const source = this.sources.get(panelId);
+    if (source === undefined) {
+      return undefined;
+    }
+    return this.commit(panelId, source);
+  }
+
+  /**
+   * Removes a panel and revokes its module URLs. Safe to call repeatedly.
+   *
+   * @param panelId - Panel identifier
+   */
+  remove(panelId: string): void {
+    const entry = this.entries.get(panelId);
+    if (!entry && !this.evicted.has(panelId)) {
+      return;
+    }
+
+    this.entries.delete(panelId);
+    this.sourceKeys.delete(panelId);
+    this.sources.delete(panelId);
+    this.evicted.delete(panelId);
+    if (entry) {
+      this.compiler.releaseModules(entry);
+    }
+    reactRefreshHost.dispose(panelId);
+    this.notify(panelId, undefined);
+
+    console.log(`[ComponentStore] Removed panel: ${panelId}`);
+  }
+
+  /**
+   * Subscribes to committed versions and removals.
+   *
+   * @param listener - Called with the panel ID and its new entry (undefined when removed)
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ComponentStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Gets store statistics for monitoring. Memory is accounted by the panel
+   * lifecycle, which also sees module blobs.
+   */
+  getStats(): { components: number; evicted: number; commits: number } {
+    return {
+      components: this.entries.size,
+      evicted: this.evicted.size,
+      commits: this.commitCount
+    };
+  }
+
+  /**
+   * Compiles and swaps in one version, after the panel's earlier commits finish.
+   *
+   * @returns The committed (or newer) entry, or null if superseded before starting
+   */
+  private async build(
+    panelId: string,
+    source: string | PanelFileTree,
+    sourceKey: string,
+    version: number
+  ): Promise<ComponentCacheEntry | null> {
+    const prior = this.tails.get(panelId);
+    let finish!: () => void;
+    const tail = new Promise<void>(resolve => (finish = resolve));
+    this.tails.set(panelId, tail);
+
+    const queuedAt = performance.now();
+
+    try {
+      // Reason: multi-file compiles reuse modules of the current version, so the
+      // current version must not change (and be released) mid-compile
+      await prior;
+
+      if (this.latestVersions.get(panelId) !== version) {
+        return null;
+      }
+
+      const compileStart = performance.now();
+      const previous = this.entries.get(panelId);
+      const result = typeof source === 'string'
+        ? await this.compiler.compileComponent(source, panelId)
+        : await this.compiler.compilePanelFiles(panelId, source, previous?.files);
+
+      // A compile cancelled for newer source is answered by the newer commit
+      if (result.cancelled && this.latestVersions.get(panelId) !== version) {
+        return null;
+      }
+
+      if (!result.success || !result.moduleUrl) {
+        throw new Error(`Compilation failed: ${result.error?.message}`);
+      }
+
+      const importStart = performance.now();
+      let component: ComponentType;
+      try {
+        component = await this.loadComponent(result.moduleUrl);
+      } catch (error) {
+        this.compiler.releaseModules(result, previous);
+        throw error;
+      }
+
+      // Compatible versions are refreshed in place; keeping the mounted type
+      // stops React from remounting the panel and discarding its state
+      const hotSwapped = previous !== undefined &&
+        reactRefreshHost.applyUpdate(panelId, previous.component, component);
+      const committedAt = performance.now();
+
+      const entry: ComponentCacheEntry = {
+        component: hotSwapped ? previous.component : component,
+        version,
+        moduleUrl: result.moduleUrl,
+        lastUpdated: Date.now(),
+        compiledCode: result.code || '',
+        sourceMap: result.map,
+        files: result.files,
+        warnings: result.warnings,
+        timing: {
+          queueMs: compileStart - queuedAt,
+          compileMs: importStart - compileStart,
+          importMs: committedAt - importStart
+        }
+      };
+
+      this.entries.set(panelId, entry);
+      this.sourceKeys.set(panelId, sourceKey);
+      this.sources.set(panelId, source);
+      this.evicted.delete(panelId);
+      this.commitCount++;
+
+      // Modules the new version still uses change owner instead of being revoked
+      if (previous) {
+        this.compiler.releaseModules(previous, entry);
+      }
+
+      this.notify(panelId, entry);
+      console.log(`[ComponentStore] Committed ${panelId} v${version}${hotSwapped ? ' (refreshed in place)' : ''}`);
+      return entry;
+    } finally {
+      finish();
+      if (this.tails.get(panelId) === tail) {
+        this.tails.delete(panelId);
+      }
+    }
+  }
+
+  /**
+   * Loads a React component from a module URL.
+   *
+   * @param moduleUrl - Blob URL of the compiled module
+   * @returns Promise resolving to the loaded component
+   */
+  private async loadComponent(moduleUrl: string): Promise<ComponentType> {
+    try {
+      // Components are registered with React Refresh while the module evaluates
+      await reactRefreshHost.whenReady();
+
+      // Blob URLs are unique per compilation; a query string would break their resolution
+      const module = await import(/* @vite-ignore */ moduleUrl);
+      const Component = module.default;
+
+      if (!Component) {
+        throw new Error('Module does not export a default component');
+      }
+
+      if (typeof Component !== 'function') {
+        throw new Error('Exported default is not a valid React component');
+      }
+
+      return Component;
+    } catch (error) {
+      console.error('[ComponentStore] Failed to load component:', error);
+      // Reason: the failed modules are released, source maps included, right
+      // after this, so errors thrown while evaluating them are mapped now
+      const loadError: ComponentLoadError = new Error(`Component loading failed: ${error}`);
+      loadError.mapped = sourceMapIndex.mapError(error) ?? undefined;
+      throw loadError;
+    }
+  }
+
+  private requireEntry(panelId: string): ComponentCacheEntry {
+    const entry = this.entries.get(panelId);
+    if (!entry) {
+      throw new Error(`Panel ${panelId} has no committed version`);
+    }
+    return entry;
+  }
+
+  private notify(panelId: string, entry: ComponentCacheEntry | undefined): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(panelId, entry);
+      } catch (error) {
+        console.error('[ComponentStore] Listener failed:', error);
+      }
+    }
+  }
+}
+
+// Create and export the shared store instance
+const componentStore = new ComponentStore();
+
+export default componentStore;
@@ -0,0 +1,147 @@
+import type { PanelEvent, PanelEventMap, PanelEventType } from '../../types';
+
+export type PanelEventListener<K extends PanelEventType> = (event: PanelEvent<K>) => void;
+
+export interface SubscribeOptions {
+  /** Deliver the matching events still in the recent-event log before new ones */
+  replay?: boolean;
+}
+
+/**
+ * Panel Event Bus
+ *
+ * Typed events between the registry, the HMR manager, sync, history and the
+ * UI. The bus belongs to the panel registry, which exposes it as
+ * `panelRegistry.events` for components; core modules import it from here,
+ * which keeps them free of import cycles with the registry.
+ *
+ * Ordering: every event gets a sequence number when emitted and all
+ * listeners see events in that order. An event emitted from inside a
+ * listener is queued until the current event reached every listener, so no
+ * listener sees a later event before an earlier one. Listeners subscribed
+ * while an event is being delivered start with the next event; listeners
+ * unsubscribed meanwhile receive nothing more.
+ */
+export class PanelEventBus {
+  private listeners: Map<PanelEventType, Set<PanelEventListener<any>>> = new Map();
+  private recent: PanelEvent[] = [];
+  private queue: PanelEvent[] = [];
+  private dispatching: boolean = false;
+  private sequence: number = 0;
+
+  constructor(private logSize: number = 200) {}
+
+  /**
+   * Subscribes to one or more event types.
+   *
+   * @param types - Event type, or types to receive in one ordered stream
+   * @param listener - Called with each event
+   * @param options - Replay options
+   * @returns Disposer that unsubscribes the listener
+   */
+  subscribe<K extends PanelEventType>(
+    types: K | K[],
+    listener: PanelEventListener<K>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const typeList = Array.isArray(types) ? types : [types];
+
+    if (options.replay) {
+      for (const event of this.recent) {
+        if ((typeList as PanelEventType[]).includes(event.type)) {
+          this.deliver(listener, event as PanelEvent<K>);
+        }
+      }
+    }
+
+    for (const type of typeList) {
+      let set = this.listeners.get(type);
+      if (!set) {
+        set = new Set();
+        this.listeners.set(type, set);
+      }
+      set.add(listener);
+    }
+
+    return () => {
+      for (const type of typeList) {
+        this.listeners.get(type)?.delete(listener);
+      }
+    };
+  }
+
+  /**
+   * Emits an event to every listener of its type.
+   *
+   * @param type - Event type
+   * @param payload - Event payload
+   * @returns The emitted event
+   */
+  emit<K extends PanelEventType>(type: K, payload: PanelEventMap[K]): PanelEvent<K> {
+    const event = { type, payload, sequence: ++this.sequence, timestamp: Date.now() } as PanelEvent<K>;
+    this.queue.push(event as PanelEvent);
+
+    // Reason: re-entrant emits are delivered by the outer loop once the
+    // current event has reached all of its listeners
+    if (!this.dispatching) {
+      this.dispatching = true;
+      try {
+        while (this.queue.length > 0) {
+          this.dispatch(this.queue.shift()!);
+        }
+      } finally {
+        this.dispatching = false;
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Gets the recent-event log, oldest first.
+   *
+   * @param types - Only return events of these types
+   * @returns Recently delivered events
+   */
+  getRecentEvents(types?: PanelEventType[]): PanelEvent[] {
+    return types ? this.recent.filter(event => types.includes(event.type)) : [...this.recent];
+  }
+
+  /**
+   * Removes every listener and clears the recent-event log.
+   */
+  clear(): void {
+    this.listeners.clear();
+    this.recent = [];
+    this.queue = [];
+  }
+
+  private dispatch(event: PanelEvent): void {
+    this.recent.push(event);
+    if (this.recent.length > this.logSize) {
+      this.recent.shift();
+    }
+
+    // Snapshot, so listeners added by this event start with the next one;
+    // listeners removed by it are skipped
+    const listeners = this.listeners.get(event.type);
+    for (const listener of [...(listeners ?? [])]) {
+      if (listeners!.has(listener)) {
+        this.deliver(listener, event);
+      }
+    }
+  }
+
+  private deliver<K extends PanelEventType>(listener: PanelEventListener<K>, event: PanelEvent<K>): void {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`[PanelEventBus] Listener for ${event.type} failed:`, error);
+    }
+  }
+}
+
+// Create and export the shared event bus
+const panelEvents = new PanelEventBus();
+
+export default panelEvents;
@@ -0,0 +1,242 @@
+import type { ComponentCacheEntry, PanelMemoryUsage } from '../../types';
+import workerCompiler, { WorkerCompiler } from '../compiler/worker-compiler';
+import componentStore, { ComponentStore } from './component-store';
+import panelEvents from './panel-events';
+
+/** Default bytes of loaded modules and compiled code before idle panels are unloaded */
+export const DEFAULT_MEMORY_BUDGET = 4 * 1024 * 1024;
+
+interface PanelActivity {
+  mounted: number;
+  lastRenderAt: number | null;
+  visible: boolean;
+}
+
+/**
+ * Panel Lifecycle
+ *
+ * Accounts the memory each panel holds - live module blobs, compiled code and
+ * source - and tracks where its instances are mounted, whether it is on
+ * screen and when it last rendered. When loaded panels exceed the memory
+ * budget, the least recently rendered panels that are collapsed or off-screen
+ * are evicted from the component store and announced with `panel-evicted`;
+ * `ensureLoaded` recompiles them once they are needed again. Visible panels,
+ * and panels no container has reported on yet, are never evicted.
+ */
+export class PanelLifecycle {
+  private activity: Map<string, PanelActivity> = new Map();
+  private loading: Map<string, Promise<ComponentCacheEntry | undefined>> = new Map();
+  private enforceScheduled: boolean = false;
+
+  constructor(
+    private store: ComponentStore = componentStore,
+    private compiler: WorkerCompiler = workerCompiler,
+    private budget: number = DEFAULT_MEMORY_BUDGET
+  ) {
+    this.store.subscribe((panelId, entry) => {
+      if (entry) {
+        this.scheduleEnforce();
+      } else {
+        this.activity.delete(panelId);
+      }
+    });
+  }
+
+  /**
+   * Records a mounted instance of a panel's component.
+   *
+   * @param panelId - Panel identifier
+   * @returns Function to call when the instance unmounts
+   */
+  mount(panelId: string): () => void {
+    const activity = this.track(panelId);
+    activity.mounted++;
+    activity.lastRenderAt = Date.now();
+
+    let mounted = true;
+    return () => {
+      if (!mounted) return;
+      mounted = false;
+      activity.mounted = Math.max(0, activity.mounted - 1);
+      this.scheduleEnforce();
+    };
+  }
+
+  /**
+   * Records that a mounted instance of a panel rendered.
+   *
+   * @param panelId - Panel identifier
+   */
+  markRendered(panelId: string): void {
+    this.track(panelId).lastRenderAt = Date.now();
+  }
+
+  /**
+   * Records whether a panel is expanded and on screen.
+   *
+   * @param panelId - Panel identifier
+   * @param visible - Whether the panel can be seen
+   */
+  setVisible(panelId: string, visible: boolean): void {
+    const activity = this.track(panelId);
+    if (activity.visible === visible) return;
+
+    activity.visible = visible;
+    if (!visible) {
+      this.scheduleEnforce();
+    }
+  }
+
+  /**
+   * Changes the memory budget and evicts panels right away if it shrank.
+   *
+   * @param bytes - Loaded bytes allowed before idle panels are evicted
+   */
+  setBudget(bytes: number): void {
+    this.budget = Math.max(0, bytes);
+    this.scheduleEnforce();
+  }
+
+  getBudget(): number {
+    return this.budget;
+  }
+
+  /**
+   * Loads a panel again if it was evicted. Concurrent calls share one reload.
+   *
+   * @param panelId - Panel identifier
+   * @returns Promise resolving to the panel's entry, or undefined if unknown
+   */
+  ensureLoaded(panelId: string): Promise<ComponentCacheEntry | undefined> {
+    if (!this.store.isEvicted(panelId)) {
+      return Promise.resolve(this.store.get(panelId));
+    }
+
+    let loading = this.loading.get(panelId);
+    if (!loading) {
+      loading = this.store.reload(panelId).finally(() => this.loading.delete(panelId));
+      this.loading.set(panelId, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Gets the memory and activity of one panel.
+   *
+   * @param panelId - Panel identifier
+   */
+  getUsage(panelId: string): PanelMemoryUsage {
+    const entry = this.store.get(panelId);
+    const modules = this.compiler.getLiveModules(panelId);
+    const activity = this.activity.get(panelId);
+
+    let codeBytes = 0;
+    if (entry) {
+      codeBytes = entry.files
+        ? Object.values(entry.files).reduce((sum, file) => sum + file.code.length * 2, 0)
+        : entry.compiledCode.length * 2;
+    }
+
+    const source = this.store.getSource(panelId);
+    const sourceBytes = source === undefined
+      ? 0
+      : (typeof source === 'string' ? source : Object.values(source.files).join('')).length * 2;
+
+    return {
+      panelId,
+      moduleUrls: modules.urls,
+      moduleBytes: modules.bytes,
+      codeBytes,
+      sourceBytes,
+      mountedInstances: activity?.mounted ?? 0,
+      lastRenderAt: activity?.lastRenderAt ?? null,
+      visible: activity?.visible ?? true,
+      evicted: this.store.isEvicted(panelId)
+    };
+  }
+
+  /**
+   * Gets the memory held by all panels.
+   *
+   * @returns Loaded bytes (counted against the budget), total bytes and panel counts
+   */
+  getStats(): { loadedBytes: number; totalBytes: number; budget: number; mounted: number; evicted: number } {
+    let loadedBytes = 0;
+    let totalBytes = 0;
+    let mounted = 0;
+    let evicted = 0;
+
+    for (const panelId of this.store.keys()) {
+      const usage = this.getUsage(panelId);
+      loadedBytes += usage.moduleBytes + usage.codeBytes;
+      totalBytes += usage.moduleBytes + usage.codeBytes + usage.sourceBytes;
+      mounted += usage.mountedInstances > 0 ? 1 : 0;
+      evicted += usage.evicted ? 1 : 0;
+    }
+
+    return { loadedBytes, totalBytes, budget: this.budget, mounted, evicted };
+  }
+
+  /**
+   * Evicts idle panels, least recently rendered first, until the loaded
+   * panels fit the budget.
+   *
+   * @returns IDs of the evicted panels
+   */
+  enforceBudget(): string[] {
+    const usages = this.store.keys()
+      .map(panelId => this.getUsage(panelId))
+      .filter(usage => !usage.evicted);
+
+    let loadedBytes = usages.reduce((sum, usage) => sum + usage.moduleBytes + usage.codeBytes, 0);
+    if (loadedBytes <= this.budget) {
+      return [];
+    }
+
+    const candidates = usages
+      .filter(usage => !usage.visible)
+      .sort((a, b) => (a.lastRenderAt ?? 0) - (b.lastRenderAt ?? 0));
+
+    const evicted: string[] = [];
+    for (const usage of candidates) {
+      if (loadedBytes <= this.budget) break;
+
+      const freedBytes = usage.moduleBytes + usage.codeBytes;
+      if (this.store.evict(usage.panelId)) {
+        loadedBytes -= freedBytes;
+        evicted.push(usage.panelId);
+        panelEvents.emit('panel-evicted', { panelId: usage.panelId, freedBytes });
+      }
+    }
+
+    if (evicted.length > 0) {
+      console.log(`[PanelLifecycle] Evicted ${evicted.length} idle panels, ${Math.round(loadedBytes / 1024)}KB loaded`);
+    }
+    return evicted;
+  }
+
+  private track(panelId: string): PanelActivity {
+    let activity = this.activity.get(panelId);
+    if (!activity) {
+      activity = { mounted: 0, lastRenderAt: null, visible: true };
+      this.activity.set(panelId, activity);
+    }
+    return activity;
+  }
+
+  // Reason: commits and visibility changes come in bursts (restore, scrolling);
+  // one pass after the burst is enough
+  private scheduleEnforce(): void {
+    if (this.enforceScheduled) return;
+    this.enforceScheduled = true;
+    setTimeout(() => {
+      this.enforceScheduled = false;
+      this.enforceBudget();
+    }, 0);
+  }
+}
+
+// Create and export the shared lifecycle tracker
+const panelLifecycle = new PanelLifecycle();
+
+export default panelLifecycle;
@@ -1,29 +1,70 @@
 import type { ComponentType } from 'react';
-import type { PanelDefinition, ComponentCacheEntry, HMRUpdateData } from '../../types';
-import { RuntimeJSXCompiler } from '../compiler/runtime-compiler';
+import type {
+  PanelDefinition,
+  PanelFileTree,
+  PanelLayout,
+  HMRUpdateData,
+  CompilationCacheStats,
+  ComponentCacheEntry,
+  PanelEvent
+} from '../../types';
+import workerCompiler, { WorkerCompiler } from '../compiler/worker-compiler';
+import { formatCompilationWarning } from '../compiler/typescript-support';
+import { createPanelStorage, toStoredPanel } from '../storage/panel-storage';
+import type { PanelStorageBackend, StoredPanel } from '../storage/panel-storage';
+import panelDataStore from '../storage/panel-data-store';
+import componentStore, { ComponentStore } from './component-store';
+import { PanelRestorer } from './panel-restorer';
+import panelEvents, { PanelEventBus } from './panel-events';
+import panelLifecycle, { PanelLifecycle } from './panel-lifecycle';
 
 /**
  * Enhanced Panel Registry with HMR support and memory management.
  * 
- * Manages dynamically generated components with automatic cleanup,
- * hot module replacement integration, and efficient caching.
+ * Manages dynamically generated components with hot module replacement
+ * integration and efficient caching. Modules of idle panels are unloaded by
+ * the panel lifecycle (`panelRegistry.lifecycle`) and recompiled on demand.
  */
 export class EnhancedPanelRegistry {
+  /** Typed events about panels; subscribe to react to panels being created, updated or removed */
+  readonly events: PanelEventBus = panelEvents;
+  /** Memory accounting and eviction of idle panel modules */
+  readonly lifecycle: PanelLifecycle = panelLifecycle;
   private panels: Map<string, PanelDefinition> = new Map();
-  private componentCache: Map<string, ComponentCacheEntry> = new Map();
+  private store: ComponentStore;
   private hmrEnabled: boolean = window.__RUNTIME_COMPILATION__;
-  private compiler: RuntimeJSXCompiler;
-  private cleanup: any;
-
-  constructor() {
-    this.compiler = new RuntimeJSXCompiler();
-    
-    // Setup automatic cleanup for memory management
-    this.cleanup = typeof (globalThis as any).FinalizationRegistry !== 'undefined' 
-      ? new (globalThis as any).FinalizationRegistry((panelId: string) => {
-          this.cleanupPanel(panelId);
-        })
-      : null;
+  private compiler: WorkerCompiler;
+  private storage: PanelStorageBackend;
+  private nextOrder: number = 0;
+  // Panels being committed by the registry itself, which persists them once registered
+  private registering: Set<string> = new Set();
+  private restorer: PanelRestorer;
+
+  constructor(storage: PanelStorageBackend = createPanelStorage()) {
+    this.store = componentStore;
+    this.compiler = workerCompiler;
+    this.storage = storage;
+    this.restorer = new PanelRestorer(storage, {
+      onLoaded: (records) => {
+        for (const record of records) {
+          this.nextOrder = Math.max(this.nextOrder, record.layout.order + 1);
+        }
+      },
+      restore: (record) => this.restoreStoredPanel(record)
+    });
+
+    // Hot updates commit straight into the store; keep definitions and
+    // storage in step with them
+    this.store.subscribe((panelId, entry) => this.handleStoreCommit(panelId, entry));
+
+    // Evicted modules must not stay reachable through the definition
+    this.events.subscribe('panel-evicted', (event) => {
+      const panel = this.panels.get(event.payload.panelId);
+      if (panel) {
+        panel.component = undefined;
+        panel.compiledCode = undefined;
+      }
+    });
 
     if (this.hmrEnabled) {
       this.setupHMRIntegration();
@@ -44,47 +85,83 @@ export class EnhancedPanelRegistry {
     id: string, 
     jsxCode: string, 
     metadata: Partial<PanelDefinition['metadata']> = {}
+  ): Promise<ComponentType> {
+    return this.registerPanel(id, jsxCode, undefined, metadata);
+  }
+
+  /**
+   * Registers a multi-file panel whose files import each other relatively.
+   * 
+   * @param id - Unique panel identifier
+   * @param files - Panel source files and entry module
+   * @param metadata - Optional metadata for the panel
+   * @returns Promise resolving to the compiled React component
+   */
+  async registerPanelFromFiles(
+    id: string,
+    files: PanelFileTree,
+    metadata: Partial<PanelDefinition['metadata']> = {}
+  ): Promise<ComponentType> {
+    return this.registerPanel(id, files.files[files.entry] ?? '', files, metadata);
+  }
+
+  /**
+   * Compiles, loads and registers a panel, replacing any previous version.
+   * 
+   * @param id - Unique panel identifier
+   * @param jsxCode - Panel source, or the entry module's source for multi-file panels
+   * @param files - File tree of a multi-file panel
+   * @param metadata - Optional metadata for the panel
+   * @param layout - Layout position; defaults to the panel's current one, or
+   *   the end of the grid for new panels
+   * @returns Promise resolving to the compiled React component
+   */
+  private async registerPanel(
+    id: string,
+    jsxCode: string,
+    files: PanelFileTree | undefined,
+    metadata: Partial<PanelDefinition['metadata']>,
+    layout?: PanelLayout
   ): Promise<ComponentType> {
     try {
-      // Compile JSX in browser
-      const compilationResult = await this.compiler.compileComponent(jsxCode, id);
-      
-      if (!compilationResult.success || !compilationResult.moduleUrl) {
-        throw new Error(`Compilation failed: ${compilationResult.error?.message}`);
+      // Compile and load through the shared store; unchanged files of a
+      // multi-file panel keep their modules
+      this.registering.add(id);
+      let entry: ComponentCacheEntry;
+      try {
+        entry = await this.store.commit(id, files ?? jsxCode);
+      } finally {
+        this.registering.delete(id);
       }
+      const component = entry.component;
 
-      // Load component from compiled module
-      const component = await this.loadComponent(compilationResult.moduleUrl);
+      const position = layout ?? this.panels.get(id)?.layout ?? { order: this.nextOrder };
+      this.nextOrder = Math.max(this.nextOrder, position.order + 1);
 
       // Create panel definition
       const panelDefinition: PanelDefinition = {
         id,
         name: this.compiler.extractComponentName(jsxCode),
         jsxCode,
-        compiledCode: compilationResult.code,
+        files,
+        compiledCode: entry.compiledCode,
         component,
         metadata: {
           createdAt: new Date(),
           updatedAt: new Date(),
           creator: 'ai',
-          dependencies: this.compiler.extractDependencies(jsxCode),
-          ...metadata
-        }
+          dependencies: files
+            ? [...new Set(Object.values(files.files).flatMap(code => this.compiler.extractDependencies(code)))]
+            : this.compiler.extractDependencies(jsxCode),
+          ...metadata,
+          warnings: (entry.warnings || []).map(formatCompilationWarning)
+        },
+        layout: position
       };
 
-      // Register panel and cache component
+      // Register panel (the store already holds the compiled component)
       this.panels.set(id, panelDefinition);
-      this.componentCache.set(id, {
-        component,
-        moduleUrl: compilationResult.moduleUrl,
-        lastUpdated: Date.now(),
-        compiledCode: compilationResult.code || ''
-      });
-
-      // Register for automatic cleanup
-      if (this.cleanup) {
-        this.cleanup.register(component, id);
-      }
+      this.persistPanel(panelDefinition);
 
       // Enable HMR for this component
       if (this.hmrEnabled) {
@@ -112,13 +189,7 @@ export class EnhancedPanelRegistry {
       throw new Error(`Panel ${id} not found`);
     }
 
-    // Cleanup old module URL
-    const oldCache = this.componentCache.get(id);
-    if (oldCache?.moduleUrl) {
-      this.compiler.cleanupModuleUrl(oldCache.moduleUrl);
-    }
-
-    // Re-register with new code
+    // Re-register with new code (the store releases the old module once replaced)
     const component = await this.registerPanelFromJSX(id, jsxCode, {
       ...existingPanel.metadata,
       updatedAt: new Date()
@@ -130,6 +201,60 @@ export class EnhancedPanelRegistry {
     return component;
   }
 
+  /**
+   * Updates one file of a multi-file panel. Only that file and the files
+   * importing it are recompiled and re-evaluated.
+   * 
+   * @param id - Panel identifier
+   * @param path - Path of the changed file
+   * @param code - New source of the file
+   * @returns Promise resolving to updated component
+   */
+  async updatePanelFile(id: string, path: string, code: string): Promise<ComponentType> {
+    const existingPanel = this.panels.get(id);
+    if (!existingPanel?.files) {
+      throw new Error(`Panel ${id} is not a multi-file panel`);
+    }
+
+    const files: PanelFileTree = {
+      ...existingPanel.files,
+      files: { ...existingPanel.files.files, [path]: code }
+    };
+
+    const component = await this.registerPanelFromFiles(id, files, {
+      ...existingPanel.metadata,
+      updatedAt: new Date()
+    });
+
+    this.emitHMRUpdate(id, files.files[files.entry], path);
+
+    return component;
+  }
+
+  /**
+   * Replaces the files of a multi-file panel. Files whose code is unchanged
+   * keep their modules.
+   *
+   * @param id - Panel identifier
+   * @param files - New file tree of the panel
+   * @returns Promise resolving to updated component
+   */
+  async updatePanelFiles(id: string, files: PanelFileTree): Promise<ComponentType> {
+    const existingPanel = this.panels.get(id);
+    if (!existingPanel) {
+      throw new Error(`Panel ${id} not found`);
+    }
+
+    const component = await this.registerPanelFromFiles(id, files, {
+      ...existingPanel.metadata,
+      updatedAt: new Date()
+    });
+
+    this.emitHMRUpdate(id, files.files[files.entry]);
+
+    return component;
+  }
+
   /**
    * Retrieves a panel definition by ID.
    * 
@@ -147,7 +272,7 @@ export class EnhancedPanelRegistry {
    * @returns Cached component or undefined
    */
   getComponent(id: string): ComponentType | undefined {
-    return this.componentCache.get(id)?.component;
+    return this.store.get(id)?.component;
   }
 
   /**
@@ -159,48 +284,116 @@ export class EnhancedPanelRegistry {
     return Array.from(this.panels.keys());
   }
 
+  /**
+   * Changes a panel's metadata, e.g. its trust level, without recompiling it.
+   *
+   * @param id - Panel identifier
+   * @param changes - Metadata fields to change
+   * @throws Error if the panel does not exist
+   */
+  updatePanelMetadata(id: string, changes: Partial<PanelDefinition['metadata']>): void {
+    const panel = this.panels.get(id);
+    if (!panel) {
+      throw new Error(`Panel ${id} not found`);
+    }
+
+    panel.metadata = { ...panel.metadata, ...changes };
+    this.persistPanel(panel);
+    this.events.emit('panel-metadata-changed', { panelId: id, metadata: panel.metadata });
+  }
+
   /**
    * Removes a panel and cleans up resources.
    * 
    * @param id - Panel identifier
    */
   removePanel(id: string): void {
-    const cache = this.componentCache.get(id);
-    if (cache?.moduleUrl) {
-      this.compiler.cleanupModuleUrl(cache.moduleUrl);
-    }
-
+    this.store.remove(id);
     this.panels.delete(id);
-    this.componentCache.delete(id);
+    this.restorer.discard(id);
+
+    this.storage.remove(id).catch(error => {
+      console.warn(`[PanelRegistry] Failed to remove stored panel ${id}:`, error);
+    });
+    panelDataStore.deletePanel(id).catch(error => {
+      console.warn(`[PanelRegistry] Failed to remove data of panel ${id}:`, error);
+    });
 
     console.log(`[PanelRegistry] Removed panel: ${id}`);
   }
 
   /**
-   * Loads a React component from a module URL.
-   * 
-   * @param moduleUrl - Blob URL of the compiled module
-   * @returns Promise resolving to the loaded component
+   * Restores the panels saved by earlier sessions. Panels are compiled one at
+   * a time while the page is idle, in grid order, and announced with a
+   * `create-panel` event as each one is ready. Safe to call repeatedly.
+   *
+   * @returns Promise resolving once every stored panel was attempted
    */
-  private async loadComponent(moduleUrl: string): Promise<ComponentType> {
-    try {
-      // Dynamic import with cache busting
-      const module = await import(`${moduleUrl}?t=${Date.now()}`);
-      const Component = module.default;
+  restorePanels(): Promise<void> {
+    return this.restorer.restoreAll();
+  }
 
-      if (!Component) {
-        throw new Error('Module does not export a default component');
-      }
+  /**
+   * Restores a stored panel immediately instead of waiting for its turn.
+   *
+   * @param id - Panel identifier
+   * @returns Promise resolving to the component, or undefined if the panel
+   *   is not waiting to be restored
+   */
+  restorePanel(id: string): Promise<ComponentType | undefined> {
+    return this.restorer.restoreNow(id);
+  }
 
-      if (typeof Component !== 'function') {
-        throw new Error('Exported default is not a valid React component');
-      }
+  private async restoreStoredPanel(record: StoredPanel): Promise<ComponentType | undefined> {
+    // Registered meanwhile, e.g. from files on disk; the newer source wins
+    if (this.panels.has(record.id)) {
+      return this.getComponent(record.id);
+    }
 
-      return Component;
+    try {
+      const component = await this.registerPanel(record.id, record.jsxCode, record.files, record.metadata, record.layout);
+
+      this.events.emit('create-panel', { panelId: record.id, component });
+      return component;
     } catch (error) {
-      console.error('[PanelRegistry] Failed to load component:', error);
-      throw new Error(`Component loading failed: ${error}`);
+      // The record is kept, so a later build that compiles it can restore it
+      console.warn(`[PanelRegistry] Failed to restore panel ${record.id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Saves a panel to storage in the background.
+   */
+  private persistPanel(panel: PanelDefinition): void {
+    this.storage.save(toStoredPanel(panel)).catch(error => {
+      console.warn(`[PanelRegistry] Failed to persist panel ${panel.id}:`, error);
+    });
+  }
+
+  /**
+   * Records versions committed outside the registry (hot updates) on the
+   * panel's definition and in storage.
+   */
+  private handleStoreCommit(panelId: string, entry: ComponentCacheEntry | undefined): void {
+    const panel = this.panels.get(panelId);
+    if (!entry || !panel || this.registering.has(panelId)) {
+      return;
     }
+
+    panel.component = entry.component;
+    panel.compiledCode = entry.compiledCode;
+
+    // Reloads of evicted panels commit the source they already had
+    const source = this.store.getSource(panelId);
+    if (source === undefined || source === (panel.files ?? panel.jsxCode)) {
+      return;
+    }
+
+    panel.jsxCode = typeof source === 'string' ? source : source.files[source.entry] ?? '';
+    panel.files = typeof source === 'string' ? undefined : source;
+    panel.metadata = { ...panel.metadata, updatedAt: new Date() };
+    this.persistPanel(panel);
   }
 
   /**
@@ -208,8 +401,8 @@ export class EnhancedPanelRegistry {
    */
   private setupHMRIntegration(): void {
     // Listen for HMR updates from external sources
-    window.addEventListener('ai-component-generated', this.handleAIComponentUpdate.bind(this));
-    window.addEventListener('panel-hmr-update', this.handlePanelHMRUpdate.bind(this));
+    this.events.subscribe('ai-component-generated', event => this.handleAIComponentUpdate(event));
+    this.events.subscribe('panel-hmr-update', event => this.handlePanelHMRUpdate(event));
 
     console.log('[PanelRegistry] HMR integration enabled');
   }
@@ -228,10 +421,10 @@ export class EnhancedPanelRegistry {
   /**
    * Handles AI-generated component updates.
    * 
-   * @param event - Custom event with component data
+   * @param event - AI generation event
    */
-  private async handleAIComponentUpdate(event: CustomEvent): Promise<void> {
-    const { panelId, jsxCode } = event.detail;
+  private async handleAIComponentUpdate(event: PanelEvent<'ai-component-generated'>): Promise<void> {
+    const { panelId, jsxCode } = event.payload;
     try {
       await this.updatePanel(panelId, jsxCode);
     } catch (error) {
@@ -242,10 +435,10 @@ export class EnhancedPanelRegistry {
   /**
    * Handles panel HMR updates.
    * 
-   * @param event - Custom event with HMR data
+   * @param event - HMR update event
    */
-  private handlePanelHMRUpdate(event: CustomEvent): void {
-    const { panelId } = event.detail;
+  private handlePanelHMRUpdate(event: PanelEvent<'panel-hmr-update'>): void {
+    const { panelId } = event.payload;
     console.log(`[PanelRegistry] HMR update for panel: ${panelId}`);
   }
 
@@ -254,29 +447,17 @@ export class EnhancedPanelRegistry {
    * 
    * @param panelId - Panel identifier
    * @param jsxCode - Updated JSX code
+   * @param filePath - Changed file, for multi-file panels
    */
-  private emitHMRUpdate(panelId: string, jsxCode: string): void {
+  private emitHMRUpdate(panelId: string, jsxCode: string, filePath?: string): void {
     const updateData: HMRUpdateData = {
       panelId,
       jsxCode,
+      filePath,
       timestamp: Date.now()
     };
 
-    window.dispatchEvent(new CustomEvent('panel-hmr-update', {
-      detail: updateData
-    }));
-  }
-
-  /**
-   * Cleans up resources for a panel.
-   * 
-   * @param panelId - Panel identifier
-   */
-  private cleanupPanel(panelId: string): void {
-    const cache = this.componentCache.get(panelId);
-    if (cache?.moduleUrl) {
-      this.compiler.cleanupModuleUrl(cache.moduleUrl);
-    }
+    this.events.emit('panel-hmr-update', updateData);
   }
 
   /**
@@ -287,19 +468,25 @@ export class EnhancedPanelRegistry {
   getStats(): {
     totalPanels: number;
     cachedComponents: number;
+    evictedComponents: number;
+    /** Bytes held by panel modules, compiled code and sources */
     memoryUsage: number;
+    /** Bytes of modules and compiled code, counted against the budget */
+    loadedMemory: number;
+    memoryBudget: number;
+    compilationCache: CompilationCacheStats;
   } {
-    let memoryUsage = 0;
-    
-    // Estimate memory usage (rough calculation)
-    for (const [, cache] of this.componentCache) {
-      memoryUsage += cache.compiledCode.length * 2; // Rough estimate in bytes
-    }
+    const storeStats = this.store.getStats();
+    const memory = this.lifecycle.getStats();
 
     return {
       totalPanels: this.panels.size,
-      cachedComponents: this.componentCache.size,
-      memoryUsage
+      cachedComponents: storeStats.components,
+      evictedComponents: storeStats.evicted,
+      memoryUsage: memory.totalBytes,
+      loadedMemory: memory.loadedBytes,
+      memoryBudget: memory.budget,
+      compilationCache: this.compiler.getCacheStats()
     };
   }
 }
@@ -0,0 +1,122 @@
+import type { ComponentType } from 'react';
+import type { PanelStorageBackend, StoredPanel } from '../storage/panel-storage';
+
+export interface PanelRestorerHooks {
+  /** Called once with every stored panel, before any is restored */
+  onLoaded(records: StoredPanel[]): void;
+  /** Compiles and registers one stored panel */
+  restore(record: StoredPanel): Promise<ComponentType | undefined>;
+}
+
+/**
+ * Panel Restorer
+ *
+ * Brings back the panels saved by earlier sessions without blocking startup.
+ * Stored panels are queued in grid order and restored one at a time while
+ * the page is idle; a panel that is needed sooner can jump the queue.
+ */
+export class PanelRestorer {
+  private started: Promise<void> | null = null;
+  private loaded: Promise<void> | null = null;
+  // Stored panels not restored yet, highest priority first
+  private queue: StoredPanel[] = [];
+
+  constructor(
+    private storage: PanelStorageBackend,
+    private hooks: PanelRestorerHooks
+  ) {}
+
+  /**
+   * Restores every stored panel. Safe to call repeatedly.
+   *
+   * @returns Promise resolving once every stored panel was attempted
+   */
+  restoreAll(): Promise<void> {
+    if (!this.started) {
+      this.started = this.run();
+    }
+    return this.started;
+  }
+
+  /**
+   * Restores a queued panel immediately instead of waiting for its turn.
+   * Starts restoring if that has not happened yet.
+   *
+   * @param id - Panel identifier
+   * @returns Promise resolving to the component, or undefined if the panel
+   *   is not waiting to be restored
+   */
+  async restoreNow(id: string): Promise<ComponentType | undefined> {
+    this.restoreAll();
+    await this.loaded;
+
+    const record = this.queue.find(queued => queued.id === id);
+    if (!record) {
+      return undefined;
+    }
+
+    this.discard(id);
+    return this.hooks.restore(record);
+  }
+
+  /**
+   * Drops a queued panel, e.g. because it was removed before its turn.
+   *
+   * @param id - Panel identifier
+   */
+  discard(id: string): void {
+    this.queue = this.queue.filter(record => record.id !== id);
+  }
+
+  /**
+   * Number of stored panels still waiting to be restored.
+   */
+  get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  private async run(): Promise<void> {
+    this.loaded = this.load();
+    await this.loaded;
+
+    while (this.queue.length > 0) {
+      await waitForIdle();
+      const record = this.queue.shift();
+      if (record) {
+        await this.hooks.restore(record);
+      }
+    }
+  }
+
+  private async load(): Promise<void> {
+    let records: StoredPanel[];
+    try {
+      records = await this.storage.loadAll();
+    } catch (error) {
+      console.warn(`[PanelRestorer] Failed to load stored panels from ${this.storage.name}:`, error);
+      return;
+    }
+
+    // Reason: panels at the top of the grid are seen first, so they compile first
+    this.queue = records.sort((a, b) => a.layout.order - b.layout.order);
+    this.hooks.onLoaded(records);
+
+    if (records.length > 0) {
+      console.log(`[PanelRestorer] Restoring ${records.length} panels from ${this.storage.name}`);
+    }
+  }
+}
+
+/**
+ * Resolves when the browser is idle, so restoring panels does not compete
+ * with the first render.
+ */
+function waitForIdle(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => resolve(), { timeout: 500 });
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
@@ -0,0 +1,340 @@
+import type { ComponentCacheEntry, PanelFileTree } from '../../types';
+import moduleResolver from '../compiler/module-resolver';
+import workerCompiler from '../compiler/worker-compiler';
+import { isRelativeSpecifier, orderPanelModules, resolvePanelImport } from '../compiler/panel-files';
+import {
+  SANDBOX_FILE_PREFIX,
+  SANDBOX_MODULE_PREFIX,
+  type SandboxFrameMessage,
+  type SandboxHostMessage,
+  type SandboxModule,
+  type SandboxTheme
+} from './sandbox-protocol';
+import { RENDER_VERIFICATION_LIMITS, verifyRender } from '../ai/render-verifier';
+import { sandboxRuntime, type SandboxRuntimeConfig } from './sandbox-runtime';
+import { sha256 } from './sha256';
+
+/** React version the frames load, pinned along with its integrity hashes */
+const REACT_VERSION = '18.3.1';
+
+const REACT_BUILDS = {
+  development: {
+    react: 'sha384-hD6/rw4ppMLGNu3tX5cjIb+uRZ7UkRJ6BPkLpg4hAu/6onKUg4lLsHAs9EBPT82L',
+    'react-dom': 'sha384-u6aeetuaXnQ38mYT8rp6sbXaQe3NL9t+IBXmnYxwkUI2Hw4bsp2Wvmx4yRQF1uAm'
+  },
+  'production.min': {
+    react: 'sha384-DGyLxAyjq0f9SPpVevD6IgztCFlnMF6oW/XQGmfe+IsZ8TqEiDrcHkMLKI6fiB/Z',
+    'react-dom': 'sha384-gTGxhz21lVGYNMcdJOyq01Edg0jhn/c22nsx0kyqP0TxaV5WVdsSH1fSDUf5YJj1'
+  }
+} as const;
+
+/**
+ * Handles an SDK call made by a sandboxed panel.
+ *
+ * @param panelId - Panel that made the call
+ * @param args - Call arguments, structured-cloned from the frame
+ * @returns Result sent back to the frame; thrown errors reject the call there
+ */
+export type SandboxCallHandler = (panelId: string, ...args: any[]) => unknown;
+
+/** Link between the app and one sandbox frame */
+export interface SandboxConnection {
+  post: (message: SandboxHostMessage) => void;
+  /** Stops listening to the frame */
+  dispose: () => void;
+}
+
+/** Options for a sandbox frame connection */
+export interface SandboxConnectOptions {
+  /**
+   * Whether SDK calls from the frame are answered. Frames running code that
+   * is not a panel yet, like drafts and candidates under verification, get
+   * no storage, requests or channels.
+   */
+  sdk?: boolean;
+}
+
+interface FrameRecord {
+  panelId: string;
+  frame: HTMLIFrameElement;
+  onMessage: (message: SandboxFrameMessage) => void;
+  sdk: boolean;
+}
+
+/**
+ * Sandbox Host
+ *
+ * App side of the sandbox: builds the frame document, links panel modules
+ * for it and routes frame messages. Messages are accepted only from the
+ * frames connected here, identified by their window. SDK calls are answered
+ * by the handlers registered with `handle`.
+ */
+export class SandboxHost {
+  private frames: Map<Window, FrameRecord> = new Map();
+  private handlers: Map<string, SandboxCallHandler> = new Map();
+  private disconnectListeners: Set<(panelId: string) => void> = new Set();
+  private document: Promise<string> | null = null;
+
+  constructor() {
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  /**
+   * Connects a sandbox frame. Its document must be set with `getDocument`
+   * once that resolves.
+   *
+   * @param frame - The iframe element
+   * @param panelId - Panel rendered in the frame
+   * @param onMessage - Called with each message from the frame except SDK calls
+   * @param options - Connection options
+   * @returns Connection for posting to the frame
+   */
+  connect(
+    frame: HTMLIFrameElement,
+    panelId: string,
+    onMessage: (message: SandboxFrameMessage) => void,
+    options: SandboxConnectOptions = {}
+  ): SandboxConnection {
+    const record: FrameRecord = { panelId, frame, onMessage, sdk: options.sdk ?? true };
+
+    // Reason: the frame's window exists once the element is in the document
+    // and stays the same across reloads of its document
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      throw new Error(`Sandbox frame of ${panelId} is not attached to the document`);
+    }
+    this.frames.set(frameWindow, record);
+
+    return {
+      // A sandboxed frame has an opaque origin, which no target origin matches
+      post: (message) => frame.contentWindow?.postMessage(message, '*'),
+      dispose: () => {
+        if (this.frames.get(frameWindow) === record) {
+          this.frames.delete(frameWindow);
+          this.disconnectListeners.forEach(listener => listener(panelId));
+        }
+      }
+    };
+  }
+
+  /**
+   * Registers the app side of an SDK function for sandboxed panels.
+   *
+   * @param method - Name the frame calls the function by
+   * @param handler - Implementation, called with the calling panel's ID
+   * @returns Function removing the handler
+   */
+  handle(method: string, handler: SandboxCallHandler): () => void {
+    this.handlers.set(method, handler);
+    return () => {
+      if (this.handlers.get(method) === handler) {
+        this.handlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Sends an event to the SDK hooks of a panel's frame, if it is connected.
+   *
+   * @param panelId - Panel identifier
+   * @param event - Event name the frame's hooks listen for
+   * @param payload - Event data, structured-cloned into the frame
+   */
+  emit(panelId: string, event: string, payload: unknown): void {
+    for (const record of this.frames.values()) {
+      if (record.panelId === panelId) {
+        record.frame.contentWindow?.postMessage({ type: 'sdk-event', event, payload } satisfies SandboxHostMessage, '*');
+      }
+    }
+  }
+
+  /**
+   * Listens for frames being disconnected, e.g. when their panel unmounts.
+   *
+   * @param listener - Called with the frame's panel ID
+   * @returns Function removing the listener
+   */
+  onDisconnect(listener: (panelId: string) => void): () => void {
+    this.disconnectListeners.add(listener);
+    return () => this.disconnectListeners.delete(listener);
+  }
+
+  /**
+   * Builds the HTML document of a sandbox frame: React's UMD builds, the
+   * theme stylesheet and the frame runtime.
+   *
+   * @returns Document for the frame's `srcdoc`
+   */
+  getDocument(): Promise<string> {
+    if (!this.document) {
+      const document = this.buildDocument();
+      this.document = document;
+      // A failed build is tried again by the next frame
+      document.catch(() => {
+        if (this.document === document) this.document = null;
+      });
+    }
+    return this.document;
+  }
+
+  /**
+   * Lays out the frame document. Its Content Security Policy runs only the
+   * pinned React build, the runtime and the modules the runtime creates, and
+   * blocks every request, so the SDK bridge is a panel's only way out.
+   */
+  private async buildDocument(): Promise<string> {
+    const build = window.__DEV__ ? 'development' : 'production.min';
+    const config: SandboxRuntimeConfig = {
+      modulePrefix: SANDBOX_MODULE_PREFIX,
+      filePrefix: SANDBOX_FILE_PREFIX,
+      verification: RENDER_VERIFICATION_LIMITS
+    };
+    const runtime = `(${sandboxRuntime.toString()})(${JSON.stringify(config)}, ${verifyRender.toString()});`;
+
+    const scripts = (['react', 'react-dom'] as const).map(name => ({
+      url: `https://unpkg.com/${name}@${REACT_VERSION}/umd/${name}.${build}.js`,
+      integrity: REACT_BUILDS[build][name]
+    }));
+
+    const policy = [
+      "default-src 'none'",
+      `script-src ${scripts.map(script => script.url).join(' ')} '${await hashScript(runtime)}' blob:`,
+      "style-src 'unsafe-inline'",
+      'img-src data: blob:',
+      'font-src data:',
+      "connect-src 'none'",
+      "form-action 'none'",
+      "base-uri 'none'"
+    ].join('; ');
+
+    return [
+      '<!doctype html>',
+      '<html>',
+      '<head>',
+      '<meta charset="UTF-8" />',
+      `<meta http-equiv="Content-Security-Policy" content="${policy}" />`,
+      ...scripts.map(script => `<script src="${script.url}" integrity="${script.integrity}" crossorigin="anonymous"></script>`),
+      '<style id="sandbox-theme"></style>',
+      '</head>',
+      '<body style="margin: 0">',
+      '<div id="root"></div>',
+      `<script>${runtime}</script>`,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+
+  /**
+   * Collects the app's styles, so panels look the same in a frame.
+   *
+   * @returns Theme to post to frames
+   */
+  getTheme(): SandboxTheme {
+    const css = Array.from(document.styleSheets).map(sheet => {
+      try {
+        return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+      } catch {
+        // Cross-origin stylesheets cannot be read
+        return '';
+      }
+    }).join('\n');
+
+    const dark = typeof matchMedia === 'function' && matchMedia('(prefers-color-scheme: dark)').matches;
+    return { css, colorScheme: dark ? 'dark' : 'light' };
+  }
+
+  /**
+   * Prepares a compiled panel for a frame. Frames cannot load the app's blob
+   * URLs, so modules are sent as code with their imports rewritten to
+   * placeholders the frame links against its own modules. Like the app's
+   * modules, an entry that only declares its component gets a default export.
+   *
+   * @param entry - Compiled panel, e.g. from the component store
+   * @param tree - File tree, for multi-file panels
+   * @returns Modules in dependency order, ending with the entry
+   * @throws Error if a module imports something the sandbox cannot provide, or
+   *   the entry declares no component
+   */
+  linkModules(entry: Pick<ComponentCacheEntry, 'compiledCode' | 'files'>, tree?: PanelFileTree): SandboxModule[] {
+    const withDefaultExport = (code: string) => `${code}\n${workerCompiler.buildDefaultExportFallback(code)}`;
+
+    if (!entry.files || !tree) {
+      return [{ path: 'index', code: withDefaultExport(this.linkModule('index', entry.compiledCode)) }];
+    }
+
+    const files = entry.files;
+    return orderPanelModules(tree.entry, path => files[path]?.imports ?? []).map(path => {
+      const code = this.linkModule(path, files[path].code, tree);
+      return { path, code: path === tree.entry ? withDefaultExport(code) : code };
+    });
+  }
+
+  private linkModule(path: string, code: string, tree?: PanelFileTree): string {
+    return moduleResolver.linkImports(code, specifier => {
+      if (isRelativeSpecifier(specifier)) {
+        const resolved = tree && resolvePanelImport(path, specifier, tree.files);
+        if (!resolved) {
+          throw new Error(`Cannot resolve '${specifier}' from ${path} - no such panel file`);
+        }
+        return `${SANDBOX_FILE_PREFIX}${resolved}`;
+      }
+
+      if (!moduleResolver.canResolve(specifier)) {
+        throw new Error(`Cannot resolve module '${specifier}' - allowed modules: ${moduleResolver.getAllowedSpecifiers().join(', ')}`);
+      }
+      return `${SANDBOX_MODULE_PREFIX}${specifier}`;
+    });
+  }
+
+  private handleMessage = (event: MessageEvent<SandboxFrameMessage>): void => {
+    const record = event.source ? this.frames.get(event.source as Window) : undefined;
+    if (!record || typeof event.data?.type !== 'string') return;
+
+    const message = event.data;
+    if (message.type === 'sdk-call') {
+      void this.answerCall(record, message);
+    } else {
+      record.onMessage(message);
+    }
+  };
+
+  private async answerCall(record: FrameRecord, call: Extract<SandboxFrameMessage, { type: 'sdk-call' }>): Promise<void> {
+    const reply = (message: Omit<Extract<SandboxHostMessage, { type: 'sdk-result' }>, 'type' | 'callId'>) =>
+      record.frame.contentWindow?.postMessage({ type: 'sdk-result', callId: call.callId, ...message }, '*');
+
+    if (!record.sdk) {
+      reply({ error: `${call.method} is not available until the panel is added to the workspace` });
+      return;
+    }
+
+    const handler = this.handlers.get(call.method);
+    if (!handler) {
+      reply({ error: `Unknown SDK function: ${call.method}` });
+      return;
+    }
+
+    try {
+      reply({ result: await handler(record.panelId, ...(Array.isArray(call.args) ? call.args : [])) });
+    } catch (error) {
+      console.warn(`[SandboxHost] SDK call ${call.method} from ${record.panelId} failed:`, error);
+      reply({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+/**
+ * Computes the CSP hash source allowing an inline script. `crypto.subtle`
+ * only exists in secure contexts; elsewhere the hash is computed in JS.
+ */
+async function hashScript(code: string): Promise<string> {
+  const bytes = new TextEncoder().encode(code);
+  const digest = globalThis.crypto?.subtle
+    ? new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+    : sha256(bytes);
+  return `sha256-${btoa(String.fromCharCode(...digest))}`;
+}
+
+// Create and export default instance
+const sandboxHost = new SandboxHost();
+
+export default sandboxHost;
@@ -0,0 +1,68 @@
+import type { PanelMetadata, PanelTrust, RenderVerification, SandboxModule } from '../../types';
+
+export type { SandboxModule };
+
+/**
+ * Sandbox Protocol
+ *
+ * Messages between the app and the sandboxed iframes isolated panels render
+ * in. The frame has an opaque origin: it cannot reach the app's window,
+ * storage or blob URLs, so panel modules are sent as code and linked inside
+ * the frame, and everything else - props, theme, size, errors and SDK calls -
+ * goes through these messages.
+ */
+
+/** Import placeholder for a host module such as `react`; the frame links its own copy */
+export const SANDBOX_MODULE_PREFIX = 'ui-madness-sandbox:module/';
+
+/** Import placeholder for another file of a multi-file panel */
+export const SANDBOX_FILE_PREFIX = 'ui-madness-sandbox:file/';
+
+/** Host styles and color scheme applied inside the frame */
+export interface SandboxTheme {
+  css: string;
+  colorScheme: 'light' | 'dark';
+}
+
+/** Props passed to a sandboxed panel; they must survive structured cloning */
+export type SandboxProps = Record<string, unknown>;
+
+/** Message from the app to a frame */
+export type SandboxHostMessage =
+  /** Renders a panel version; modules are in dependency order, ending with the entry */
+  | { type: 'render'; panelId: string; modules: SandboxModule[]; props: SandboxProps }
+  | { type: 'props'; props: SandboxProps }
+  /** Verifies a generated candidate's first render within a time budget, in a detached root */
+  | { type: 'verify'; modules: SandboxModule[]; budgetMs: number }
+  | { type: 'theme'; theme: SandboxTheme }
+  | { type: 'sdk-result'; callId: number; result?: unknown; error?: string }
+  /** Something the panel's SDK hooks listen for happened in the app */
+  | { type: 'sdk-event'; event: string; payload: unknown };
+
+/** Message from a frame to the app */
+export type SandboxFrameMessage =
+  /** The frame loaded and waits for a panel */
+  | { type: 'ready' }
+  /** The panel rendered a new version or new props */
+  | { type: 'rendered' }
+  /** The frame's content height changed */
+  | { type: 'resize'; height: number }
+  /** The panel failed to load or threw while rendering or in a handler */
+  | { type: 'error'; message: string; stack?: string }
+  /** A candidate sent with `verify` rendered; the verification tells how it went */
+  | { type: 'verified'; verification: RenderVerification }
+  /** A candidate sent with `verify` failed to load */
+  | { type: 'load-failed'; message: string }
+  /** The panel called an SDK function that runs in the app */
+  | { type: 'sdk-call'; callId: number; method: string; args: unknown[] };
+
+/**
+ * Resolves a panel's trust level. AI-created panels are isolated unless the
+ * user trusts them; panels written by the user run in the app.
+ *
+ * @param metadata - Panel metadata
+ * @returns Where the panel runs
+ */
+export function resolvePanelTrust(metadata: Pick<PanelMetadata, 'trust' | 'creator'>): PanelTrust {
+  return metadata.trust ?? (metadata.creator === 'ai' ? 'isolated' : 'trusted');
+}
@@ -0,0 +1,378 @@
+import type { RenderVerificationLimits, verifyRender } from '../ai/render-verifier';
+import type { SandboxFrameMessage, SandboxHostMessage, SandboxModule, SandboxProps } from './sandbox-protocol';
+
+/** Values the frame runtime needs from the app; the runtime itself is serialized */
+export interface SandboxRuntimeConfig {
+  modulePrefix: string;
+  filePrefix: string;
+  /** Limits for verifying candidates, the same as in the app */
+  verification: RenderVerificationLimits;
+}
+
+/**
+ * Frame side of the sandbox, run inside the iframe.
+ *
+ * This function is serialized into the frame's document with
+ * `Function.prototype.toString`, so it must not use anything from its module
+ * scope: no imports (types excepted), constants or helpers. React comes from
+ * the UMD builds the frame document loads.
+ *
+ * @param config - Import placeholders used by the app when linking, and
+ *   verification limits
+ * @param verify - The app's render verification, serialized along with the runtime
+ */
+export function sandboxRuntime(config: SandboxRuntimeConfig, verify: typeof verifyRender): void {
+  const frameWindow = window as any;
+  const React = frameWindow.React;
+  const ReactDOM = frameWindow.ReactDOM;
+
+  const post = (message: SandboxFrameMessage) => window.parent.postMessage(message, '*');
+
+  const reportError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    post({ type: 'error', message, stack: error instanceof Error ? error.stack : undefined });
+  };
+
+  const pendingCalls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const eventListeners = new Map<string, Set<(payload: any) => void>>();
+  let nextCallId = 0;
+
+  // Panel SDK functions that run in the app call through here, and app
+  // events for the panel arrive here
+  const sdk = {
+    call(method: string, args: unknown[]): Promise<unknown> {
+      const callId = nextCallId++;
+      return new Promise((resolve, reject) => {
+        pendingCalls.set(callId, { resolve, reject });
+        post({ type: 'sdk-call', callId, method, args });
+      });
+    },
+    subscribe(event: string, listener: (payload: any) => void): () => void {
+      let listeners = eventListeners.get(event);
+      if (!listeners) {
+        listeners = new Set();
+        eventListeners.set(event, listeners);
+      }
+      listeners.add(listener);
+      return () => listeners!.delete(listener);
+    }
+  };
+  frameWindow.__SANDBOX_SDK__ = sdk;
+
+  // `ui-madness/sdk` for sandboxed panels: same API as in the app, with
+  // storage, requests and channels handled by the app
+  const usePanelStorage = (key: string, initial: unknown) => {
+    const initialRef = React.useRef(initial);
+    const [value, setValue] = React.useState(initial);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState(null);
+    const valueRef = React.useRef(value);
+    valueRef.current = value;
+
+    const read = React.useCallback(
+      () => sdk.call('storage.get', [key]).then(stored => stored === undefined ? initialRef.current : stored),
+      [key]
+    );
+
+    React.useEffect(() => {
+      let active = true;
+      const refresh = () => read().then((next: unknown) => {
+        if (!active) return;
+        setValue(next);
+        setLoading(false);
+      }, reportError);
+
+      refresh();
+      const unsubscribe = sdk.subscribe('storage-changed', (changed: { key: string | null }) => {
+        if (changed.key === null || changed.key === key) refresh();
+      });
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    }, [key, read]);
+
+    const update = React.useCallback((next: unknown) => {
+      const resolved = typeof next === 'function' ? next(valueRef.current) : next;
+      valueRef.current = resolved;
+      setValue(resolved);
+      setError(null);
+
+      sdk.call('storage.set', [key, resolved]).catch((failure: Error) => {
+        setError(failure.message);
+        read().then(setValue, reportError);
+      });
+    }, [key, read]);
+
+    return [value, update, { loading, error }];
+  };
+
+  const parseResponse = (response: { headers: Record<string, string>; body: string }) => {
+    if (!/json/i.test(response.headers['content-type'] ?? '')) return response.body;
+    try {
+      return JSON.parse(response.body);
+    } catch {
+      return response.body;
+    }
+  };
+
+  const usePanelFetch = (url: string | null, options: any = {}) => {
+    const { method, headers, body, lazy = false } = options;
+    const [state, setState] = React.useState({ data: null, response: null, loading: !lazy && url !== null, error: null });
+    const requestKey = JSON.stringify([url, method, headers, body]);
+    const latestRequest = React.useRef(0);
+    const mounted = React.useRef(true);
+
+    React.useEffect(() => () => {
+      mounted.current = false;
+    }, []);
+
+    const run = React.useCallback(async () => {
+      if (url === null) return null;
+
+      const requestId = ++latestRequest.current;
+      const settle = (next: unknown) => {
+        if (mounted.current && requestId === latestRequest.current) setState(next);
+      };
+
+      setState((current: object) => ({ ...current, loading: true, error: null }));
+      try {
+        const response: any = await sdk.call('fetch', [{ url, method, headers, body }]);
+        settle({
+          data: parseResponse(response),
+          response,
+          loading: false,
+          error: response.ok ? null : `HTTP ${response.status} ${response.statusText}`.trim()
+        });
+        return response;
+      } catch (error) {
+        settle({ data: null, response: null, loading: false, error: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    }, [requestKey]);
+
+    React.useEffect(() => {
+      if (!lazy) run();
+    }, [run, lazy]);
+
+    return { ...state, refetch: run };
+  };
+
+  // Hooks on one channel share the app-side subscription; the last message
+  // is kept for hooks mounting later
+  const channelUsers = new Map<string, number>();
+  const channelMessages = new Map<string, { payload: unknown; sender: string; sentAt: number }>();
+  sdk.subscribe('channel-message', (message: { channel: string; payload: unknown; sender: string; sentAt: number }) => {
+    channelMessages.set(message.channel, message);
+  });
+
+  const usePanelChannel = (channel: string, options: { subscribe?: boolean } = {}) => {
+    const receive = options.subscribe !== false;
+    const [message, setMessage] = React.useState(() => (receive && channelMessages.get(channel)) || null);
+    const [error, setError] = React.useState(null);
+
+    React.useEffect(() => {
+      if (!receive) return;
+
+      setMessage(channelMessages.get(channel) ?? null);
+      const unsubscribe = sdk.subscribe('channel-message', (next: { channel: string }) => {
+        if (next.channel === channel) setMessage(next);
+      });
+
+      const users = (channelUsers.get(channel) ?? 0) + 1;
+      channelUsers.set(channel, users);
+      if (users === 1) {
+        sdk.call('channel.subscribe', [channel]).catch((failure: Error) => setError(failure.message));
+      }
+
+      return () => {
+        unsubscribe();
+        const remaining = (channelUsers.get(channel) ?? 1) - 1;
+        channelUsers.set(channel, remaining);
+        if (remaining === 0) {
+          channelMessages.delete(channel);
+          sdk.call('channel.unsubscribe', [channel]).catch(reportError);
+        }
+      };
+    }, [channel, receive]);
+
+    const publish = React.useCallback((payload: unknown) => {
+      sdk.call('channel.publish', [channel, payload]).then(
+        () => setError(null),
+        (failure: Error) => setError(failure.message)
+      );
+    }, [channel]);
+
+    return [message?.payload, publish, { sender: message?.sender ?? null, sentAt: message?.sentAt ?? null, error }];
+  };
+
+  // Host modules panel code may import, built from the frame's own React
+  function PanelErrorBoundary(this: any, props: any) {
+    React.Component.call(this, props);
+    this.state = { error: null };
+  }
+  PanelErrorBoundary.prototype = Object.create(React.Component.prototype);
+  PanelErrorBoundary.getDerivedStateFromError = (error: unknown) => ({ error });
+  PanelErrorBoundary.prototype.componentDidCatch = function (this: any, error: unknown, info: unknown) {
+    this.props.onError?.(error, info);
+  };
+  PanelErrorBoundary.prototype.render = function (this: any) {
+    if (this.state.error) {
+      return this.props.fallback ?? React.createElement('div', null, 'Component Error');
+    }
+    return this.props.children ?? null;
+  };
+
+  const jsx = (type: unknown, props: any, key?: unknown) =>
+    React.createElement(type, key === undefined ? props : { ...props, key });
+
+  frameWindow.__SANDBOX_MODULES__ = {
+    'react': React,
+    'react-dom': ReactDOM,
+    'react/jsx-runtime': { jsx, jsxs: jsx, Fragment: React.Fragment },
+    'react-error-boundary': { ErrorBoundary: PanelErrorBoundary },
+    'ui-madness/sdk': { usePanelStorage, usePanelFetch, usePanelChannel }
+  };
+
+  const toModuleUrl = (code: string) => URL.createObjectURL(new Blob([code], { type: 'application/javascript' }));
+
+  const shimUrls = new Map<string, string>();
+  const resolveHostModule = (specifier: string): string => {
+    let url = shimUrls.get(specifier);
+    if (url) return url;
+
+    const namespace = frameWindow.__SANDBOX_MODULES__[specifier];
+    if (!namespace) {
+      throw new Error(`Module '${specifier}' is not available in the sandbox`);
+    }
+
+    const key = JSON.stringify(specifier);
+    url = toModuleUrl([
+      `const __module = window.__SANDBOX_MODULES__[${key}];`,
+      `export default ('default' in __module ? __module.default : __module);`,
+      ...Object.keys(namespace)
+        .filter(name => name !== 'default' && /^[A-Za-z_$][\w$]*$/.test(name))
+        .map(name => `export const ${name} = __module.${name};`)
+    ].join('\n'));
+    shimUrls.set(specifier, url);
+    return url;
+  };
+
+  const placeholders = new RegExp(`"((?:${config.modulePrefix}|${config.filePrefix})[^"]*)"`, 'g');
+
+  // Modules arrive in dependency order, so each file's imports are linked already
+  const linkModules = (modules: SandboxModule[]): string[] => {
+    const fileUrls = new Map<string, string>();
+    for (const module of modules) {
+      const linked = module.code.replace(placeholders, (_match, placeholder: string) => {
+        if (placeholder.startsWith(config.filePrefix)) {
+          const url = fileUrls.get(placeholder.slice(config.filePrefix.length));
+          if (!url) throw new Error(`${module.path} imports a file that was not sent`);
+          return JSON.stringify(url);
+        }
+        return JSON.stringify(resolveHostModule(placeholder.slice(config.modulePrefix.length)));
+      });
+
+      // Refresh registrations only matter to the app's hot updates
+      const prelude = 'const $RefreshReg$ = () => {}; const $RefreshSig$ = () => (type) => type;\n';
+      fileUrls.set(module.path, toModuleUrl(prelude + linked));
+    }
+    return [...fileUrls.values()];
+  };
+
+  const root = ReactDOM.createRoot(document.getElementById('root'));
+  let Component: unknown = null;
+  let props: SandboxProps = {};
+  let moduleUrls: string[] = [];
+  let version = 0;
+
+  const render = () => {
+    if (!Component) return;
+    root.render(
+      // A new version starts without the error of the previous one
+      React.createElement(PanelErrorBoundary, { key: version, onError: reportError, fallback: null },
+        React.createElement(Component, props)
+      )
+    );
+    // Reason: React commits asynchronously; report once this render landed
+    setTimeout(() => post({ type: 'rendered' }), 0);
+  };
+
+  const importPanel = async (modules: SandboxModule[]) => {
+    const urls = linkModules(modules);
+    const entry = await import(/* @vite-ignore */ urls[urls.length - 1]);
+    if (typeof entry.default !== 'function') {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      throw new Error('The panel module has no default export component');
+    }
+    return { urls, component: entry.default };
+  };
+
+  const loadPanel = async (modules: SandboxModule[]) => {
+    const { urls, component } = await importPanel(modules);
+    moduleUrls.forEach(url => URL.revokeObjectURL(url));
+    moduleUrls = urls;
+    Component = component;
+    version++;
+  };
+
+  window.addEventListener('message', (event: MessageEvent<SandboxHostMessage>) => {
+    if (event.source !== window.parent) return;
+    const message = event.data;
+
+    switch (message.type) {
+      case 'render':
+        props = message.props;
+        loadPanel(message.modules).then(render, reportError);
+        break;
+      case 'props':
+        props = message.props;
+        render();
+        break;
+      case 'verify':
+        importPanel(message.modules).then(
+          ({ component }) => verify(
+            { ...ReactDOM, createElement: React.createElement, Profiler: React.Profiler, Boundary: PanelErrorBoundary },
+            component,
+            message.budgetMs,
+            config.verification
+          ).then(verification => post({ type: 'verified', verification })),
+          (error: unknown) => post({ type: 'load-failed', message: error instanceof Error ? error.message : String(error) })
+        );
+        break;
+      case 'theme': {
+        document.getElementById('sandbox-theme')!.textContent = message.theme.css;
+        document.documentElement.style.colorScheme = message.theme.colorScheme;
+        break;
+      }
+      case 'sdk-event':
+        eventListeners.get(message.event)?.forEach(listener => listener(message.payload));
+        break;
+      case 'sdk-result': {
+        const pending = pendingCalls.get(message.callId);
+        pendingCalls.delete(message.callId);
+        if (message.error !== undefined) {
+          pending?.reject(new Error(message.error));
+        } else {
+          pending?.resolve(message.result);
+        }
+        break;
+      }
+    }
+  });
+
+  // Errors outside rendering, e.g. in event handlers and timers
+  window.addEventListener('error', event => reportError(event.error ?? event.message));
+  window.addEventListener('unhandledrejection', event => reportError(event.reason));
+
+  let lastHeight = -1;
+  new ResizeObserver(() => {
+    const height = document.documentElement.scrollHeight;
+    if (height !== lastHeight) {
+      lastHeight = height;
+      post({ type: 'resize', height });
+    }
+  }).observe(document.body);
+
+  post({ type: 'ready' });
+}
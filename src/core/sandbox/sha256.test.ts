@@ -0,0 +1,22 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { sha256 } from './sha256';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('sha256', () => {
+  it('matches the FIPS 180-4 test vectors', () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    expect(hex(sha256(encode('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(hex(sha256(encode('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hex(sha256(encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('matches Node for lengths around the block boundaries', () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31) & 0xff);
+      expect(hex(sha256(data))).toBe(createHash('sha256').update(data).digest('hex'));
+    }
+  });
+});
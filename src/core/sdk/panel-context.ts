@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+
+/**
+ * ID of the panel being rendered, provided around every panel rendered in
+ * the app. Panel SDK hooks use it to find their panel's namespace; outside a
+ * panel (drafts, render verification) it is null and the hooks keep their
+ * state in memory only.
+ */
+export const PanelContext = createContext<string | null>(null);
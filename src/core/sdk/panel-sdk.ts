@@ -0,0 +1,259 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import panelDataStore from '../storage/panel-data-store';
+import fetchBroker from '../network/fetch-broker';
+import channelBus from '../channels/channel-bus';
+import type { PanelFetchMethod, PanelFetchResponse } from '../network/fetch-broker';
+import { PanelContext } from './panel-context';
+
+/**
+ * Panel SDK
+ *
+ * Served to panel code as `ui-madness/sdk`. Everything exported here is
+ * importable by panels, so host-only helpers belong elsewhere. Sandboxed
+ * panels get the same API from the frame runtime, backed by SDK calls.
+ */
+
+/** Updates a stored value, like a state setter */
+export type PanelStorageSetter<T> = (value: T | ((previous: T) => T)) => void;
+
+/** Progress of a `usePanelStorage` value */
+export interface PanelStorageStatus {
+  /** True until the stored value has been read */
+  loading: boolean;
+  /** Why the last update could not be stored, e.g. the quota was exceeded */
+  error: string | null;
+}
+
+/**
+ * Persistent state for a panel: like `useState`, but the value survives
+ * reloads. Values are stored per panel, must be JSON-serializable and count
+ * towards the panel's storage quota. Hooks using the same key in one panel
+ * share the value.
+ *
+ * @param key - Storage key, unique within the panel
+ * @param initial - Value used until something is stored
+ * @returns The value, its setter and the storage status
+ */
+export function usePanelStorage<T>(key: string, initial: T): [T, PanelStorageSetter<T>, PanelStorageStatus] {
+  const panelId = useContext(PanelContext);
+  const initialRef = useRef(initial);
+
+  const read = useCallback((): T => {
+    const stored = panelId ? panelDataStore.peek(panelId, key) : undefined;
+    return stored === undefined ? initialRef.current : stored as T;
+  }, [panelId, key]);
+
+  const [value, setValue] = useState<T>(read);
+  const [loading, setLoading] = useState(() => panelId !== null && !panelDataStore.isLoaded(panelId));
+  const [error, setError] = useState<string | null>(null);
+
+  // Reason: functional updates chain on the latest value, including
+  // updates made earlier in the same event
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!panelId) return;
+
+    let active = true;
+    const refresh = () => {
+      if (active) setValue(read());
+    };
+
+    panelDataStore.get(panelId, key).then(() => {
+      refresh();
+      if (active) setLoading(false);
+    });
+
+    // Cleared data falls back to the initial value
+    const unsubscribe = panelDataStore.subscribe(panelId, changed => {
+      if (changed === null || changed === key) refresh();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [panelId, key, read]);
+
+  const update = useCallback<PanelStorageSetter<T>>((next) => {
+    const resolved = typeof next === 'function' ? (next as (previous: T) => T)(valueRef.current) : next;
+    valueRef.current = resolved;
+    setValue(resolved);
+    setError(null);
+
+    if (!panelId) return;
+    panelDataStore.set(panelId, key, resolved).catch((failure: unknown) => {
+      // The stored value stays, so show it again
+      setError(failure instanceof Error ? failure.message : String(failure));
+      setValue(read());
+    });
+  }, [panelId, key, read]);
+
+  return [value, update, { loading, error }];
+}
+
+/** Request options of `usePanelFetch` */
+export interface PanelFetchOptions {
+  method?: PanelFetchMethod;
+  headers?: Record<string, string>;
+  /** Request body, e.g. `JSON.stringify(data)`; POST only */
+  body?: string;
+  /** When true, nothing is requested until `refetch` is called */
+  lazy?: boolean;
+}
+
+/** State of a `usePanelFetch` request */
+export interface PanelFetchResult<T> {
+  /** Parsed JSON for JSON responses, the text otherwise */
+  data: T | null;
+  response: PanelFetchResponse | null;
+  loading: boolean;
+  /** Why the request failed or was blocked, or the HTTP status of an error response */
+  error: string | null;
+  /** Makes the request again */
+  refetch: () => Promise<PanelFetchResponse | null>;
+}
+
+/**
+ * Fetches a URL through the app. Only origins the user allowed in the
+ * workspace's network settings can be reached, with GET, HEAD or POST;
+ * cookies are never sent and responses are size-limited. The request is made
+ * again when the URL or options change.
+ *
+ * @param url - Absolute URL, or null to skip the request
+ * @param options - Request options
+ * @returns Response data and request state
+ */
+export function usePanelFetch<T = unknown>(url: string | null, options: PanelFetchOptions = {}): PanelFetchResult<T> {
+  const panelId = useContext(PanelContext);
+  const { method, headers, body, lazy = false } = options;
+  const [state, setState] = useState<Omit<PanelFetchResult<T>, 'refetch'>>({
+    data: null,
+    response: null,
+    loading: !lazy && url !== null,
+    error: null
+  });
+
+  // Reason: options are usually object literals; compare their content
+  const requestKey = JSON.stringify([url, method, headers, body]);
+  const latestRequest = useRef(0);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const run = useCallback(async (): Promise<PanelFetchResponse | null> => {
+    if (url === null) return null;
+
+    const requestId = ++latestRequest.current;
+    const settle = (next: Omit<PanelFetchResult<T>, 'refetch'>) => {
+      if (mounted.current && requestId === latestRequest.current) setState(next);
+    };
+
+    if (!panelId) {
+      settle({ data: null, response: null, loading: false, error: 'Network requests are available once the panel is added to the workspace' });
+      return null;
+    }
+
+    setState(current => ({ ...current, loading: true, error: null }));
+    try {
+      const response = await fetchBroker.request(panelId, { url, method, headers, body });
+      settle({
+        data: parseResponse(response) as T,
+        response,
+        loading: false,
+        error: response.ok ? null : `HTTP ${response.status} ${response.statusText}`.trim()
+      });
+      return response;
+    } catch (error) {
+      settle({ data: null, response: null, loading: false, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }, [panelId, requestKey]);
+
+  useEffect(() => {
+    if (!lazy) {
+      run();
+    }
+  }, [run, lazy]);
+
+  return { ...state, refetch: run };
+}
+
+function parseResponse(response: PanelFetchResponse): unknown {
+  if (!/json/i.test(response.headers['content-type'] ?? '')) {
+    return response.body;
+  }
+  try {
+    return JSON.parse(response.body);
+  } catch {
+    return response.body;
+  }
+}
+
+/** Options of `usePanelChannel` */
+export interface PanelChannelOptions {
+  /** Set to false to only publish; the panel then receives nothing */
+  subscribe?: boolean;
+}
+
+/** Latest message of a `usePanelChannel` channel */
+export interface PanelChannelStatus {
+  /** ID of the panel that sent the current value */
+  sender: string | null;
+  sentAt: number | null;
+  /** Why the last publish failed, e.g. the panel may not publish to the channel */
+  error: string | null;
+}
+
+/**
+ * Sends and receives messages on a channel shared by all panels, e.g. a
+ * filter panel publishing to `orders.filter` and a chart subscribing to it.
+ * A channel keeps its last message, so panels added later start with the
+ * current value. Payloads must be JSON-serializable.
+ *
+ * @param channel - Channel name: lowercase, dot-separated, e.g. `orders.selected`
+ * @param options - Channel options
+ * @returns The latest payload (undefined until one arrives), a publish function and the message status
+ */
+export function usePanelChannel<T = unknown>(
+  channel: string,
+  options: PanelChannelOptions = {}
+): [T | undefined, (payload: T) => void, PanelChannelStatus] {
+  const panelId = useContext(PanelContext);
+  const receive = options.subscribe !== false;
+  const [message, setMessage] = useState<{ payload: T; sender: string; sentAt: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!panelId || !receive) return;
+
+    setMessage(null);
+    try {
+      return channelBus.subscribe<T>(panelId, channel, ({ payload, sender, sentAt }) => setMessage({ payload, sender, sentAt }));
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : String(failure));
+    }
+  }, [panelId, channel, receive]);
+
+  const publish = useCallback((payload: T) => {
+    if (!panelId) {
+      setError('Channels are available once the panel is added to the workspace');
+      return;
+    }
+
+    try {
+      channelBus.publish(panelId, channel, payload);
+      setError(null);
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : String(failure));
+    }
+  }, [panelId, channel]);
+
+  return [message?.payload, publish, { sender: message?.sender ?? null, sentAt: message?.sentAt ?? null, error }];
+}
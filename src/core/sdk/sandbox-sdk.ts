@@ -0,0 +1,63 @@
+import sandboxHost from '../sandbox/sandbox-host';
+import panelDataStore from '../storage/panel-data-store';
+import fetchBroker from '../network/fetch-broker';
+import type { PanelFetchRequest } from '../network/fetch-broker';
+import channelBus from '../channels/channel-bus';
+
+let disconnect: (() => void) | null = null;
+
+/**
+ * Serves the panel SDK to sandboxed panels: registers the app side of the
+ * SDK calls their frames make. Every call acts on the calling panel's own
+ * namespace, which the frame cannot choose. Calling it again is a no-op.
+ *
+ * @returns Function that stops serving the SDK
+ */
+export function connectSandboxSDK(): () => void {
+  if (disconnect) return disconnect;
+
+  // Channel subscriptions of each frame, by panel and channel; the frame
+  // shares one per channel between its hooks
+  const channels = new Map<string, Map<string, () => void>>();
+
+  const unsubscribeChannel = (panelId: string, channel: string) => {
+    const subscriptions = channels.get(panelId);
+    subscriptions?.get(channel)?.();
+    subscriptions?.delete(channel);
+  };
+
+  const unsubscribeFrame = (panelId: string) => {
+    channels.get(panelId)?.forEach(unsubscribe => unsubscribe());
+    channels.delete(panelId);
+  };
+
+  const disposers = [
+    sandboxHost.handle('storage.get', (panelId, key: string) => panelDataStore.get(panelId, key)),
+    sandboxHost.handle('storage.set', (panelId, key: string, value: unknown) => panelDataStore.set(panelId, key, value)),
+    sandboxHost.handle('fetch', (panelId, request: PanelFetchRequest) => fetchBroker.request(panelId, request)),
+    sandboxHost.handle('channel.publish', (panelId, channel: string, payload: unknown) => {
+      channelBus.publish(panelId, channel, payload);
+    }),
+    sandboxHost.handle('channel.subscribe', (panelId, channel: string) => {
+      let subscriptions = channels.get(panelId);
+      if (!subscriptions) {
+        subscriptions = new Map();
+        channels.set(panelId, subscriptions);
+      }
+      if (!subscriptions.has(channel)) {
+        subscriptions.set(channel, channelBus.subscribe(panelId, channel, message => {
+          sandboxHost.emit(panelId, 'channel-message', message);
+        }));
+      }
+    }),
+    sandboxHost.handle('channel.unsubscribe', (panelId, channel: string) => unsubscribeChannel(panelId, channel)),
+    sandboxHost.onDisconnect(unsubscribeFrame)
+  ];
+
+  disconnect = () => {
+    disposers.forEach(dispose => dispose());
+    [...channels.keys()].forEach(unsubscribeFrame);
+    disconnect = null;
+  };
+  return disconnect;
+}
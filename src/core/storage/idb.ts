@@ -0,0 +1,70 @@
+/**
+ * IndexedDB helpers
+ *
+ * Thin promise wrappers over the IndexedDB request/transaction API, shared by
+ * everything that persists data in the browser.
+ */
+
+/**
+ * Checks whether IndexedDB is available (it is missing in some private
+ * browsing modes and in non-browser environments).
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Opens (and if needed creates or upgrades) a database.
+ *
+ * @param name - Database name
+ * @param version - Schema version
+ * @param upgrade - Called inside the versionchange transaction to create stores
+ * @returns Promise resolving to the open database
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Opening database ${name} was blocked by another connection`));
+  });
+}
+
+/**
+ * Resolves with the result of an IndexedDB request.
+ *
+ * @param request - Pending request
+ * @returns Promise resolving to the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed.
+ *
+ * @param transaction - Transaction to wait for
+ * @returns Promise resolving when the transaction completes
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
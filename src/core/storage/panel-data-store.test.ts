@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  PANEL_STORAGE_MAX_KEYS,
+  PANEL_STORAGE_QUOTA_BYTES,
+  PanelDataStore,
+  formatBytes
+} from './panel-data-store';
+
+// IndexedDB does not exist under vitest, so the store keeps data in memory only
+describe('PanelDataStore', () => {
+  let store: PanelDataStore;
+
+  beforeEach(() => {
+    store = new PanelDataStore();
+  });
+
+  describe('values', () => {
+    it('stores values per panel', async () => {
+      await store.set('a', 'count', 1);
+      await store.set('b', 'count', 2);
+
+      await expect(store.get('a', 'count')).resolves.toBe(1);
+      await expect(store.get('b', 'count')).resolves.toBe(2);
+      await expect(store.get('a', 'missing')).resolves.toBeUndefined();
+    });
+
+    it('stores the JSON round-trip of a value', async () => {
+      const createdAt = new Date('2024-05-01T00:00:00Z');
+      await store.set('panel', 'todo', { title: 'x', createdAt, note: undefined, tags: [1, undefined] });
+
+      await expect(store.get('panel', 'todo')).resolves.toEqual({
+        title: 'x',
+        createdAt: '2024-05-01T00:00:00.000Z',
+        tags: [1, null]
+      });
+    });
+
+    it('rejects values that are not JSON-serializable', async () => {
+      const cyclic: Record<string, unknown> = {};
+      cyclic.self = cyclic;
+
+      await expect(store.set('panel', 'fn', () => {})).rejects.toThrow(/not JSON-serializable/);
+      await expect(store.set('panel', 'cyclic', cyclic)).rejects.toThrow(/not JSON-serializable/);
+      await expect(store.set('panel', 'big', 10n)).rejects.toThrow(/not JSON-serializable/);
+    });
+
+    it('rejects empty and overlong keys', async () => {
+      await expect(store.set('panel', '', 1)).rejects.toThrow(/non-empty strings/);
+      await expect(store.set('panel', 'k'.repeat(129), 1)).rejects.toThrow(/128 characters/);
+    });
+
+    it('makes values readable synchronously once loaded', async () => {
+      expect(store.isLoaded('panel')).toBe(false);
+      await store.set('panel', 'count', 3);
+
+      expect(store.isLoaded('panel')).toBe(true);
+      expect(store.peek('panel', 'count')).toBe(3);
+    });
+  });
+
+  describe('limits', () => {
+    it('enforces the quota on the JSON size of keys and values', async () => {
+      // Key plus quotes around the string make up the rest of the quota
+      const fits = 'x'.repeat(PANEL_STORAGE_QUOTA_BYTES - 'big'.length - 2);
+      await store.set('panel', 'big', fits);
+      await expect(store.set('panel', 'more', 1)).rejects.toThrow(/exceed the panel's 1.0 MB storage quota/);
+
+      await expect(store.getUsage('panel')).resolves.toMatchObject({ bytes: PANEL_STORAGE_QUOTA_BYTES, keys: 1 });
+    });
+
+    it('counts a replaced value only once towards the quota', async () => {
+      const half = 'x'.repeat(PANEL_STORAGE_QUOTA_BYTES / 2);
+      await store.set('panel', 'value', half);
+      await store.set('panel', 'value', half);
+
+      await expect(store.getUsage('panel')).resolves.toMatchObject({ keys: 1 });
+    });
+
+    it('limits the number of keys but allows replacing existing ones', async () => {
+      for (let i = 0; i < PANEL_STORAGE_MAX_KEYS; i++) {
+        await store.set('panel', `key-${i}`, i);
+      }
+
+      await expect(store.set('panel', 'one-more', 1)).rejects.toThrow(`limited to ${PANEL_STORAGE_MAX_KEYS} keys`);
+      await expect(store.set('panel', 'key-0', 'replaced')).resolves.toBeUndefined();
+
+      await store.remove('panel', 'key-1');
+      await expect(store.set('panel', 'one-more', 1)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('clearPanel', () => {
+    it('deletes only that panel\'s data', async () => {
+      await store.set('a', 'count', 1);
+      await store.set('b', 'count', 2);
+
+      await store.clearPanel('a');
+
+      await expect(store.exportPanel('a')).resolves.toEqual({});
+      await expect(store.getUsage('a')).resolves.toMatchObject({ bytes: 0, keys: 0 });
+      await expect(store.get('b', 'count')).resolves.toBe(2);
+    });
+
+    it('notifies listeners with a null key', async () => {
+      const listener = vi.fn();
+      store.subscribe('panel', listener);
+
+      await store.set('panel', 'count', 1);
+      await store.clearPanel('panel');
+
+      expect(listener.mock.calls).toEqual([['count'], [null]]);
+    });
+  });
+
+  it('notifies listeners of changes and stops after unsubscribing', async () => {
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe('panel', listener);
+
+    await store.set('panel', 'count', 1);
+    await store.remove('panel', 'count');
+    await store.remove('panel', 'count');
+    unsubscribe();
+    await store.set('panel', 'count', 2);
+
+    expect(listener.mock.calls).toEqual([['count'], ['count']]);
+  });
+
+  it('forgets a deleted panel', async () => {
+    await store.set('panel', 'count', 1);
+    await store.deletePanel('panel');
+
+    expect(store.isLoaded('panel')).toBe(false);
+    await expect(store.get('panel', 'count')).resolves.toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(12800)).toBe('12.5 KB');
+    expect(formatBytes(PANEL_STORAGE_QUOTA_BYTES)).toBe('1.0 MB');
+  });
+});
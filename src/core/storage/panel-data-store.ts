@@ -0,0 +1,336 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+
+/**
+ * Panel Data Store
+ *
+ * Persistent key-value storage for panels, behind `usePanelStorage` in the
+ * panel SDK. Every panel gets its own namespace, keyed by panel ID, and a
+ * quota. Values must be JSON-serializable; their JSON size is what counts
+ * towards the quota. A panel's entries are loaded into memory on first use,
+ * so reads after that are synchronous.
+ */
+
+/** Bytes each panel may store */
+export const PANEL_STORAGE_QUOTA_BYTES = 1024 * 1024;
+
+/** Keys each panel may store */
+export const PANEL_STORAGE_MAX_KEYS = 256;
+
+const MAX_KEY_LENGTH = 128;
+
+const DB_NAME = 'ui-madness-panel-data';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+interface StoredEntry {
+  panelId: string;
+  key: string;
+  value: unknown;
+  size: number;
+  updatedAt: number;
+}
+
+/** Storage used by one panel */
+export interface PanelStorageUsage {
+  bytes: number;
+  keys: number;
+  quotaBytes: number;
+  maxKeys: number;
+}
+
+/**
+ * Called when a panel's stored data changes.
+ *
+ * @param key - Changed key, or null when the panel's data was cleared
+ */
+export type PanelDataListener = (key: string | null) => void;
+
+export class PanelDataStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private panels: Map<string, Promise<Map<string, StoredEntry>>> = new Map();
+  private loaded: Map<string, Map<string, StoredEntry>> = new Map();
+  private listeners: Map<string, Set<PanelDataListener>> = new Map();
+
+  /**
+   * Reads a value that is already in memory, without waiting for storage.
+   *
+   * @param panelId - Panel identifier
+   * @param key - Storage key
+   * @returns The value, or undefined if it is missing or the panel's data is not loaded yet
+   */
+  peek(panelId: string, key: string): unknown {
+    return this.loaded.get(panelId)?.get(key)?.value;
+  }
+
+  /**
+   * Checks whether a panel's data has been loaded into memory.
+   *
+   * @param panelId - Panel identifier
+   * @returns true once reads for the panel are synchronous
+   */
+  isLoaded(panelId: string): boolean {
+    return this.loaded.has(panelId);
+  }
+
+  /**
+   * Reads a value.
+   *
+   * @param panelId - Panel identifier
+   * @param key - Storage key
+   * @returns The value, or undefined if nothing is stored under the key
+   */
+  async get(panelId: string, key: string): Promise<unknown> {
+    const entries = await this.load(panelId);
+    return entries.get(key)?.value;
+  }
+
+  /**
+   * Stores a value, replacing the previous one.
+   *
+   * @param panelId - Panel identifier
+   * @param key - Storage key
+   * @param value - JSON-serializable value
+   * @throws Error if the key or value is invalid, or the panel's quota would be exceeded
+   */
+  async set(panelId: string, key: string, value: unknown): Promise<void> {
+    validateKey(key);
+
+    let json: string | undefined;
+    try {
+      json = JSON.stringify(value);
+    } catch (error) {
+      throw new Error(`Value of '${key}' is not JSON-serializable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (json === undefined) {
+      throw new Error(`Value of '${key}' is not JSON-serializable`);
+    }
+
+    const entries = await this.load(panelId);
+    const size = key.length + json.length;
+    const previous = entries.get(key);
+
+    if (!previous && entries.size >= PANEL_STORAGE_MAX_KEYS) {
+      throw new Error(`Panel storage is limited to ${PANEL_STORAGE_MAX_KEYS} keys`);
+    }
+
+    const bytes = sumSizes(entries) - (previous?.size ?? 0) + size;
+    if (bytes > PANEL_STORAGE_QUOTA_BYTES) {
+      throw new Error(`Storing '${key}' would exceed the panel's ${formatBytes(PANEL_STORAGE_QUOTA_BYTES)} storage quota (${formatBytes(bytes)} needed)`);
+    }
+
+    // Reason: store the JSON round-trip, so reads see what a reload would
+    // (no Dates, class instances or undefined properties)
+    const entry: StoredEntry = { panelId, key, value: JSON.parse(json), size, updatedAt: Date.now() };
+    entries.set(key, entry);
+    this.notify(panelId, key);
+
+    await this.write(store => store.put(entry));
+  }
+
+  /**
+   * Deletes a value.
+   *
+   * @param panelId - Panel identifier
+   * @param key - Storage key
+   */
+  async remove(panelId: string, key: string): Promise<void> {
+    const entries = await this.load(panelId);
+    if (!entries.delete(key)) return;
+
+    this.notify(panelId, key);
+    await this.write(store => store.delete([panelId, key]));
+  }
+
+  /**
+   * Collects everything a panel stored.
+   *
+   * @param panelId - Panel identifier
+   * @returns Stored values by key
+   */
+  async exportPanel(panelId: string): Promise<Record<string, unknown>> {
+    const entries = await this.load(panelId);
+    const data: Record<string, unknown> = {};
+    for (const [key, entry] of entries) {
+      data[key] = entry.value;
+    }
+    return data;
+  }
+
+  /**
+   * Measures a panel's storage against its quota.
+   *
+   * @param panelId - Panel identifier
+   * @returns Usage and limits
+   */
+  async getUsage(panelId: string): Promise<PanelStorageUsage> {
+    const entries = await this.load(panelId);
+    return {
+      bytes: sumSizes(entries),
+      keys: entries.size,
+      quotaBytes: PANEL_STORAGE_QUOTA_BYTES,
+      maxKeys: PANEL_STORAGE_MAX_KEYS
+    };
+  }
+
+  /**
+   * Deletes everything a panel stored.
+   *
+   * @param panelId - Panel identifier
+   */
+  async clearPanel(panelId: string): Promise<void> {
+    const loaded = this.loaded.get(panelId);
+    if (loaded) {
+      loaded.clear();
+    }
+    this.notify(panelId, null);
+
+    await this.write(store => {
+      const keys = store.index('panelId').getAllKeys(IDBKeyRange.only(panelId));
+      keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+    });
+  }
+
+  /**
+   * Deletes a removed panel's data and forgets the panel.
+   *
+   * @param panelId - Panel identifier
+   */
+  async deletePanel(panelId: string): Promise<void> {
+    await this.clearPanel(panelId);
+    this.panels.delete(panelId);
+    this.loaded.delete(panelId);
+    this.listeners.delete(panelId);
+  }
+
+  /**
+   * Listens for changes to a panel's data, including clears from the app.
+   *
+   * @param panelId - Panel identifier
+   * @param listener - Called with the changed key
+   * @returns Function removing the listener
+   */
+  subscribe(panelId: string, listener: PanelDataListener): () => void {
+    let listeners = this.listeners.get(panelId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(panelId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0 && this.listeners.get(panelId) === listeners) {
+        this.listeners.delete(panelId);
+      }
+    };
+  }
+
+  private notify(panelId: string, key: string | null): void {
+    this.listeners.get(panelId)?.forEach(listener => {
+      try {
+        listener(key);
+      } catch (error) {
+        console.error(`[PanelDataStore] Listener for ${panelId} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Loads a panel's entries once; later calls share the same map.
+   */
+  private load(panelId: string): Promise<Map<string, StoredEntry>> {
+    let pending = this.panels.get(panelId);
+    if (!pending) {
+      pending = this.readPanel(panelId).then(entries => {
+        this.loaded.set(panelId, entries);
+        return entries;
+      });
+      this.panels.set(panelId, pending);
+    }
+    return pending;
+  }
+
+  private async readPanel(panelId: string): Promise<Map<string, StoredEntry>> {
+    const entries = new Map<string, StoredEntry>();
+    const db = await this.openStore();
+    if (!db) return entries;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const records = await requestToPromise<StoredEntry[]>(
+        transaction.objectStore(STORE_NAME).index('panelId').getAll(IDBKeyRange.only(panelId))
+      );
+      records.forEach(record => entries.set(record.key, record));
+    } catch (error) {
+      console.warn(`[PanelDataStore] Failed to load data of ${panelId}:`, error);
+    }
+    return entries;
+  }
+
+  /**
+   * Runs a write against the database. Memory stays authoritative, so
+   * failures are logged rather than thrown.
+   */
+  private async write(operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openStore();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      operation(transaction.objectStore(STORE_NAME));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('[PanelDataStore] Failed to persist panel data:', error);
+    }
+  }
+
+  /**
+   * Opens the database once; resolves to null when persistence is unavailable.
+   */
+  private openStore(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = isIndexedDBAvailable()
+        ? openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: ['panelId', 'key'] });
+            store.createIndex('panelId', 'panelId');
+          }).catch((error) => {
+            console.warn('[PanelDataStore] IndexedDB unavailable, keeping panel data in memory only:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.db;
+  }
+}
+
+function validateKey(key: unknown): asserts key is string {
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new Error('Panel storage keys must be non-empty strings');
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new Error(`Panel storage keys are limited to ${MAX_KEY_LENGTH} characters`);
+  }
+}
+
+function sumSizes(entries: Map<string, StoredEntry>): number {
+  let bytes = 0;
+  entries.forEach(entry => { bytes += entry.size; });
+  return bytes;
+}
+
+/**
+ * Formats a byte count for messages and the panel info menu.
+ *
+ * @param bytes - Byte count
+ * @returns e.g. "12.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Create and export default instance
+const panelDataStore = new PanelDataStore();
+
+export default panelDataStore;
@@ -0,0 +1,201 @@
+import type { PanelDefinition, PanelFileTree, PanelLayout, PanelMetadata } from '../../types';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+
+/**
+ * Panel Storage
+ *
+ * Persistence backends for the panel registry. Only what is needed to rebuild
+ * a panel is stored - its source, metadata and layout position; compiled
+ * output comes back through the compilation cache when the panel is restored.
+ *
+ * Every record carries the schema version it was written with. Records from
+ * an older schema are migrated forward when loaded, so bumping
+ * PANEL_SCHEMA_VERSION only requires adding a migration step below.
+ */
+
+/** Version of the StoredPanel shape written by this build */
+export const PANEL_SCHEMA_VERSION = 1;
+
+/** A panel definition as persisted between sessions */
+export interface StoredPanel {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  /** Source of the panel, or of its entry module for multi-file panels */
+  jsxCode: string;
+  files?: PanelFileTree;
+  metadata: PanelMetadata;
+  layout: PanelLayout;
+  savedAt: number;
+}
+
+/** Storage backend of the panel registry */
+export interface PanelStorageBackend {
+  /** Human-readable backend name, for logs */
+  readonly name: string;
+  /** Loads every stored panel, migrated to the current schema */
+  loadAll(): Promise<StoredPanel[]>;
+  save(panel: StoredPanel): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Upgrades a record written with schema version N to version N + 1, keyed by N.
+ */
+const MIGRATIONS: Record<number, (record: any) => any> = {};
+
+/**
+ * Brings a stored record up to the current schema.
+ *
+ * @param record - Record as read from storage
+ * @returns The migrated record, or null if it was written by a newer schema
+ *   or no migration path exists
+ */
+export function migrateStoredPanel(record: any): StoredPanel | null {
+  let migrated = record;
+  let version: number = record?.schemaVersion ?? 0;
+
+  if (version > PANEL_SCHEMA_VERSION) {
+    console.warn(`[PanelStorage] Skipping ${record.id}: saved by a newer schema (v${version})`);
+    return null;
+  }
+
+  while (version < PANEL_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      console.warn(`[PanelStorage] Skipping ${record?.id}: no migration from schema v${version}`);
+      return null;
+    }
+    migrated = { ...migrate(migrated), schemaVersion: version + 1 };
+    version++;
+  }
+
+  return migrated as StoredPanel;
+}
+
+/**
+ * Builds the record persisted for a panel definition.
+ *
+ * @param panel - Registered panel
+ * @returns Record in the current schema
+ */
+export function toStoredPanel(panel: PanelDefinition): StoredPanel {
+  return {
+    schemaVersion: PANEL_SCHEMA_VERSION,
+    id: panel.id,
+    name: panel.name,
+    jsxCode: panel.jsxCode,
+    files: panel.files,
+    metadata: panel.metadata,
+    layout: panel.layout ?? { order: 0 },
+    savedAt: Date.now()
+  };
+}
+
+const DB_NAME = 'ui-madness-panels';
+const DB_VERSION = 1;
+const STORE_NAME = 'panels';
+
+/**
+ * Stores panels in IndexedDB. Records are structured-cloned, so metadata
+ * dates come back as Date objects.
+ */
+export class IndexedDBPanelStorage implements PanelStorageBackend {
+  readonly name = 'IndexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+
+  async loadAll(): Promise<StoredPanel[]> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const records = await requestToPromise<any[]>(transaction.objectStore(STORE_NAME).getAll());
+
+    const panels: StoredPanel[] = [];
+    const upgraded: StoredPanel[] = [];
+    for (const record of records) {
+      const panel = migrateStoredPanel(record);
+      if (!panel) continue;
+      panels.push(panel);
+      if (record.schemaVersion !== panel.schemaVersion) {
+        upgraded.push(panel);
+      }
+    }
+
+    // Migrated records are written back so each migration runs once
+    if (upgraded.length > 0) {
+      const writeBack = db.transaction(STORE_NAME, 'readwrite');
+      upgraded.forEach(panel => writeBack.objectStore(STORE_NAME).put(panel));
+      await transactionDone(writeBack).catch(error => {
+        console.warn('[PanelStorage] Failed to save migrated panels:', error);
+      });
+    }
+
+    return panels;
+  }
+
+  async save(panel: StoredPanel): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(panel);
+    await transactionDone(transaction);
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      });
+      // A failed open is retried on the next call
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Keeps panels for the lifetime of the page only. Used where IndexedDB is
+ * unavailable, so the registry can always assume a backend.
+ */
+export class MemoryPanelStorage implements PanelStorageBackend {
+  readonly name = 'memory';
+  private records: Map<string, StoredPanel> = new Map();
+
+  async loadAll(): Promise<StoredPanel[]> {
+    return Array.from(this.records.values());
+  }
+
+  async save(panel: StoredPanel): Promise<void> {
+    this.records.set(panel.id, panel);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * Creates the default backend for this environment.
+ *
+ * @returns IndexedDB storage when available, in-memory storage otherwise
+ */
+export function createPanelStorage(): PanelStorageBackend {
+  return isIndexedDBAvailable() ? new IndexedDBPanelStorage() : new MemoryPanelStorage();
+}
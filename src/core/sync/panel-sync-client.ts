@@ -0,0 +1,157 @@
+import type { ComponentCacheEntry, PanelFileTree, SecurityValidationResult } from '../../types';
+import codeValidator from '../ai/code-validator';
+import componentStore from '../registry/component-store';
+import panelRegistry from '../registry/panel-registry';
+import panelEvents from '../registry/panel-events';
+import {
+  PANEL_SYNC_EVENTS,
+  hashPanelSource,
+  type PanelSyncChanged,
+  type PanelSyncConflict,
+  type PanelSyncRejected,
+  type PanelSyncRemove,
+  type PanelSyncWrite
+} from './panel-sync-protocol';
+
+type HotContext = NonNullable<ImportMeta['hot']>;
+
+/**
+ * Panel Sync Client
+ *
+ * Browser side of the `panelSync` dev server plugin. Every committed panel
+ * version is sent to the dev server to be written to disk, and panel files
+ * saved on disk come back as `manual-component-update` events (or as new
+ * panels). Files from disk are validated like generated code first; invalid
+ * ones are rejected. Inactive outside the Vite dev server.
+ */
+export class PanelSyncClient {
+  private hot: HotContext | null = null;
+  // Hash of the source last agreed on with the dev server, per panel
+  private synced: Map<string, string> = new Map();
+
+  constructor() {
+    if (import.meta.hot) {
+      this.connect(import.meta.hot);
+    }
+  }
+
+  /**
+   * Starts syncing over a Vite HMR connection.
+   *
+   * @param hot - The HMR context whose websocket carries sync messages
+   */
+  connect(hot: HotContext): void {
+    this.hot = hot;
+
+    hot.on(PANEL_SYNC_EVENTS.changed, (data: PanelSyncChanged) => {
+      this.handleDiskChange(data).catch(error => {
+        console.error(`[PanelSync] Failed to apply ${data.panelId} from disk:`, error);
+      });
+    });
+    hot.on(PANEL_SYNC_EVENTS.removed, (data: PanelSyncRemove) => this.handleDiskRemoval(data));
+    hot.on(PANEL_SYNC_EVENTS.conflict, (data: PanelSyncConflict) => this.handleConflict(data));
+
+    componentStore.subscribe((panelId, entry) => this.handleCommit(panelId, entry));
+
+    const panels = componentStore.keys().map(panelId => this.toWrite(panelId, componentStore.getSource(panelId)!));
+    for (const { panelId, source } of panels) {
+      this.synced.set(panelId, hashPanelSource(source));
+    }
+    hot.send(PANEL_SYNC_EVENTS.hello, { panels });
+
+    console.log('[PanelSync] Connected to the dev server');
+  }
+
+  /**
+   * Checks whether panels are being synced with disk.
+   */
+  isConnected(): boolean {
+    return this.hot !== null;
+  }
+
+  /**
+   * Sends a committed version to disk, unless it came from disk.
+   */
+  private handleCommit(panelId: string, entry: ComponentCacheEntry | undefined): void {
+    if (!this.hot) return;
+
+    if (!entry) {
+      if (this.synced.delete(panelId)) {
+        this.hot.send(PANEL_SYNC_EVENTS.remove, { panelId } satisfies PanelSyncRemove);
+      }
+      return;
+    }
+
+    const source = componentStore.getSource(panelId);
+    if (source === undefined || this.synced.get(panelId) === hashPanelSource(source)) {
+      return;
+    }
+
+    const write = this.toWrite(panelId, source);
+    this.synced.set(panelId, hashPanelSource(source));
+    this.hot.send(PANEL_SYNC_EVENTS.write, write);
+  }
+
+  /**
+   * Applies panel files saved on disk: existing panels are hot updated,
+   * unknown ones are created. Files that fail validation are not applied.
+   */
+  private async handleDiskChange({ panelId, source }: PanelSyncChanged): Promise<void> {
+    const validation = await validateSource(source);
+    if (!validation.isValid) {
+      // Reason: the last agreed hash stays, so the browser's next write is a
+      // conflict and its version is kept next to the invalid files
+      console.warn(`[PanelSync] Rejected ${panelId} from disk:`, validation.errors);
+      this.hot?.send(PANEL_SYNC_EVENTS.rejected, { panelId, errors: validation.errors } satisfies PanelSyncRejected);
+      return;
+    }
+
+    // Recorded first, so the resulting commit is not sent back to disk
+    this.synced.set(panelId, hashPanelSource(source));
+
+    // Evicted panels still have a committed source and are updated in place
+    if (componentStore.getSource(panelId) !== undefined) {
+      panelEvents.emit('manual-component-update',
+        typeof source === 'string' ? { panelId, jsxCode: source } : { panelId, files: source }
+      );
+      return;
+    }
+
+    const metadata = { creator: 'user' as const, description: 'Loaded from disk' };
+    const component = typeof source === 'string'
+      ? await panelRegistry.registerPanelFromJSX(panelId, source, metadata)
+      : await panelRegistry.registerPanelFromFiles(panelId, source, metadata);
+
+    panelEvents.emit('create-panel', { panelId, component });
+    console.log(`[PanelSync] Created panel ${panelId} from disk`);
+  }
+
+  private handleDiskRemoval({ panelId }: PanelSyncRemove): void {
+    // Forgotten first, so the removal is not sent back to disk
+    this.synced.delete(panelId);
+    panelRegistry.removePanel(panelId);
+
+    panelEvents.emit('remove-panel', { panelId });
+  }
+
+  private handleConflict({ panelId, conflictPath }: PanelSyncConflict): void {
+    console.warn(`[PanelSync] ${panelId} was edited on disk and in the browser at once; the disk version wins, the browser's was saved to ${conflictPath}`);
+
+    panelEvents.emit('panel-sync-conflict', { panelId, conflictPath });
+  }
+
+  private toWrite(panelId: string, source: string | PanelFileTree): PanelSyncWrite {
+    return { panelId, source, base: this.synced.get(panelId) };
+  }
+}
+
+function validateSource(source: string | PanelFileTree): Promise<SecurityValidationResult> {
+  return typeof source === 'string'
+    ? codeValidator.validateJSX(source)
+    : codeValidator.validatePanelFiles(source);
+}
+
+// Create and export the shared sync client
+const panelSyncClient = new PanelSyncClient();
+
+export default panelSyncClient;
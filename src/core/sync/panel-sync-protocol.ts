@@ -0,0 +1,86 @@
+import type { PanelFileTree } from '../../types/panel-files';
+
+/**
+ * Panel sync protocol
+ *
+ * Messages exchanged over Vite's HMR websocket between the `panelSync` dev
+ * server plugin and the browser bridge. Shared by both sides, so this module
+ * must not touch browser or Node APIs.
+ *
+ * Each side remembers, per panel, the hash of the source both sides last
+ * agreed on. A change carries that hash as its `base`: when the dev server
+ * finds the files on disk no longer match the base of a browser write, both
+ * sides changed concurrently. Conflicts resolve in favour of the files on
+ * disk; the browser's version is kept as a conflict copy. Files on disk that
+ * fail the browser's security validation are rejected: the browser keeps its
+ * version, and its next write conflicts with the files until they are fixed.
+ */
+
+export const PANEL_SYNC_EVENTS = {
+  /** Browser → server: current panels, sent once the bridge connects */
+  hello: 'panel-sync:hello',
+  /** Browser → server: a panel was created or changed in the browser */
+  write: 'panel-sync:write',
+  /** Browser → server: a panel was removed in the browser */
+  remove: 'panel-sync:remove',
+  /** Server → browser: a panel's files changed on disk; the browser applies them */
+  changed: 'panel-sync:changed',
+  /** Server → browser: a panel's files were deleted from disk */
+  removed: 'panel-sync:removed',
+  /** Server → browser: a browser write lost against a concurrent disk edit */
+  conflict: 'panel-sync:conflict',
+  /** Browser → server: files changed on disk failed validation and were not applied */
+  rejected: 'panel-sync:rejected'
+} as const;
+
+export interface PanelSyncHello {
+  panels: PanelSyncWrite[];
+}
+
+export interface PanelSyncWrite {
+  panelId: string;
+  source: string | PanelFileTree;
+  /** Hash of the source last synced for this panel, if it was synced before */
+  base?: string;
+}
+
+export interface PanelSyncRemove {
+  panelId: string;
+}
+
+export interface PanelSyncChanged {
+  panelId: string;
+  source: string | PanelFileTree;
+}
+
+export interface PanelSyncConflict {
+  panelId: string;
+  /** Where the browser's version was saved, relative to the project root */
+  conflictPath: string;
+}
+
+export interface PanelSyncRejected {
+  panelId: string;
+  /** Why validation failed */
+  errors: string[];
+}
+
+/**
+ * Hashes a panel source for change detection (FNV-1a). File trees hash the
+ * same regardless of key order.
+ *
+ * @param source - Panel source or file tree
+ * @returns Hex digest
+ */
+export function hashPanelSource(source: string | PanelFileTree): string {
+  const text = typeof source === 'string'
+    ? source
+    : JSON.stringify([source.entry, ...Object.keys(source.files).sort().map(path => [path, source.files[path]])]);
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
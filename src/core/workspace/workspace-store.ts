@@ -0,0 +1,263 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+import type {
+  ChatMessage,
+  ChatThread,
+  GenerationJob,
+  WorkspacePanel,
+  WorkspaceSettings,
+  WorkspaceStats
+} from '../../types';
+import ollamaClient from '../ai/ollama-client';
+import { DEFAULT_MEMORY_BUDGET } from '../registry/panel-lifecycle';
+
+/** Finished jobs kept for display; running jobs are never dropped */
+const MAX_FINISHED_JOBS = 20;
+
+export interface WorkspaceState {
+  /** Panels in grid order */
+  panels: WorkspacePanel[];
+  stats: WorkspaceStats;
+  threads: Record<string, ChatThread>;
+  activeThreadId: string;
+  jobs: GenerationJob[];
+  settings: WorkspaceSettings;
+
+  /** Adds a panel, or replaces the one with the same ID, at its grid position */
+  upsertPanel: (panel: WorkspacePanel) => void;
+  removePanel: (panelId: string) => void;
+  updatePanelComponent: (panelId: string, component: WorkspacePanel['component']) => void;
+  updatePanelMetadata: (panelId: string, metadata: WorkspacePanel['metadata']) => void;
+  setStats: (stats: WorkspaceStats) => void;
+
+  /** Starts a new thread and makes it active; returns its ID */
+  createThread: (title?: string) => string;
+  selectThread: (threadId: string) => void;
+  deleteThread: (threadId: string) => void;
+  addMessage: (message: ChatMessage, threadId?: string) => void;
+  clearThread: (threadId?: string) => void;
+
+  /** Records a running generation; returns its ID */
+  startJob: (job: Pick<GenerationJob, 'kind' | 'prompt' | 'panelId'> & { threadId?: string }) => string;
+  /** Records the streamed output and latest draft of a running generation */
+  updateJob: (jobId: string, progress: Pick<GenerationJob, 'output' | 'preview'>) => void;
+  finishJob: (jobId: string, panelId?: string) => void;
+  failJob: (jobId: string, error: string) => void;
+  cancelJob: (jobId: string) => void;
+
+  setShowChat: (showChat: boolean) => void;
+  setModel: (model: string | null) => void;
+  setMemoryBudget: (bytes: number) => void;
+  setAllowedOrigins: (origins: string[]) => void;
+}
+
+type PersistedWorkspace = Pick<WorkspaceState, 'threads' | 'activeThreadId' | 'settings'>;
+
+function newThread(title: string = 'New chat'): ChatThread {
+  return { id: `thread-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, title, messages: [], createdAt: Date.now() };
+}
+
+const initialThread = newThread();
+
+/**
+ * Workspace Store
+ *
+ * Single source of UI state: the panel grid, chat threads, generation jobs
+ * and settings. Panels mirror the registry (see workspace-sync); the registry
+ * and IndexedDB stay authoritative for panel sources, so only chat and
+ * settings are persisted here. Actions are named `<slice>/<action>` for the
+ * Redux devtools.
+ */
+export const useWorkspaceStore = create<WorkspaceState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        panels: [],
+        stats: { totalPanels: 0, memoryUsage: 0, unloadedPanels: 0, cacheHitRate: 0 },
+        threads: { [initialThread.id]: initialThread },
+        activeThreadId: initialThread.id,
+        jobs: [],
+        settings: { showChat: true, model: null, memoryBudget: DEFAULT_MEMORY_BUDGET, allowedOrigins: [] },
+
+        upsertPanel: (panel) => set(state => ({
+          panels: [...state.panels.filter(p => p.id !== panel.id), panel].sort((a, b) => a.order - b.order)
+        }), false, 'panels/upsert'),
+
+        removePanel: (panelId) => set(state => ({
+          panels: state.panels.filter(p => p.id !== panelId)
+        }), false, 'panels/remove'),
+
+        updatePanelComponent: (panelId, component) => set(state => ({
+          panels: state.panels.map(panel =>
+            panel.id === panelId && panel.component !== component ? { ...panel, component } : panel
+          )
+        }), false, 'panels/updateComponent'),
+
+        updatePanelMetadata: (panelId, metadata) => set(state => ({
+          panels: state.panels.map(panel => (panel.id === panelId ? { ...panel, metadata } : panel))
+        }), false, 'panels/updateMetadata'),
+
+        setStats: (stats) => set({ stats }, false, 'panels/stats'),
+
+        createThread: (title) => {
+          const thread = newThread(title);
+          set(state => ({
+            threads: { ...state.threads, [thread.id]: thread },
+            activeThreadId: thread.id
+          }), false, 'chat/createThread');
+          return thread.id;
+        },
+
+        selectThread: (threadId) => {
+          if (get().threads[threadId]) {
+            set({ activeThreadId: threadId }, false, 'chat/selectThread');
+          }
+        },
+
+        deleteThread: (threadId) => {
+          const { [threadId]: _deleted, ...threads } = get().threads;
+          const remaining = Object.values(threads).sort((a, b) => b.createdAt - a.createdAt);
+
+          // The workspace always has a thread to type into
+          const fallback = remaining[0] ?? newThread();
+          set(state => ({
+            threads: remaining.length > 0 ? threads : { [fallback.id]: fallback },
+            activeThreadId: state.activeThreadId === threadId ? fallback.id : state.activeThreadId
+          }), false, 'chat/deleteThread');
+        },
+
+        addMessage: (message, threadId) => set(state => {
+          const thread = state.threads[threadId ?? state.activeThreadId];
+          if (!thread) return {};
+
+          // Threads are named after their first request
+          const title = thread.messages.some(m => m.type === 'user') || message.type !== 'user'
+            ? thread.title
+            : message.content.slice(0, 40);
+          return {
+            threads: { ...state.threads, [thread.id]: { ...thread, title, messages: [...thread.messages, message] } }
+          };
+        }, false, 'chat/addMessage'),
+
+        clearThread: (threadId) => set(state => {
+          const thread = state.threads[threadId ?? state.activeThreadId];
+          return thread ? { threads: { ...state.threads, [thread.id]: { ...thread, messages: [] } } } : {};
+        }, false, 'chat/clearThread'),
+
+        startJob: ({ threadId, ...job }) => {
+          const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+          set(state => ({
+            jobs: [
+              ...state.jobs,
+              { ...job, id, threadId: threadId ?? state.activeThreadId, status: 'running', startedAt: Date.now() }
+            ]
+          }), false, 'jobs/start');
+          return id;
+        },
+
+        updateJob: (jobId, progress) => set(state => ({
+          jobs: state.jobs.map(job => (job.id === jobId && job.status === 'running' ? { ...job, ...progress } : job))
+        }), false, 'jobs/progress'),
+
+        finishJob: (jobId, panelId) => set(state => ({
+          jobs: settleJob(state.jobs, jobId, job => ({ ...job, status: 'succeeded', panelId: panelId ?? job.panelId }))
+        }), false, 'jobs/finish'),
+
+        failJob: (jobId, error) => set(state => ({
+          jobs: settleJob(state.jobs, jobId, job => ({ ...job, status: 'failed', error }))
+        }), false, 'jobs/fail'),
+
+        cancelJob: (jobId) => set(state => ({
+          jobs: settleJob(state.jobs, jobId, job => ({ ...job, status: 'cancelled' }))
+        }), false, 'jobs/cancel'),
+
+        setShowChat: (showChat) => set(state => ({
+          settings: { ...state.settings, showChat }
+        }), false, 'settings/showChat'),
+
+        setModel: (model) => {
+          if (model) {
+            ollamaClient.setModel(model);
+          }
+          set(state => ({ settings: { ...state.settings, model } }), false, 'settings/model');
+        },
+
+        setMemoryBudget: (memoryBudget) => set(state => ({
+          settings: { ...state.settings, memoryBudget }
+        }), false, 'settings/memoryBudget'),
+
+        setAllowedOrigins: (allowedOrigins) => set(state => ({
+          settings: { ...state.settings, allowedOrigins }
+        }), false, 'settings/allowedOrigins')
+      }),
+      {
+        name: 'ui-madness-workspace',
+        version: 3,
+        migrate: (persisted, version) => {
+          const state = persisted as PersistedWorkspace;
+          // v2 added the memory budget
+          if (version < 2) {
+            state.settings = { ...state.settings, memoryBudget: DEFAULT_MEMORY_BUDGET };
+          }
+          // v3 added the network allowlist
+          if (version < 3) {
+            state.settings = { ...state.settings, allowedOrigins: [] };
+          }
+          return state;
+        },
+        storage: createJSONStorage<PersistedWorkspace>(() => localStorage, {
+          reviver: (key, value) => (key === 'timestamp' && typeof value === 'string' ? new Date(value) : value)
+        }),
+        // Reason: components cannot be serialized; generated panels come back
+        // from the registry's own storage, the chat keeps their source only
+        partialize: (state): PersistedWorkspace => ({
+          threads: Object.fromEntries(Object.entries(state.threads).map(([id, thread]) => [id, {
+            ...thread,
+            messages: thread.messages.map(({ generatedPanel, ...message }) => (
+              generatedPanel ? { ...message, generatedPanel: { id: generatedPanel.id, jsxCode: generatedPanel.jsxCode } } : message
+            ))
+          }])),
+          activeThreadId: state.activeThreadId,
+          settings: state.settings
+        }),
+        onRehydrateStorage: () => (state) => {
+          if (state?.settings.model) {
+            ollamaClient.setModel(state.settings.model);
+          }
+        }
+      }
+    ),
+    { name: 'UI Madness workspace', enabled: window.__DEV__ }
+  )
+);
+
+function settleJob(
+  jobs: GenerationJob[],
+  jobId: string,
+  update: (job: GenerationJob) => GenerationJob
+): GenerationJob[] {
+  // Reason: drafts hold compiled modules that are released once the job settles
+  const settled = jobs.map(job => (job.id === jobId ? { ...update(job), preview: undefined, finishedAt: Date.now() } : job));
+  const finished = settled.filter(job => job.status !== 'running');
+  const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+  return settled.filter(job => !excess.has(job));
+}
+
+// Selectors. Those deriving new arrays must be wrapped in `useShallow`.
+
+export const selectPanels = (state: WorkspaceState) => state.panels;
+export const selectStats = (state: WorkspaceState) => state.stats;
+export const selectSettings = (state: WorkspaceState) => state.settings;
+export const selectActiveThread = (state: WorkspaceState) => state.threads[state.activeThreadId];
+export const selectIsGenerating = (state: WorkspaceState) => state.jobs.some(job => job.status === 'running');
+
+export const selectPanel = (panelId: string) => (state: WorkspaceState) =>
+  state.panels.find(panel => panel.id === panelId);
+
+export const selectThreads = (state: WorkspaceState): ChatThread[] =>
+  Object.values(state.threads).sort((a, b) => b.createdAt - a.createdAt);
+
+export const selectRunningJobs = (state: WorkspaceState): GenerationJob[] =>
+  state.jobs.filter(job => job.status === 'running');
+
+export default useWorkspaceStore;
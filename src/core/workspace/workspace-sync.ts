@@ -0,0 +1,101 @@
+import panelRegistry from '../registry/panel-registry';
+import panelLifecycle from '../registry/panel-lifecycle';
+import componentStore from '../registry/component-store';
+import fetchBroker from '../network/fetch-broker';
+import useWorkspaceStore from './workspace-store';
+
+let disconnect: (() => void) | null = null;
+
+/**
+ * Mirrors the registry into the workspace store: panels created, updated,
+ * unloaded or removed anywhere (chat, editor, disk sync, imports, restore)
+ * show up in the grid, and the header statistics follow every change. Applies
+ * the memory budget and network allowlist settings, then restores the panels
+ * of the last session. Calling it again is a no-op.
+ *
+ * @returns Function that stops mirroring
+ */
+export function connectWorkspace(): () => void {
+  if (disconnect) return disconnect;
+
+  const workspace = useWorkspaceStore.getState();
+
+  const refreshStats = () => {
+    const stats = panelRegistry.getStats();
+    workspace.setStats({
+      totalPanels: stats.totalPanels,
+      memoryUsage: stats.memoryUsage,
+      unloadedPanels: stats.evictedComponents,
+      cacheHitRate: stats.compilationCache.hitRate
+    });
+  };
+
+  // Reason: replay picks up panels announced before the workspace connected,
+  // e.g. by disk sync; removals replay in order after them
+  const unsubscribeEvents = panelRegistry.events.subscribe(['create-panel', 'remove-panel'], (event) => {
+    const { panelId } = event.payload;
+
+    if (event.type === 'remove-panel') {
+      workspace.removePanel(panelId);
+    } else {
+      const definition = panelRegistry.getPanel(panelId);
+      workspace.upsertPanel({
+        id: panelId,
+        name: definition?.name ?? panelId,
+        // Replayed events may carry a component that has been updated since
+        component: componentStore.get(panelId)?.component ?? event.payload.component,
+        metadata: definition?.metadata ?? { createdAt: new Date(), updatedAt: new Date(), creator: 'user', dependencies: [] },
+        order: definition?.layout?.order ?? Number.MAX_SAFE_INTEGER
+      });
+    }
+    refreshStats();
+  }, { replay: true });
+
+  // Refreshed-in-place versions keep the same component, so only
+  // incompatible updates remount
+  const unsubscribeStore = componentStore.subscribe((panelId, entry) => {
+    if (entry) {
+      workspace.updatePanelComponent(panelId, entry.component);
+    }
+    refreshStats();
+  });
+
+  // Unloaded panels show a placeholder until they are needed again
+  const unsubscribeEvictions = panelRegistry.events.subscribe('panel-evicted', (event) => {
+    workspace.updatePanelComponent(event.payload.panelId, null);
+    refreshStats();
+  });
+
+  // Trust level changes switch panels between the app and the sandbox
+  const unsubscribeMetadata = panelRegistry.events.subscribe('panel-metadata-changed', (event) => {
+    workspace.updatePanelMetadata(event.payload.panelId, event.payload.metadata);
+  });
+
+  // The memory budget and network allowlist are user settings
+  const { settings } = useWorkspaceStore.getState();
+  panelLifecycle.setBudget(settings.memoryBudget);
+  fetchBroker.setAllowedOrigins(settings.allowedOrigins);
+  const unsubscribeSettings = useWorkspaceStore.subscribe((state, previous) => {
+    if (state.settings.memoryBudget !== previous.settings.memoryBudget) {
+      panelLifecycle.setBudget(state.settings.memoryBudget);
+    }
+    if (state.settings.allowedOrigins !== previous.settings.allowedOrigins) {
+      fetchBroker.setAllowedOrigins(state.settings.allowedOrigins);
+    }
+  });
+
+  refreshStats();
+
+  // Bring back the panels of the last session; each arrives as a create-panel event
+  panelRegistry.restorePanels();
+
+  disconnect = () => {
+    unsubscribeEvents();
+    unsubscribeStore();
+    unsubscribeEvictions();
+    unsubscribeMetadata();
+    unsubscribeSettings();
+    disconnect = null;
+  };
+  return disconnect;
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import type { ComponentType } from 'react';
 import hmrManager from '../core/hmr/hmr-manager';
 import panelRegistry from '../core/registry/panel-registry';
+import componentStore from '../core/registry/component-store';
+import useWorkspaceStore, { selectPanels } from '../core/workspace/workspace-store';
 
 /**
  * Custom hook for HMR-enabled dynamic panels
@@ -35,20 +37,11 @@ export function useDynamicPanel(panelId: string) {
         setIsLoading(true);
         setError(null);
 
-        // Check if component is already cached
-        const cached = hmrManager.getComponent(panelId);
-        if (cached) {
-          if (mountedRef.current) {
-            setComponent(() => cached.component);
-            setLastUpdated(cached.lastUpdated);
-          }
-        } else {
-          // Try to get from panel registry
-          const registryComponent = panelRegistry.getComponent(panelId);
-          if (registryComponent && mountedRef.current) {
-            setComponent(() => registryComponent);
-            setLastUpdated(Date.now());
-          }
+        // Registry and HMR manager both commit into the component store
+        const cached = componentStore.get(panelId);
+        if (cached && mountedRef.current) {
+          setComponent(() => cached.component);
+          setLastUpdated(cached.lastUpdated);
         }
       } catch (err) {
         if (mountedRef.current) {
@@ -66,34 +59,27 @@ export function useDynamicPanel(panelId: string) {
 
   // Set up HMR listeners
   useEffect(() => {
-    const handleHMRUpdate = (event: CustomEvent) => {
-      const { panelId: updatedPanelId } = event.detail;
-      
-      if (updatedPanelId === panelIdRef.current && mountedRef.current) {
-        // Force re-render when HMR update occurs
-        const cached = hmrManager.getComponent(updatedPanelId);
-        if (cached) {
-          setComponent(() => cached.component);
-          setLastUpdated(cached.lastUpdated);
-          setError(null);
-        }
+    // Re-render whenever a new version of this panel is committed
+    const unsubscribe = componentStore.subscribe((updatedPanelId, entry) => {
+      if (updatedPanelId === panelIdRef.current && mountedRef.current && entry) {
+        setComponent(() => entry.component);
+        setLastUpdated(entry.lastUpdated);
+        setError(null);
+        setIsLoading(false);
       }
-    };
+    });
 
-    const handleHMRError = (event: CustomEvent) => {
-      const { panelId: errorPanelId, error: errorMessage } = event.detail;
+    const unsubscribeErrors = panelRegistry.events.subscribe('panel-hmr-error', (event) => {
+      const { panelId: errorPanelId, error: errorMessage } = event.payload;
       
       if (errorPanelId === panelIdRef.current && mountedRef.current) {
         setError(new Error(`HMR Error: ${errorMessage}`));
       }
-    };
-
-    window.addEventListener('panel-hmr-update', handleHMRUpdate);
-    window.addEventListener('panel-hmr-error', handleHMRError);
+    });
 
     return () => {
-      window.removeEventListener('panel-hmr-update', handleHMRUpdate);
-      window.removeEventListener('panel-hmr-error', handleHMRError);
+      unsubscribe();
+      unsubscribeErrors();
     };
   }, []);
 
@@ -112,7 +98,7 @@ export function useDynamicPanel(panelId: string) {
       setIsLoading(true);
       setError(null);
 
-      const cached = hmrManager.getComponent(panelIdRef.current);
+      const cached = componentStore.get(panelIdRef.current);
       if (cached && mountedRef.current) {
         setComponent(() => cached.component);
         setLastUpdated(cached.lastUpdated);
@@ -138,7 +124,7 @@ export function useDynamicPanel(panelId: string) {
 
       await hmrManager.updateComponent(panelIdRef.current, jsxCode);
       
-      // Component will be updated via HMR event listener
+      // Component will be updated via the store subscription
     } catch (err) {
       if (mountedRef.current) {
         setError(err instanceof Error ? err : new Error('Update failed'));
@@ -154,44 +140,20 @@ export function useDynamicPanel(panelId: string) {
     lastUpdated,
     refresh,
     updateWithJSX,
-    isHMREnabled: hmrManager.hasComponent(panelId)
+    isHMREnabled: componentStore.has(panelId)
   };
 }
 
 /**
  * Hook for managing multiple dynamic panels
+ *
+ * Reads the panel grid from the workspace store; creating and removing go
+ * through the registry, whose events update the store.
  */
 export function useDynamicPanels() {
-  const [panels, setPanels] = useState<Array<{ id: string; component: ComponentType }>>([]);
+  const panels = useWorkspaceStore(selectPanels);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Listen for new panel creation
-  useEffect(() => {
-    const handleCreatePanel = (event: CustomEvent) => {
-      const { panelId, component } = event.detail;
-      
-      setPanels(prev => {
-        // Remove existing panel with same ID, then add new one
-        const filtered = prev.filter(p => p.id !== panelId);
-        return [...filtered, { id: panelId, component }];
-      });
-    };
-
-    const handleRemovePanel = (event: CustomEvent) => {
-      const { panelId } = event.detail;
-      
-      setPanels(prev => prev.filter(p => p.id !== panelId));
-    };
-
-    window.addEventListener('create-panel', handleCreatePanel);
-    window.addEventListener('remove-panel', handleRemovePanel);
-
-    return () => {
-      window.removeEventListener('create-panel', handleCreatePanel);
-      window.removeEventListener('remove-panel', handleRemovePanel);
-    };
-  }, []);
-
   const createPanel = useCallback(async (jsxCode: string, panelId?: string) => {
     const id = panelId || `panel-${Date.now()}`;
     
@@ -201,9 +163,7 @@ export function useDynamicPanels() {
       const component = await panelRegistry.registerPanelFromJSX(id, jsxCode);
       
       // Emit creation event
-      window.dispatchEvent(new CustomEvent('create-panel', {
-        detail: { panelId: id, component }
-      }));
+      panelRegistry.events.emit('create-panel', { panelId: id, component });
       
       return id;
     } catch (error) {
@@ -215,25 +175,19 @@ export function useDynamicPanels() {
   }, []);
 
   const removePanel = useCallback((panelId: string) => {
-    // Clean up from registry and HMR manager
+    // Releases the panel's modules from the shared component store
     panelRegistry.removePanel(panelId);
-    hmrManager.removeComponent(panelId);
     
     // Emit removal event
-    window.dispatchEvent(new CustomEvent('remove-panel', {
-      detail: { panelId }
-    }));
+    panelRegistry.events.emit('remove-panel', { panelId });
   }, []);
 
   const clearAllPanels = useCallback(() => {
-    // Clean up all panels
-    panels.forEach(panel => {
-      panelRegistry.removePanel(panel.id);
-      hmrManager.removeComponent(panel.id);
+    // Clean up all panels, announcing each removal like a single remove
+    useWorkspaceStore.getState().panels.forEach(panel => {
+      removePanel(panel.id);
     });
-    
-    setPanels([]);
-  }, [panels]);
+  }, [removePanel]);
 
   return {
     panels,
@@ -6,6 +6,25 @@ import './index.css';
 // Initialize runtime compilation system
 import './core/compiler/runtime-compiler';
 
+// Record every committed panel version as a revision
+import './core/history/revision-history';
+
+// Mirror panels to disk while running on the dev server
+import './core/sync/panel-sync-client';
+
+import { connectWorkspace } from './core/workspace/workspace-sync';
+import { connectSandboxSDK } from './core/sdk/sandbox-sdk';
+import { connectChannels } from './core/channels/channel-sync';
+
+// Keep the workspace store in step with the registry and restore the last session
+connectWorkspace();
+
+// Answer panel SDK calls from sandboxed panels
+connectSandboxSDK();
+
+// Record the channels panels use and apply their channel permissions
+connectChannels();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -13,15 +13,11 @@ declare module '@babel/standalone' {
     map?: any;
   }
 
-  export function transform(code: string, options?: TransformOptions): TransformResult;
-}
-
-declare global {
-  interface Window {
-    Babel: {
-      transform: (code: string, options?: import('@babel/standalone').TransformOptions) => import('@babel/standalone').TransformResult;
-    };
+  interface BabelPackages {
+    parser: { parse: (code: string, options?: any) => any };
+    traverse: { default: (ast: any, visitors: Record<string, any>) => void };
   }
-}
 
-export {};
\ No newline at end of file
+  export function transform(code: string, options?: TransformOptions): TransformResult;
+  export const packages: BabelPackages;
+}
@@ -1,4 +1,7 @@
 import type { ComponentType } from 'react';
+import type { PanelFileTree } from './panel-files';
+
+export type { PanelFileTree };
 
 /**
  * Core types for the UI Madness dynamic panel system.
@@ -8,6 +11,10 @@ declare global {
   interface Window {
     Babel: {
       transform: (code: string, options?: any) => { code?: string; map?: any };
+      packages: {
+        parser: { parse: (code: string, options?: any) => any };
+        traverse: { default: (ast: any, visitors: Record<string, any>) => void };
+      };
     };
     React: typeof import('react');
     ReactDOM: typeof import('react-dom');
@@ -15,15 +22,6 @@ declare global {
     __DEV__: boolean;
   }
 
-  interface WindowEventMap {
-    'ai-component-generated': CustomEvent<{ panelId: string; jsxCode: string }>;
-    'manual-component-update': CustomEvent<{ panelId: string; jsxCode: string }>;
-    'panel-hmr-update': CustomEvent<{ panelId: string; jsxCode?: string }>;
-    'panel-hmr-error': CustomEvent<{ panelId: string; error: string }>;
-    'create-panel': CustomEvent<{ panelId: string; component: any; metadata?: any }>;
-    'remove-panel': CustomEvent<{ panelId: string }>;
-  }
-
   interface ImportMeta {
     readonly env: {
       readonly DEV: boolean;
@@ -43,17 +41,78 @@ declare global {
       decline(deps: readonly string[]): void;
       invalidate(): void;
       on(event: string, cb: (...args: any[]) => void): void;
+      send(event: string, data?: any): void;
     };
   }
 }
 
+/**
+ * Payloads of the events on the registry's event bus, keyed by event type.
+ */
+export interface PanelEventMap {
+  /** An AI generation produced new code for a panel */
+  'ai-component-generated': { panelId: string; jsxCode: string; component?: ComponentType };
+  /** New source for a panel from outside the registry, e.g. files saved on disk */
+  'manual-component-update': { panelId: string; jsxCode?: string; files?: PanelFileTree };
+  /** A new version of a panel was applied */
+  'panel-hmr-update': HMRUpdateData;
+  /** A hot update failed; the panel keeps its last good version */
+  'panel-hmr-error': { panelId: string; error: string; failure: HMRUpdateFailure };
+  /** A panel is ready to be shown in the workspace */
+  'create-panel': { panelId: string; component: ComponentType; metadata?: Record<string, any> };
+  /** A panel was removed from the workspace */
+  'remove-panel': { panelId: string };
+  /** Panel code threw outside of rendering */
+  'panel-runtime-error': { panelId: string; error: string; mapped: MappedPanelError };
+  /** A browser edit lost against a concurrent edit on disk */
+  'panel-sync-conflict': { panelId: string; conflictPath: string };
+  /** A panel's compiled modules were unloaded to stay within the memory budget */
+  'panel-evicted': { panelId: string; freedBytes: number };
+  /** A panel's metadata changed without a new version of its code */
+  'panel-metadata-changed': { panelId: string; metadata: PanelMetadata };
+}
+
+export type PanelEventType = keyof PanelEventMap;
+
+/** An event as delivered by the event bus; narrow on `type` to get the payload */
+export type PanelEvent<K extends PanelEventType = PanelEventType> = {
+  [T in K]: {
+    type: T;
+    payload: PanelEventMap[T];
+    /** Position in the global event order, increasing by one per event */
+    sequence: number;
+    timestamp: number;
+  }
+}[K];
+
 export interface PanelDefinition {
   id: string;
   name: string;
+  /** Source of the panel, or of its entry module for multi-file panels */
   jsxCode: string;
+  /** Virtual file tree of a multi-file panel */
+  files?: PanelFileTree;
   compiledCode?: string;
   component?: ComponentType;
   metadata: PanelMetadata;
+  /** Position of the panel in the workspace */
+  layout?: PanelLayout;
+}
+
+/** Where a panel sits in the workspace grid */
+export interface PanelLayout {
+  /** Sort key of the panel in the grid; lower comes first */
+  order: number;
+}
+
+/** A module of a multi-file panel after linking. */
+export interface LinkedPanelFile {
+  moduleUrl: string;
+  /** Compiled code before linking, used to detect unchanged modules */
+  code: string;
+  map?: RawSourceMap;
+  /** Panel files this module imports */
+  imports: string[];
 }
 
 export interface PanelMetadata {
@@ -66,20 +125,106 @@ export interface PanelMetadata {
   panelType?: string;
   error?: string;
   warnings?: string[];
+  /** Where the panel runs; unset means isolated for AI-created panels, trusted otherwise */
+  trust?: PanelTrust;
+  /** Message channels the panel uses and may use */
+  channels?: PanelChannelAccess;
 }
 
+/**
+ * Channels a panel used on the inter-panel message bus, recorded as it
+ * publishes and subscribes, and the ones the user allowed it. Isolated
+ * panels may only use allowed channels; trusted ones may use any.
+ */
+export interface PanelChannelAccess {
+  publishes: string[];
+  subscribes: string[];
+  allowedPublish?: string[];
+  allowedSubscribe?: string[];
+}
+
+/**
+ * Where a panel's code runs: `trusted` panels render in the app itself,
+ * `isolated` ones in a sandboxed iframe without access to the app.
+ */
+export type PanelTrust = 'trusted' | 'isolated';
+
+/** A compiled panel module for a sandbox frame, with imports rewritten to placeholders */
+export interface SandboxModule {
+  path: string;
+  code: string;
+}
+
+export type SourceLanguage = 'jsx' | 'tsx' | 'auto';
+
 export interface CompilerOptions {
-  presets?: string[];
+  presets?: (string | [string, any])[];
   plugins?: (string | [string, any])[];
   sourceMaps?: boolean;
+  /** Source language; 'auto' detects TypeScript syntax from the code */
+  language?: SourceLanguage;
+  /** Emit React Refresh registrations so hot updates keep component state */
+  refresh?: boolean;
+}
+
+export interface CompilationWarning {
+  code:
+    | 'explicit-any'
+    | 'non-null-assertion'
+    | 'ts-directive'
+    | 'const-enum'
+    | 'namespace'
+    | 'ambient-declaration';
+  message: string;
+  /** Panel file the warning belongs to, for multi-file panels */
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+  file?: string;
+}
+
+export interface MappedPanelError {
+  panelId: string;
+  /** Original source file name, e.g. `Counter.jsx` */
+  sourceName: string;
+  /** Original panel source, when embedded in the source map */
+  sourceContent?: string;
+  /** Location in the panel's source of the innermost panel frame */
+  location: SourceLocation;
+  /** Stack trace with panel frames translated to source locations */
+  stack: string;
 }
 
 export interface CompilationResult {
   success: boolean;
   code?: string;
+  /** Source map of the emitted module, relative to the panel source */
+  map?: RawSourceMap;
   moduleUrl?: string;
   error?: Error;
-  warnings?: string[];
+  warnings?: CompilationWarning[];
+  language?: Exclude<SourceLanguage, 'auto'>;
+  /** True when a newer compile for the same panel superseded this one */
+  cancelled?: boolean;
+  /** Linked modules of a multi-file panel, keyed by path */
+  files?: Record<string, LinkedPanelFile>;
+}
+
+export interface CompilationCacheStats {
+  hits: number;
+  misses: number;
+  /** Entries held in memory (the persistent store may hold more) */
+  entries: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
 }
 
 export interface ChatMessage {
@@ -90,21 +235,221 @@ export interface ChatMessage {
   generatedPanel?: {
     id: string;
     jsxCode: string;
-    component: ComponentType;
+    /** Not persisted; absent on messages restored from an earlier session */
+    component?: ComponentType;
   };
 }
 
+/**
+ * A conversation with the assistant; the workspace keeps several.
+ */
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+}
+
+/**
+ * A panel as shown in the workspace grid.
+ */
+export interface WorkspacePanel {
+  id: string;
+  name: string;
+  /** Null while the panel's modules are unloaded */
+  component: ComponentType | null;
+  metadata: PanelMetadata;
+  /** Grid position, see PanelLayout */
+  order: number;
+}
+
+/**
+ * An AI generation started from the workspace.
+ */
+export interface GenerationJob {
+  id: string;
+  kind: 'generate' | 'regenerate';
+  threadId: string;
+  prompt?: string;
+  /** Target panel; set up front for regenerations, on success otherwise */
+  panelId?: string;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  error?: string;
+  /** Text streamed by the model so far */
+  output?: string;
+  /** Draft compiled from the latest partial output that parsed */
+  preview?: GenerationDraft;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * Draft of a running generation. Drafts of panels that will be isolated never
+ * run in the app; they are linked for a sandbox frame instead.
+ */
+export type GenerationDraft =
+  | { trust: 'trusted'; component: ComponentType }
+  | { trust: 'isolated'; draftId: string; modules: SandboxModule[] };
+
+export interface WorkspaceSettings {
+  showChat: boolean;
+  /** Ollama model used for generation; the client's default when null */
+  model: string | null;
+  /** Bytes of compiled modules kept loaded before idle panels are unloaded */
+  memoryBudget: number;
+  /** Origins panels may request through the fetch broker */
+  allowedOrigins: string[];
+}
+
+/**
+ * Registry figures shown in the workspace header.
+ */
+export interface WorkspaceStats {
+  totalPanels: number;
+  memoryUsage: number;
+  /** Panels whose modules are unloaded until shown again */
+  unloadedPanels: number;
+  cacheHitRate: number;
+}
+
+/**
+ * Memory held by one panel, as tracked by the panel lifecycle.
+ */
+export interface PanelMemoryUsage {
+  panelId: string;
+  /** Live blob URLs of the panel's modules */
+  moduleUrls: number;
+  /** Size of those module blobs */
+  moduleBytes: number;
+  /** Compiled code retained for the loaded version (UTF-16) */
+  codeBytes: number;
+  /** Committed source, kept while unloaded to recompile from (UTF-16) */
+  sourceBytes: number;
+  mountedInstances: number;
+  /** Last time a mounted instance rendered, null if never */
+  lastRenderAt: number | null;
+  /** Expanded and on screen */
+  visible: boolean;
+  evicted: boolean;
+}
+
 export interface HMRUpdateData {
   panelId: string;
   jsxCode: string;
+  /** File that changed, for multi-file panels */
+  filePath?: string;
   timestamp: number;
+  /** Phase timings of the update, when applied through the HMR manager */
+  timing?: HMRUpdateTiming;
+}
+
+/** A hot update that could not be applied; the panel keeps its last good version */
+export interface HMRUpdateFailure {
+  panelId: string;
+  /** Whether the source failed to compile or its module failed to evaluate */
+  phase: 'compile' | 'load';
+  message: string;
+  /** Path of the failing file, for multi-file panels */
+  filePath?: string;
+  /** Source the location refers to, for showing an excerpt */
+  excerptSource?: string;
+  location?: SourceLocation;
+  /** Source of the failed update */
+  failedSource: string | PanelFileTree;
+  /** Version still rendering, if the panel had one */
+  lastGoodVersion?: number;
+  timestamp: number;
+}
+
+/** Time spent in each phase of one hot update, in milliseconds */
+export interface HMRUpdateTiming {
+  panelId: string;
+  version: number;
+  /** Waiting for the panel's earlier update to land */
+  queueMs: number;
+  compileMs: number;
+  /** Evaluating the new modules and refreshing the mounted component */
+  importMs: number;
+  /** From commit until the next frame was painted */
+  renderMs: number;
+  /** From the arrival of the applied source until it was painted */
+  totalMs: number;
+  /** Older updates superseded by this one */
+  coalesced: number;
+}
+
+/** What produced a panel revision */
+export type RevisionKind = 'creation' | 'generation' | 'improvement' | 'regeneration' | 'edit' | 'rollback' | 'import';
+
+/** One committed version of a panel's source */
+export interface PanelRevision {
+  panelId: string;
+  /** 1-based, increasing per panel */
+  number: number;
+  kind: RevisionKind;
+  author: 'ai' | 'user';
+  /** Prompt or feedback the revision was generated from */
+  prompt?: string;
+  /** Model that generated the revision */
+  model?: string;
+  /** Revision whose source a rollback restored */
+  restoredFrom?: number;
+  source: string | PanelFileTree;
+  timestamp: number;
+}
+
+/** A line of a diff between two revisions */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  /** 1-based line in the older source; absent for added lines */
+  oldLine?: number;
+  /** 1-based line in the newer source; absent for removed lines */
+  newLine?: number;
+}
+
+/** Diff of one file between two revisions */
+export interface FileDiff {
+  /** Panel file path; the panel ID for single-file panels */
+  path: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  lines: DiffLine[];
+}
+
+/** Portable file holding panels exported from a workspace */
+export interface PanelBundle {
+  format: 'ui-madness.panel-bundle';
+  /** Bundle format version */
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  panels: BundledPanel[];
+}
+
+/** A panel inside a bundle; dates are ISO strings */
+export interface BundledPanel {
+  id: string;
+  name: string;
+  source: string | PanelFileTree;
+  metadata: Omit<PanelMetadata, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+  layout?: PanelLayout;
+  /** Revision log, oldest first */
+  revisions: Omit<PanelRevision, 'panelId'>[];
 }
 
 export interface ComponentCacheEntry {
   component: ComponentType;
+  /** Monotonic per-panel version, bumped each time a new compilation is committed */
+  version: number;
   moduleUrl: string;
   lastUpdated: number;
   compiledCode: string;
+  sourceMap?: RawSourceMap;
+  /** Linked modules of a multi-file panel, keyed by path */
+  files?: Record<string, LinkedPanelFile>;
+  warnings?: CompilationWarning[];
+  /** Time the store spent producing this version */
+  timing?: Pick<HMRUpdateTiming, 'queueMs' | 'compileMs' | 'importMs'>;
 }
 
 export interface SecurityValidationResult {
@@ -112,6 +457,43 @@ export interface SecurityValidationResult {
   errors: string[];
   warnings: string[];
   sanitizedCode?: string;
+  /** Sanitized file tree, when a multi-file panel was validated */
+  sanitizedFiles?: PanelFileTree;
+  violations?: SecurityViolation[];
+}
+
+export type SecurityRuleId =
+  | 'syntax-error'
+  | 'forbidden-global'
+  | 'global-member-access'
+  | 'computed-global-access'
+  | 'computed-property-trick'
+  | 'constructor-escape'
+  | 'frame-access'
+  | 'message-passing'
+  | 'html-injection'
+  | 'string-timer'
+  | 'uncleared-interval'
+  | 'dynamic-import'
+  | 'forbidden-element'
+  | 'forbidden-attribute'
+  | 'string-event-handler'
+  | 'dangerous-url';
+
+export interface SourceLocation {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+export interface SecurityViolation {
+  rule: SecurityRuleId;
+  message: string;
+  severity: 'error' | 'warning';
+  loc: SourceLocation;
+  /** Panel file the violation was found in, for multi-file panels */
+  file?: string;
 }
 
 export interface OllamaGenerationOptions {
@@ -128,6 +510,46 @@ export interface ComponentGenerationRequest {
   context?: Record<string, any>;
 }
 
+/**
+ * Streaming options and progress callbacks of a generation.
+ */
+export interface GenerationStreamOptions {
+  /** Called with each streamed chunk and the text streamed so far */
+  onToken?: (token: string, text: string) => void;
+  /** Called when generated code failed a check and the model is asked for a fix */
+  onRepair?: (round: RepairRound) => void;
+  /** Cancels the generation */
+  signal?: AbortSignal;
+  /** Fails the generation when the model sends nothing for this long */
+  idleTimeoutMs?: number;
+}
+
+/** Check a generated component failed: security validation, compilation or its first render */
+export type RepairStage = 'validation' | 'compile' | 'render';
+
+/** Result of mounting a generated component in a detached root */
+export interface RenderVerification {
+  status: 'pass' | 'fail';
+  /** Render errors, errors reported by error boundaries, budget overruns and render loops */
+  errors: string[];
+  /** Console errors and warnings that did not fail the render */
+  warnings: string[];
+  /** Duration of the first render */
+  renderMs: number;
+  /** Commits until the component settled or the budget ran out */
+  commits: number;
+}
+
+/** Failing code sent back to the model for a fix */
+export interface RepairRound {
+  panelId: string;
+  /** 1 for the first repair */
+  round: number;
+  maxRounds: number;
+  stage: RepairStage;
+  error: string;
+}
+
 export interface ErrorBoundaryState {
   hasError: boolean;
   error: Error | null;
@@ -0,0 +1,14 @@
+/**
+ * Panel file types shared with the dev server plugins, so this module must
+ * not depend on browser or React types.
+ */
+
+/**
+ * Source files of a multi-file panel. Paths are relative to the panel root
+ * (e.g. `Chart.jsx`, `hooks/useData.js`) and may import each other relatively.
+ */
+export interface PanelFileTree {
+  /** Path of the module whose default export is the panel component */
+  entry: string;
+  files: Record<string, string>;
+}
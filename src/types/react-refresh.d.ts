@@ -0,0 +1,25 @@
+// Type declarations for react-refresh
+
+declare module 'react-refresh/runtime' {
+  interface RefreshFamily {
+    current: unknown;
+  }
+
+  interface RefreshUpdate {
+    updatedFamilies: Set<RefreshFamily>;
+    staleFamilies: Set<RefreshFamily>;
+  }
+
+  export function injectIntoGlobalHook(globalObject: object): void;
+  export function register(type: unknown, id: string): void;
+  export function createSignatureFunctionForTransform(): <T>(type: T, key?: string, forceReset?: boolean, getCustomHooks?: () => unknown[]) => T;
+  export function performReactRefresh(): RefreshUpdate | null;
+  export function getFamilyByType(type: unknown): RefreshFamily | undefined;
+  export function isLikelyComponentType(type: unknown): boolean;
+  export function hasUnrecoverableErrors(): boolean;
+}
+
+declare module 'react-refresh/babel' {
+  const plugin: (babel: unknown, options?: Record<string, unknown>) => unknown;
+  export default plugin;
+}
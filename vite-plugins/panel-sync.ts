@@ -0,0 +1,324 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Plugin, ViteDevServer } from 'vite';
+import type { PanelFileTree } from '../src/types/panel-files';
+import {
+  PANEL_SYNC_EVENTS,
+  hashPanelSource,
+  type PanelSyncChanged,
+  type PanelSyncConflict,
+  type PanelSyncHello,
+  type PanelSyncRejected,
+  type PanelSyncRemove,
+  type PanelSyncWrite
+} from '../src/core/sync/panel-sync-protocol';
+
+/**
+ * Panel sync dev server plugin
+ *
+ * Mirrors registered panels to a directory so they can be edited in a real
+ * editor and kept in git. Single-file panels are stored as `<panelId>.jsx`,
+ * multi-file panels as a `<panelId>/` directory whose `.panel.json` names the
+ * entry file. Saving a file pushes the panel to the browser; panels created or
+ * changed in the browser are written back. Entries starting with a dot are
+ * bookkeeping and never treated as panels.
+ */
+
+export interface PanelSyncOptions {
+  /** Directory holding the panel files, relative to the project root */
+  dir?: string;
+}
+
+const SINGLE_FILE_EXTENSIONS = ['.jsx', '.tsx', '.js', '.ts'];
+const MANIFEST_FILE = '.panel.json';
+const CONFLICTS_DIR = '.conflicts';
+const PANEL_ID_PATTERN = /^[A-Za-z0-9_][\w-]*$/;
+
+/**
+ * Creates the panel sync plugin. Only active for the dev server.
+ *
+ * @param options - Plugin options
+ * @returns Vite plugin
+ */
+export function panelSync(options: PanelSyncOptions = {}): Plugin {
+  let root = '';
+  let dir = '';
+  // Hash of the source both sides last agreed on, per panel
+  const synced = new Map<string, string>();
+  // Panels being written by the plugin, whose files are briefly inconsistent
+  const writing = new Set<string>();
+
+  /**
+   * Maps a file to the panel it belongs to, or null for files outside the
+   * panel directory and bookkeeping entries.
+   */
+  const panelIdOf = (file: string): string | null => {
+    const relative = path.relative(dir, file);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return null;
+    }
+
+    const segments = relative.split(path.sep);
+    if (segments.some(segment => segment.startsWith('.'))) {
+      return null;
+    }
+
+    const panelId = segments.length === 1 ? segments[0].replace(/\.[jt]sx?$/, '') : segments[0];
+    return PANEL_ID_PATTERN.test(panelId) ? panelId : null;
+  };
+
+  /**
+   * Resolves a path inside the panel directory, refusing anything that escapes it.
+   */
+  const resolveInside = (...segments: string[]): string => {
+    const resolved = path.resolve(dir, ...segments);
+    if (!resolved.startsWith(dir + path.sep)) {
+      throw new Error(`Path escapes the panel directory: ${segments.join('/')}`);
+    }
+    return resolved;
+  };
+
+  const readPanel = async (panelId: string): Promise<string | PanelFileTree | undefined> => {
+    for (const extension of SINGLE_FILE_EXTENSIONS) {
+      const code = await readFileIfExists(resolveInside(`${panelId}${extension}`));
+      if (code !== undefined) {
+        return code;
+      }
+    }
+
+    const panelDir = resolveInside(panelId);
+    const files = await readTree(panelDir);
+    if (Object.keys(files).length === 0) {
+      return undefined;
+    }
+
+    const manifest = await readFileIfExists(path.join(panelDir, MANIFEST_FILE));
+    const entry: string = manifest
+      ? JSON.parse(manifest).entry
+      : Object.keys(files).find(file => /^index\.[jt]sx?$/.test(file)) ?? Object.keys(files)[0];
+    return { entry, files };
+  };
+
+  const writePanel = async (panelId: string, source: string | PanelFileTree, target: string = dir): Promise<string> => {
+    if (typeof source === 'string') {
+      const existing = target === dir ? await findSingleFile(panelId) : undefined;
+      const file = existing ?? path.join(target, `${panelId}.jsx`);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, source);
+      return file;
+    }
+
+    const panelDir = path.join(target, panelId);
+    for (const [filePath, code] of Object.entries(source.files)) {
+      const file = path.resolve(panelDir, filePath);
+      if (!file.startsWith(panelDir + path.sep)) {
+        throw new Error(`Panel file escapes its directory: ${filePath}`);
+      }
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, code);
+    }
+
+    // Files removed from the panel are removed from disk too
+    for (const filePath of Object.keys(await readTree(panelDir))) {
+      if (!(filePath in source.files)) {
+        await fs.rm(path.join(panelDir, filePath));
+      }
+    }
+
+    await fs.writeFile(path.join(panelDir, MANIFEST_FILE), `${JSON.stringify({ entry: source.entry }, null, 2)}\n`);
+    return panelDir;
+  };
+
+  const findSingleFile = async (panelId: string): Promise<string | undefined> => {
+    for (const extension of SINGLE_FILE_EXTENSIONS) {
+      const file = resolveInside(`${panelId}${extension}`);
+      if (await readFileIfExists(file) !== undefined) {
+        return file;
+      }
+    }
+    return undefined;
+  };
+
+  const removePanel = async (panelId: string): Promise<void> => {
+    const single = await findSingleFile(panelId);
+    if (single) {
+      await fs.rm(single);
+    }
+    await fs.rm(resolveInside(panelId), { recursive: true, force: true });
+  };
+
+  /**
+   * Applies a browser write unless the panel changed on disk since the
+   * browser last synced it; then the disk wins and the browser's version is
+   * saved as a conflict copy.
+   */
+  const handleWrite = async (server: ViteDevServer, { panelId, source, base }: PanelSyncWrite): Promise<void> => {
+    if (!PANEL_ID_PATTERN.test(panelId)) {
+      throw new Error(`Invalid panel ID: ${panelId}`);
+    }
+
+    const onDisk = await readPanel(panelId);
+    const diskHash = onDisk === undefined ? undefined : hashPanelSource(onDisk);
+    const hash = hashPanelSource(source);
+
+    if (onDisk === undefined || diskHash === base || diskHash === hash) {
+      // Recorded before writing, so the watcher recognizes its own echo
+      synced.set(panelId, hash);
+      if (diskHash !== hash) {
+        writing.add(panelId);
+        try {
+          await writePanel(panelId, source);
+        } finally {
+          writing.delete(panelId);
+        }
+        server.config.logger.info(`[panel-sync] Wrote ${panelId} to ${path.relative(root, dir)}`, { timestamp: true });
+      }
+      return;
+    }
+
+    const conflictDir = resolveInside(CONFLICTS_DIR, new Date().toISOString().replace(/[:.]/g, '-'));
+    const conflictPath = path.relative(root, await writePanel(panelId, source, conflictDir));
+    server.config.logger.warn(`[panel-sync] ${panelId} changed on disk and in the browser; kept the disk version, saved the browser's to ${conflictPath}`, { timestamp: true });
+
+    synced.set(panelId, diskHash!);
+    server.ws.send(PANEL_SYNC_EVENTS.conflict, { panelId, conflictPath } satisfies PanelSyncConflict);
+    server.ws.send(PANEL_SYNC_EVENTS.changed, { panelId, source: onDisk } satisfies PanelSyncChanged);
+  };
+
+  /**
+   * Pushes a panel to the browser after its files changed on disk.
+   */
+  const handleDiskChange = async (server: ViteDevServer, panelId: string): Promise<void> => {
+    // Reason: events raised mid-write would push a half-written panel; once
+    // the write finishes, the files on disk match `synced` again
+    if (writing.has(panelId)) {
+      return;
+    }
+
+    const onDisk = await readPanel(panelId);
+
+    if (onDisk === undefined) {
+      if (synced.delete(panelId)) {
+        server.ws.send(PANEL_SYNC_EVENTS.removed, { panelId } satisfies PanelSyncRemove);
+      }
+      return;
+    }
+
+    const hash = hashPanelSource(onDisk);
+    if (synced.get(panelId) === hash) {
+      return;
+    }
+
+    synced.set(panelId, hash);
+    server.ws.send(PANEL_SYNC_EVENTS.changed, { panelId, source: onDisk } satisfies PanelSyncChanged);
+  };
+
+  return {
+    name: 'ui-madness:panel-sync',
+    apply: 'serve',
+
+    configResolved(config) {
+      root = config.root;
+      dir = path.resolve(root, options.dir ?? 'panels');
+    },
+
+    async configureServer(server) {
+      await fs.mkdir(dir, { recursive: true });
+      server.watcher.add(dir);
+
+      const report = (action: string) => (error: unknown) =>
+        server.config.logger.error(`[panel-sync] Failed to ${action}: ${error}`, { timestamp: true });
+
+      server.ws.on(PANEL_SYNC_EVENTS.hello, async ({ panels }: PanelSyncHello) => {
+        try {
+          const known = new Set(panels.map(panel => panel.panelId));
+          for (const panel of panels) {
+            await handleWrite(server, panel);
+          }
+
+          // Panels that exist only on disk are sent to the browser
+          for (const entry of await fs.readdir(dir)) {
+            const panelId = panelIdOf(path.join(dir, entry));
+            if (panelId && !known.has(panelId)) {
+              known.add(panelId);
+              synced.delete(panelId);
+              await handleDiskChange(server, panelId);
+            }
+          }
+        } catch (error) {
+          report('sync panels on connect')(error);
+        }
+      });
+
+      server.ws.on(PANEL_SYNC_EVENTS.write, (write: PanelSyncWrite) => {
+        handleWrite(server, write).catch(report(`write panel ${write.panelId}`));
+      });
+
+      server.ws.on(PANEL_SYNC_EVENTS.rejected, ({ panelId, errors }: PanelSyncRejected) => {
+        server.config.logger.warn(`[panel-sync] The browser rejected ${panelId} from disk:\n  ${errors.join('\n  ')}`, { timestamp: true });
+      });
+
+      server.ws.on(PANEL_SYNC_EVENTS.remove, ({ panelId }: PanelSyncRemove) => {
+        if (!PANEL_ID_PATTERN.test(panelId)) return;
+        synced.delete(panelId);
+        removePanel(panelId).catch(report(`remove panel ${panelId}`));
+      });
+
+      const onFileEvent = (file: string) => {
+        const panelId = panelIdOf(file);
+        if (panelId) {
+          handleDiskChange(server, panelId).catch(report(`read panel ${panelId}`));
+        }
+      };
+      server.watcher.on('add', onFileEvent);
+      server.watcher.on('change', onFileEvent);
+      server.watcher.on('unlink', onFileEvent);
+    },
+
+    // Panel files are not part of the app's module graph; the bridge updates
+    // them, so Vite must not reload the page
+    handleHotUpdate({ file }) {
+      if (file.startsWith(dir + path.sep)) {
+        return [];
+      }
+    }
+  };
+}
+
+async function readFileIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'EISDIR') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the panel files below a directory, keyed by POSIX path, skipping
+ * bookkeeping entries.
+ */
+async function readTree(root: string, prefix: string = ''): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, prefix), { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      Object.assign(files, await readTree(root, relative));
+    } else {
+      files[relative] = await fs.readFile(path.join(root, relative), 'utf8');
+    }
+  }
+
+  return files;
+}
@@ -1,6 +1,7 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { panelSync } from './vite-plugins/panel-sync';
 
 export default defineConfig({
   plugins: [
@@ -10,7 +11,9 @@ export default defineConfig({
         babelrc: false,
         configFile: false,
       }
-    })
+    }),
+    // Mirror panels to panels/ so they can be edited on disk
+    panelSync({ dir: 'panels' })
   ],
   server: {
     hmr: {